@@ -0,0 +1,53 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { subscribeAchievements, Achievement } from "../lib/stats";
+
+// How long a toast stays on screen, in milliseconds
+const TOAST_DURATION = 4000;
+
+// ------------------------------
+// AchievementToasts Component
+// ------------------------------
+/**
+ * Shows a toast in the corner of the screen for every achievement unlocked
+ * while a game is played.
+ */
+const AchievementToasts: React.FC = () => {
+  const [toasts, setToasts] = useState<Achievement[]>([]);
+
+  // Add toasts as achievements unlock and remove each one after a while
+  useEffect(() => {
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const unsubscribe = subscribeAchievements((unlocked) => {
+      setToasts((prev) => [...prev, ...unlocked]);
+      timers.push(
+        setTimeout(() => {
+          setToasts((prev) => prev.filter((toast) => !unlocked.includes(toast)));
+        }, TOAST_DURATION)
+      );
+    });
+    return () => {
+      unsubscribe();
+      timers.forEach(clearTimeout);
+    };
+  }, []);
+
+  return (
+    <div className="fixed bottom-4 right-4 flex flex-col items-end space-y-2 z-50" aria-live="polite">
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          style={{ backgroundColor: "#312626" }} // Explicit color setting
+          className="text-white border-4 border-orange-500 rounded-lg px-4 py-2 shadow-xl"
+        >
+          <p className="text-xs uppercase font-bold text-orange-400">Achievement unlocked</p>
+          <p className="font-bold">{toast.title}</p>
+          <p className="text-sm">{toast.description}</p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AchievementToasts;
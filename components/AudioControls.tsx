@@ -0,0 +1,50 @@
+"use client";
+
+import React from "react";
+import { useAudio } from "../lib/audio";
+
+/**
+ * Props for AudioControls.
+ * - className: Extra classes for the wrapper (e.g. text color or margins).
+ */
+type AudioControlsProps = {
+  className?: string;
+};
+
+// ------------------------------
+// AudioControls Component
+// ------------------------------
+/**
+ * Mute toggle and volume slider for the shared audio manager. The settings
+ * are saved, so every game and later visits use them.
+ */
+const AudioControls: React.FC<AudioControlsProps> = ({ className = "" }) => {
+  const { settings, setSettings } = useAudio();
+
+  return (
+    <div className={`flex items-center space-x-2 font-bold ${className}`}>
+      <button
+        onClick={() => setSettings({ ...settings, muted: !settings.muted })}
+        aria-pressed={settings.muted}
+        className="px-3 py-1 bg-white text-black rounded"
+      >
+        {settings.muted ? "Unmute" : "Mute"}
+      </button>
+      <label className="flex items-center">
+        Volume
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={settings.volume}
+          onChange={(e) => setSettings({ ...settings, volume: Number(e.target.value) })}
+          disabled={settings.muted}
+          className="ml-2"
+        />
+      </label>
+    </div>
+  );
+};
+
+export default AudioControls;
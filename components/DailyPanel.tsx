@@ -0,0 +1,121 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  addMonths,
+  formatShareText,
+  getCalendarMonth,
+  getStreak,
+  DailyResults,
+} from "../lib/daily";
+import { GameId } from "../lib/storage";
+
+/**
+ * Props for DailyPanel.
+ * - game: Game whose challenge is shown.
+ * - today: Date of today's challenge ("YYYY-MM-DD").
+ * - results: The game's scored daily attempts, keyed by date.
+ */
+type DailyPanelProps = {
+  game: GameId;
+  today: string;
+  results: DailyResults;
+};
+
+// Weekday headings of the calendar, Monday first
+const WEEKDAYS = ["M", "T", "W", "T", "F", "S", "S"];
+
+// ------------------------------
+// DailyPanel Component
+// ------------------------------
+/**
+ * Today's challenge status, the streak, a share button and a calendar of
+ * past results.
+ */
+const DailyPanel: React.FC<DailyPanelProps> = ({ game, today, results }) => {
+  // Month shown in the calendar ("YYYY-MM")
+  const [month, setMonth] = useState<string>(today.slice(0, 7));
+  // Feedback after the share button is pressed
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+
+  const result = results[today] ?? null;
+  const streak = getStreak(results, today);
+  const days = getCalendarMonth(month, results);
+
+  /**
+   * Copies today's summary to the clipboard, or shows it when the
+   * clipboard is not available.
+   */
+  const handleShare = async () => {
+    if (!result) return;
+    const text = formatShareText(game, today, result, streak);
+    try {
+      await navigator.clipboard.writeText(text);
+      setShareStatus("Copied to the clipboard!");
+    } catch {
+      setShareStatus(text);
+    }
+  };
+
+  return (
+    <div
+      style={{ backgroundColor: "#312626" }} // Explicit color setting
+      className="text-white rounded-lg p-4 mt-4 w-full max-w-sm text-center"
+    >
+      <h2 className="text-xl font-bold">Daily Challenge · {today}</h2>
+      <p className="text-sm">
+        {result
+          ? `Today's score: ${result.score}. Play again for practice; only the first attempt counts.`
+          : "Your first finished attempt today is the one that counts."}
+      </p>
+      <p className="font-bold mt-1">Streak: {streak} {streak === 1 ? "day" : "days"}</p>
+      {result && (
+        <button onClick={handleShare} className="px-3 py-1 bg-white text-black rounded font-bold mt-2">
+          Share Result
+        </button>
+      )}
+      {shareStatus && <p className="text-xs mt-1 break-words">{shareStatus}</p>}
+
+      {/* Calendar */}
+      <div className="flex items-center justify-between mt-4 font-bold">
+        <button onClick={() => setMonth((prev) => addMonths(prev, -1))} aria-label="Previous month">
+          ◀
+        </button>
+        <span>{month}</span>
+        <button
+          onClick={() => setMonth((prev) => addMonths(prev, 1))}
+          disabled={month >= today.slice(0, 7)}
+          className="disabled:opacity-40"
+          aria-label="Next month"
+        >
+          ▶
+        </button>
+      </div>
+      <div className="grid grid-cols-7 gap-1 mt-2 text-xs">
+        {WEEKDAYS.map((weekday, i) => (
+          <span key={i} className="font-bold opacity-70">
+            {weekday}
+          </span>
+        ))}
+        {days.map((day, i) =>
+          day ? (
+            <span
+              key={day.date}
+              title={day.result ? `Score ${day.result.score}` : undefined}
+              className={`rounded p-1 ${day.result ? "bg-orange-500 font-bold" : "bg-black bg-opacity-30"} ${
+                day.date === today ? "ring-2 ring-white" : ""
+              }`}
+            >
+              {day.day}
+              {day.result && <span className="block">{day.result.score}</span>}
+            </span>
+          ) : (
+            <span key={`pad-${i}`} />
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DailyPanel;
@@ -0,0 +1,293 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { randomSeed } from '../lib/random';
+import { FIXED_DT, MAX_FRAME_TIME, WORLD_HEIGHT, WORLD_WIDTH } from '../lib/flappyBird/simulation';
+import { drawLoading, drawOverlay, drawPopulation } from '../lib/flappyBird/render';
+import { useGameAssets } from '../lib/flappyBird/assets';
+import {
+  DifficultyId,
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_IDS,
+  DIFFICULTY_PRESETS,
+} from '../lib/flappyBird/difficulty';
+import {
+  createPopulation,
+  evolve,
+  parseGenome,
+  serializeGenome,
+  stepPopulation,
+  GenomeError,
+  Population,
+} from '../lib/flappyBird/training';
+import { downloadFile, readFileAsText } from '../lib/files';
+import GameShell from './GameShell';
+
+// Playback speeds; 0 means headless fast-forward (simulate as much as the
+// frame budget allows and skip the live view)
+const SPEED_OPTIONS = [1, 2, 5, 10, 0];
+// Time per animation frame spent simulating in headless mode, in milliseconds
+const HEADLESS_FRAME_BUDGET = 12;
+
+/**
+ * Stats shown under the canvas, copied from the population after each frame.
+ */
+type TrainingStats = {
+  generation: number;
+  alive: number;
+  score: number;
+  lastFitness: number | null;
+  bestFitness: number | null;
+  bestScore: number | null;
+};
+
+/**
+ * Advances a population by one fixed step, breeding the next generation
+ * when the current one has ended.
+ */
+const advancePopulation = (population: Population): Population => {
+  const next = stepPopulation(population);
+  return next.world.over ? evolve(next) : next;
+};
+
+/**
+ * Returns the stats of a population.
+ */
+const getStats = (population: Population): TrainingStats => ({
+  generation: population.generation,
+  alive: population.trainees.filter((trainee) => trainee.alive).length,
+  score: population.world.score,
+  lastFitness: population.history.length > 0 ? population.history[population.history.length - 1] : null,
+  bestFitness: population.best?.fitness ?? null,
+  bestScore: population.best?.score ?? null,
+});
+
+// ------------------------------
+// FlappyTrainer Component
+// ------------------------------
+/**
+ * FlappyTrainer evolves a population of neural-network birds, either live
+ * at a chosen speed or headless as fast as possible.
+ */
+const FlappyTrainer: React.FC = () => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { assets, progress } = useGameAssets();
+  // difficulty of the pipes the population trains on.
+  const [difficulty, setDifficulty] = useState<DifficultyId>(DEFAULT_DIFFICULTY);
+  // populationRef holds the training session; it changes every step, so it
+  // lives in a ref and only the stats are copied into React state.
+  const populationRef = useRef<Population>(createPopulation(randomSeed(), difficulty));
+  const [stats, setStats] = useState<TrainingStats>(() => getStats(populationRef.current));
+  const [running, setRunning] = useState(false);
+  const [speed, setSpeed] = useState<number>(1);
+  // genomeErrors lists the problems of a genome file that failed to import.
+  const [genomeErrors, setGenomeErrors] = useState<string[]>([]);
+  // Frame timing, as in the game loop
+  const accumulatorRef = useRef<number>(0);
+  const lastTimestampRef = useRef<number>(0);
+  const animationFrameId = useRef<number>(0);
+
+  /**
+   * draw shows the living birds over the shared pipes.
+   */
+  const draw = useCallback(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    if (!assets) {
+      drawLoading(ctx, progress);
+      return;
+    }
+    const population = populationRef.current;
+    drawPopulation(
+      ctx,
+      population.world,
+      population.trainees.filter((trainee) => trainee.alive).map((trainee) => trainee.bird),
+      assets
+    );
+    if (speed === 0 && running) {
+      drawOverlay(ctx, 'Fast-forwarding', `Generation ${population.generation}`);
+    } else if (!running) {
+      drawOverlay(ctx, 'Train AI', 'Press Start');
+    }
+  }, [speed, running, assets, progress]);
+
+  // ------------------------------
+  // Training Loop
+  // ------------------------------
+  /**
+   * trainFrame runs once per animation frame. At live speeds it simulates
+   * `speed` times the real frame time; headless it simulates until the
+   * frame budget is used up.
+   */
+  const trainFrame = useCallback((timestamp: number) => {
+    if (!lastTimestampRef.current) lastTimestampRef.current = timestamp;
+    const frameTime = Math.min((timestamp - lastTimestampRef.current) / 1000, MAX_FRAME_TIME);
+    lastTimestampRef.current = timestamp;
+
+    if (speed === 0) {
+      const start = performance.now();
+      while (performance.now() - start < HEADLESS_FRAME_BUDGET) {
+        // Check the clock every hundred steps; reading it is not free
+        for (let i = 0; i < 100; i++) populationRef.current = advancePopulation(populationRef.current);
+      }
+    } else {
+      accumulatorRef.current += frameTime * speed;
+      while (accumulatorRef.current >= FIXED_DT) {
+        populationRef.current = advancePopulation(populationRef.current);
+        accumulatorRef.current -= FIXED_DT;
+      }
+    }
+
+    setStats(getStats(populationRef.current));
+    draw();
+    animationFrameId.current = requestAnimationFrame(trainFrame);
+  }, [speed, draw]);
+
+  /**
+   * Runs the training loop while training is on; otherwise draws a still frame.
+   */
+  useEffect(() => {
+    if (running) {
+      lastTimestampRef.current = 0;
+      animationFrameId.current = requestAnimationFrame(trainFrame);
+    } else {
+      draw();
+    }
+    return () => cancelAnimationFrame(animationFrameId.current);
+  }, [running, trainFrame, draw]);
+
+  /**
+   * restart throws the population away and starts from random genomes (or
+   * from `ancestor`, a loaded genome) on the given difficulty.
+   */
+  const restart = (nextDifficulty: DifficultyId, ancestor?: number[]) => {
+    populationRef.current = createPopulation(randomSeed(), nextDifficulty, ancestor);
+    accumulatorRef.current = 0;
+    setDifficulty(nextDifficulty);
+    setStats(getStats(populationRef.current));
+    draw();
+  };
+
+  // ------------------------------
+  // Genome Import / Export
+  // ------------------------------
+  /**
+   * Saves the fittest genome found so far as a JSON file.
+   */
+  const handleSaveGenome = () => {
+    const text = serializeGenome(populationRef.current);
+    if (!text) return;
+    downloadFile(`flappy-genome-gen${populationRef.current.best?.generation}.json`, text);
+  };
+
+  /**
+   * Loads a genome file and continues training from it.
+   */
+  const handleLoadGenome = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const saved = parseGenome(await readFileAsText(file));
+      setGenomeErrors([]);
+      restart(difficulty, saved.weights);
+    } catch (error) {
+      setGenomeErrors(
+        error instanceof GenomeError
+          ? error.issues
+          : [error instanceof Error ? error.message : String(error)]
+      );
+    }
+  };
+
+  const buttonClass = 'px-4 py-2 bg-white text-black rounded disabled:opacity-40';
+
+  // Speed and difficulty (shown in the shell's settings panel)
+  const settings = (
+    <>
+      <label className="font-bold">
+        Speed{' '}
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className="text-black rounded px-1"
+        >
+          {SPEED_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {option === 0 ? 'Headless' : `${option}x`}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="font-bold">
+        Difficulty{' '}
+        <select
+          value={difficulty}
+          onChange={(e) => restart(e.target.value as DifficultyId)}
+          className="text-black rounded px-1"
+        >
+          {DIFFICULTY_IDS.map((id) => (
+            <option key={id} value={id}>
+              {DIFFICULTY_PRESETS[id].label}
+            </option>
+          ))}
+        </select>
+      </label>
+    </>
+  );
+
+  // ------------------------------
+  // JSX Render
+  // ------------------------------
+  return (
+    <GameShell gameId="flappyBird" mode="train" onRestart={() => restart(difficulty)} settings={settings}>
+    <div className="flex flex-col items-center justify-center p-6 bg-gradient-to-br from-blue-500 to-purple-600">
+      <canvas
+        ref={canvasRef}
+        width={WORLD_WIDTH}
+        height={WORLD_HEIGHT}
+        className="border-8 border-gray-800 rounded-lg bg-blue-200"
+      />
+      {/* Training stats */}
+      <div className="text-white font-bold mt-4 text-center">
+        <p>
+          Generation {stats.generation} · Alive {stats.alive} · Score {stats.score}
+        </p>
+        <p>
+          Last generation best fitness: {stats.lastFitness ?? '-'} · Best fitness: {stats.bestFitness ?? '-'}
+          {stats.bestScore !== null && ` (${stats.bestScore} pipes)`}
+        </p>
+      </div>
+      {/* Controls */}
+      <div className="flex items-center mt-2 space-x-2">
+        <button className={buttonClass} onClick={() => setRunning((prev) => !prev)} disabled={!assets}>
+          {running ? 'Pause' : 'Start'}
+        </button>
+      </div>
+      {/* Genome import / export */}
+      <div className="flex items-center mt-2 space-x-2">
+        <button className={buttonClass} onClick={handleSaveGenome} disabled={stats.bestFitness === null}>
+          Save Best Genome
+        </button>
+        <label className={`${buttonClass} cursor-pointer`}>
+          Load Genome
+          <input type="file" accept="application/json,.json" onChange={handleLoadGenome} className="hidden" />
+        </label>
+      </div>
+      {/* Genome import errors */}
+      {genomeErrors.length > 0 && (
+        <div className="bg-red-100 border-4 border-red-600 rounded-lg p-3 mt-2 text-red-800 text-sm">
+          <p className="font-bold">This genome could not be loaded:</p>
+          <ul className="list-disc list-inside">
+            {genomeErrors.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+    </GameShell>
+  );
+};
+
+export default FlappyTrainer;
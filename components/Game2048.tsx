@@ -1,188 +1,201 @@
 "use client";
 
-import React, { useEffect, useRef, useState, useCallback } from "react";
+import React, { useEffect, useMemo, useRef, useState, useCallback } from "react";
+import Link from "next/link";
+import {
+  configKey,
+  createGame,
+  getConfigRules,
+  getMaxTile,
+  parseConfig,
+  step,
+  Direction,
+  GameConfig,
+  GameState,
+  TileEvent,
+  isValidSize,
+  isValidTarget,
+  GRID_SIZE,
+  WIN_TILE,
+  MAX_GRID_SIZE,
+  MIN_GRID_SIZE,
+} from "../lib/game2048/engine";
+import {
+  canRedo,
+  canUndo,
+  createHistory,
+  pushHistory,
+  redo,
+  undo,
+  History,
+} from "../lib/game2048/history";
+import { CANVAS_SIZE, drawBoard, drawSnapshot, SNAPSHOT_HEIGHT, SNAPSHOT_WIDTH } from "../lib/game2048/render";
+import {
+  drawAnimationFrame,
+  prefersReducedMotion,
+  ANIMATION_DURATION,
+} from "../lib/game2048/animation";
+import { createReplay, serializeReplay, simulateReplay } from "../lib/game2048/replay";
+import { formatSpawn, getRuleSet, parseSpawn, RuleSetError, RuleSetId } from "../lib/game2048/rules";
+import {
+  buildBoardLink,
+  createSharedGame,
+  decodeBoard,
+  extractBoardCode,
+  getHashBoardCode,
+  isShareableBoard,
+  BoardCodeError,
+  SharedBoard,
+  BOARD_HASH_KEY,
+} from "../lib/game2048/share";
+import {
+  challengeKey,
+  createPuzzleGame,
+  getChallengeConfig,
+  getChallengeOutcome,
+  getMoveBudget,
+  getMoveLimit,
+  getNextPuzzle,
+  getPuzzle,
+  Challenge,
+  ChallengeId,
+  Puzzle,
+  BLITZ_DURATION,
+  MOVE_BUDGETS,
+  PUZZLES,
+} from "../lib/game2048/challenges";
+import { downloadFile, fileTimestamp } from "../lib/files";
+import { pickFrames, renderGif, renderPng } from "../lib/capture";
+import { formatDuration } from "../lib/format";
+import { isFormField, useDirectionInput } from "../lib/game2048/input";
+import { DEFAULT_DEPTH, MAX_DEPTH, MIN_DEPTH } from "../lib/game2048/solver";
+import { createSolverClient, SolverClient } from "../lib/game2048/solverClient";
+import {
+  getBestScores,
+  loadDailyResults,
+  loadGame2048,
+  recordBestScore,
+  recordDailyResult,
+  saveGame2048,
+  SavedGame2048,
+} from "../lib/storage";
+import { createRng, randomSeed, rngFromState } from "../lib/random";
+import { useAudio } from "../lib/audio";
+import { getDailyDate, getDailySeed, DailyResults } from "../lib/daily";
+import { recordStatsEvent } from "../lib/stats";
+import AudioControls from "./AudioControls";
+import SubmitScore from "./SubmitScore";
+import DailyPanel from "./DailyPanel";
+import GameShell from "./GameShell";
 
 // ------------------------------
 // Constants and Helper Functions
 // ------------------------------
 
-// Grid size (4x4 board for 2048)
-const GRID_SIZE = 4;
-// Size of each tile in pixels
-const TILE_SIZE = 100;
-// Canvas size (width and height)
-const CANVAS_SIZE = GRID_SIZE * TILE_SIZE;
-
-/**
- * Returns the background and text colors for a given tile value.
- * If the tile is empty (value 0), returns the color for empty cells.
- */
-const getTileColors = (value: number) => {
-  const colors: { [key: number]: { background: string; text: string } } = {
-    2: { background: "#eee4da", text: "#776e65" },
-    4: { background: "#ede0c8", text: "#776e65" },
-    8: { background: "#f2b179", text: "#ffffff" },
-    16: { background: "#f59563", text: "#ffffff" },
-    32: { background: "#f67c5f", text: "#ffffff" },
-    64: { background: "#f65e3b", text: "#ffffff" },
-    128: { background: "#edcf72", text: "#ffffff" },
-    256: { background: "#edcc61", text: "#ffffff" },
-    512: { background: "#edc850", text: "#ffffff" },
-    1024: { background: "#edc53f", text: "#ffffff" },
-    2048: { background: "#edc22e", text: "#ffffff" },
-  };
-  // Color for empty cells:
-  if (value === 0) {
-    return { background: "#cdc1b4", text: "#776e65" };
-  }
-  return colors[value] || { background: "#3c3a32", text: "#ffffff" };
-};
-
-/**
- * Creates and returns an initial board with all cells set to 0,
- * then adds two random tiles (2 or 4) to the board.
- */
-const getInitialBoard = (): number[][] => {
-  const board: number[][] = Array.from({ length: GRID_SIZE }, () =>
-    Array(GRID_SIZE).fill(0)
-  );
-  return addRandomTile(addRandomTile(board));
-};
-
-/**
- * Adds a random tile (2 or 4) in one of the empty cells on the board.
- * Returns a deep copy of the board after modification.
- */
-const addRandomTile = (board: number[][]): number[][] => {
-  const emptyCells: { x: number; y: number }[] = [];
-  board.forEach((row, i) =>
-    row.forEach((cell, j) => {
-      if (cell === 0) emptyCells.push({ x: i, y: j });
-    })
-  );
-  if (emptyCells.length === 0) return board;
-  const { x, y } =
-    emptyCells[Math.floor(Math.random() * emptyCells.length)];
-  board[x][y] = Math.random() < 0.9 ? 2 : 4;
-  // Return a deep copy to ensure state updates occur
-  return board.map((row) => [...row]);
-};
-
-/**
- * Checks whether two 2D arrays (boards) are equal.
- */
-const arraysEqual = (a: number[][], b: number[][]): boolean => {
-  for (let i = 0; i < a.length; i++) {
-    for (let j = 0; j < a[i].length; j++) {
-      if (a[i][j] !== b[i][j]) return false;
-    }
-  }
-  return true;
-};
-
-/**
- * Transposes a 2D array.
- */
-const transpose = (board: number[][]): number[][] =>
-  board[0].map((_, i) => board.map((row) => row[i]));
-
-/**
- * Moves and merges a single row to the left.
- * Returns the new row and the score obtained from merging tiles.
- */
-const moveRowLeft = (row: number[]): { newRow: number[]; score: number } => {
-  let newRow = row.filter((val) => val !== 0);
-  let score = 0;
-  for (let i = 0; i < newRow.length - 1; i++) {
-    if (newRow[i] === newRow[i + 1]) {
-      newRow[i] *= 2;
-      score += newRow[i];
-      newRow[i + 1] = 0;
-      i++;
-    }
-  }
-  newRow = newRow.filter((val) => val !== 0);
-  // Pad the row with zeros to maintain the grid size
-  while (newRow.length < GRID_SIZE) {
-    newRow.push(0);
-  }
-  return { newRow, score };
-};
-
-/**
- * Moves the entire board to the left.
- * Returns the new board and the total score obtained.
- */
-const moveLeft = (
-  board: number[][]
-): { newBoard: number[][]; totalScore: number } => {
-  const newBoard: number[][] = [];
-  let totalScore = 0;
-  for (let i = 0; i < board.length; i++) {
-    const { newRow, score } = moveRowLeft(board[i]);
-    newBoard.push(newRow);
-    totalScore += score;
-  }
-  return { newBoard, totalScore };
+// Board sizes offered in the settings row (winning tiles come from the rule set)
+const SIZE_OPTIONS = Array.from(
+  { length: MAX_GRID_SIZE - MIN_GRID_SIZE + 1 },
+  (_, i) => MIN_GRID_SIZE + i
+);
+// Undo allowances offered in the settings row (null means unlimited)
+const UNDO_OPTIONS: (number | null)[] = [null, 0, 1, 3, 5];
+// Moves that can be queued while an animation is playing
+const MAX_QUEUED_MOVES = 4;
+// How often the Blitz clock ticks, in milliseconds
+const CLOCK_INTERVAL = 100;
+// The Blitz clock turns red below this many milliseconds
+const CLOCK_WARNING = 10000;
+// Exported GIFs: most frames (long games are sampled), time per move, how
+// long the final board is held, and size relative to the snapshot
+const GIF_MAX_FRAMES = 200;
+const GIF_FRAME_DELAY = 150;
+const GIF_LAST_FRAME_DELAY = 2000;
+const GIF_SCALE = 0.75;
+// Autoplay speeds: delay between solver moves in milliseconds
+const AUTOPLAY_SPEEDS = [
+  { label: "Slow", delay: 600 },
+  { label: "Normal", delay: 250 },
+  { label: "Fast", delay: 60 },
+];
+// Arrow shown over the board for a hint
+const HINT_ARROWS: { [key in Direction]: string } = {
+  up: "↑",
+  down: "↓",
+  left: "←",
+  right: "→",
 };
 
 /**
- * Moves the board to the right.
+ * Starts a new game from a seed (or a puzzle's starting board) and wraps it
+ * in a fresh history.
  */
-const moveRight = (
-  board: number[][]
-): { newBoard: number[][]; totalScore: number } => {
-  const newBoard: number[][] = [];
-  let totalScore = 0;
-  for (let i = 0; i < board.length; i++) {
-    const reversedRow = [...board[i]].reverse();
-    const { newRow, score } = moveRowLeft(reversedRow);
-    newBoard.push(newRow.reverse());
-    totalScore += score;
-  }
-  return { newBoard, totalScore };
+const startGame = (
+  seed: string,
+  config: GameConfig,
+  maxUndos: number | null,
+  puzzle: Puzzle | null = null
+): History => {
+  const rng = createRng(seed);
+  const state = puzzle ? createPuzzleGame(puzzle) : createGame(rng.next, config);
+  return createHistory(state, rng.getState(), { maxUndos });
 };
 
 /**
- * Moves the board upward.
+ * Builds the active challenge from its mode and the chosen budget or puzzle.
  */
-const moveUp = (
-  board: number[][]
-): { newBoard: number[][]; totalScore: number } => {
-  const transposed = transpose(board);
-  const { newBoard: moved, totalScore } = moveLeft(transposed);
-  return { newBoard: transpose(moved), totalScore };
+const buildChallenge = (id: ChallengeId | undefined, budgetId: string, puzzleId: string): Challenge | null => {
+  if (id === "blitz") return { id, durationMs: BLITZ_DURATION };
+  if (id === "moves") return { id, budget: getMoveBudget(budgetId) };
+  if (id === "puzzle") return { id, puzzle: getPuzzle(puzzleId) };
+  return null;
 };
 
 /**
- * Moves the board downward.
+ * Checks whether a saved game fits the settings requested through props, so
+ * opening a link with different rules, size, target or seed starts that
+ * game instead of resuming the saved one. Daily attempts (`daily` is the
+ * date) only resume as daily attempts.
  */
-const moveDown = (
-  board: number[][]
-): { newBoard: number[][]; totalScore: number } => {
-  const transposed = transpose(board);
-  const { newBoard: moved, totalScore } = moveRight(transposed);
-  return { newBoard: transpose(moved), totalScore };
-};
+const fitsRequest = (
+  saved: SavedGame2048,
+  rules: RuleSetId,
+  size: number | undefined,
+  target: number | undefined,
+  seed: string | undefined,
+  daily: string | null
+): boolean =>
+  (daily ? !saved.daily || saved.daily === daily : !saved.daily) &&
+  (saved.config.rules ?? "classic") === rules &&
+  (!isValidSize(size ?? NaN) || saved.config.size === size) &&
+  (!isValidTarget(target ?? NaN, getConfigRules(saved.config)) || saved.config.target === target) &&
+  (!seed || saved.seed === seed);
 
 /**
- * Checks if the game is over by verifying that no moves are possible.
+ * Props for CanvasGame.
+ * - rules: Rule set to play (defaults to classic).
+ * - size: Initial board size (3 to 8, defaults to 4).
+ * - target: Initial winning tile (a tile of the rule set, defaults to its
+ *   default target, 2048 for classic).
+ * - seed: Fixed RNG seed; every new game reuses it. When omitted, each new
+ *   game gets a random seed.
+ * - animationDuration: Length of the move animation in milliseconds (0 disables it).
+ * - daily: Play today's daily challenge: the date's seed on a classic 4x4
+ *   board to 2048, without undos or the solver. The first finished game of
+ *   the day is scored.
+ * - challenge: Play a challenge mode (Blitz, Move budget or Puzzle) with
+ *   its own end conditions and best scores, without undos or the solver.
+ * - budget / puzzle: Initial move budget preset or puzzle id.
  */
-const isGameOver = (board: number[][]): boolean => {
-  // If there is any empty cell, the game is not over
-  for (let i = 0; i < GRID_SIZE; i++) {
-    for (let j = 0; j < GRID_SIZE; j++) {
-      if (board[i][j] === 0) return false;
-    }
-  }
-  // Check for adjacent tiles that can be merged
-  for (let i = 0; i < GRID_SIZE; i++) {
-    for (let j = 0; j < GRID_SIZE; j++) {
-      if (j < GRID_SIZE - 1 && board[i][j] === board[i][j + 1]) return false;
-      if (i < GRID_SIZE - 1 && board[i][j] === board[i + 1][j]) return false;
-    }
-  }
-  return true;
+type CanvasGameProps = {
+  rules?: RuleSetId;
+  size?: number;
+  target?: number;
+  seed?: string;
+  animationDuration?: number;
+  daily?: boolean;
+  challenge?: ChallengeId;
+  budget?: string;
+  puzzle?: string;
 };
 
 // ------------------------------
@@ -193,126 +206,479 @@ const isGameOver = (board: number[][]): boolean => {
  * Main component that renders the 2048 game using an HTML canvas.
  * It includes the game board, scoreboard, control buttons, and overlays.
  */
-const CanvasGame: React.FC = () => {
+const CanvasGame: React.FC<CanvasGameProps> = ({
+  rules: requestedRules = "classic",
+  size: requestedSize,
+  target: requestedTarget,
+  seed: requestedSeed,
+  animationDuration = ANIMATION_DURATION,
+  daily = false,
+  challenge: challengeId,
+  budget: requestedBudget,
+  puzzle: requestedPuzzle,
+}) => {
+  // Date of the daily challenge, fixed for as long as the page is open
+  const [today] = useState<string>(() => getDailyDate());
+  // The daily challenge overrides the settings asked for in the URL
+  const ruleSetId = daily ? "classic" : requestedRules;
+  const size = daily ? GRID_SIZE : requestedSize;
+  const target = daily ? WIN_TILE : requestedTarget;
+  const fixedSeed = daily ? getDailySeed("2048", today) : requestedSeed;
+  // Chosen move budget preset and puzzle (used by those challenge modes)
+  const [budgetId, setBudgetId] = useState<string>(() => getMoveBudget(requestedBudget).id);
+  const [puzzleId, setPuzzleId] = useState<string>(() => getPuzzle(requestedPuzzle).id);
+  const challenge = useMemo(() => buildChallenge(challengeId, budgetId, puzzleId), [challengeId, budgetId, puzzleId]);
+  const puzzle = challenge?.id === "puzzle" ? challenge.puzzle : null;
+
   // Reference to the canvas element
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Board and tile events of the latest move, picked up by the draw effect to animate it
+  const pendingAnimationRef = useRef<{ board: number[][]; events: TileEvent[] } | null>(null);
+  // True while a move animation is playing
+  const animatingRef = useRef<boolean>(false);
+  // Moves pressed during an animation, played in order once it finishes
+  const moveQueueRef = useRef<Direction[]>([]);
+  // Latest handleMove, so queued moves run against the current state
+  const handleMoveRef = useRef<(direction: Direction) => void>(() => {});
+  // Expectimax solver running in a Web Worker
+  const solverRef = useRef<SolverClient | null>(null);
+
+  // Unfinished game saved in localStorage, resumed on the first render (challenges always start fresh)
+  const [resumed] = useState<SavedGame2048 | null>(() => {
+    const saved = challenge ? null : loadGame2048();
+    return saved && fitsRequest(saved, ruleSetId, size, target, fixedSeed, daily ? today : null) ? saved : null;
+  });
 
   // Game state variables
-  const [gameStarted, setGameStarted] = useState<boolean>(false);
-  const [board, setBoard] = useState<number[][]>(getInitialBoard());
-  const [score, setScore] = useState<number>(0);
-  const [bestScore, setBestScore] = useState<number>(0);
-  const [gameOver, setGameOver] = useState<boolean>(false);
+  const [config, setConfig] = useState<GameConfig>(() => {
+    if (resumed) return resumed.config;
+    const requested = parseConfig({ size, target, rules: ruleSetId });
+    return challenge ? getChallengeConfig(challenge, requested) : requested;
+  });
+  // Rule set of the current game (memoized: the draw effect depends on it)
+  const rules = useMemo(() => getConfigRules(config), [config]);
+  // The solver assumes classic merging on a board without blocked cells (it knows the spawn weights)
+  const solverAvailable = !daily && !challenge && rules.doubling && rules.blockedCells(config.size) === 0;
+  const [gameStarted, setGameStarted] = useState<boolean>(resumed !== null);
+  // Undos allowed per game (null means unlimited)
+  const [maxUndos, setMaxUndos] = useState<number | null>(
+    resumed?.maxUndos ?? (daily || challenge ? 0 : null)
+  );
+  // Seed of the current game (shown in the UI so a game can be reproduced)
+  const [seed, setSeed] = useState<string>(() => resumed?.seed ?? (puzzle?.seed || fixedSeed || randomSeed()));
+  const [history, setHistory] = useState<History>(
+    () => resumed?.history ?? startGame(seed, config, maxUndos, puzzle)
+  );
+  // Every move made this game, for replays. Only the first `game.moves`
+  // entries are live; the rest are undone moves kept for redo.
+  const [directions, setDirections] = useState<Direction[]>(resumed?.directions ?? []);
+  const [startedAt, setStartedAt] = useState<Date>(
+    () => (resumed ? new Date(resumed.startedAt) : new Date())
+  );
+  // Best scores keyed by configKey (or challengeKey), so each size/target/rules
+  // combination and each challenge has its own
+  const [bestScores, setBestScores] = useState<{ [key: string]: number }>(() => getBestScores("2048"));
+  // When the target tile first appeared this game (kept through undo so the win overlay shows only once)
+  const [winRecord, setWinRecord] = useState<{ moves: number; timeMs: number } | null>(
+    resumed?.winRecord ?? null
+  );
+  // True once the player chose "Keep Going" on the win overlay
+  const [keepPlaying, setKeepPlaying] = useState<boolean>(resumed?.keepPlaying ?? false);
+  // True once undo, a hint or autoplay helped this game; such games are not ranked
+  const [assisted, setAssisted] = useState<boolean>(resumed?.assisted ?? false);
+  // Skip move animations (defaults to the browser's prefers-reduced-motion setting)
+  const [reducedMotion, setReducedMotion] = useState<boolean>(() => prefersReducedMotion());
+  // While paused, moves, undo/redo and autoplay are ignored
+  const [paused, setPaused] = useState<boolean>(false);
+  // Scored daily challenge attempts, keyed by date
+  const [dailyResults, setDailyResults] = useState<DailyResults>(() => loadDailyResults("2048"));
+  // Custom spawn distribution being typed, and the problems found when applying it
+  const [spawnText, setSpawnText] = useState<string>(() => (config.spawn ? formatSpawn(config.spawn) : ""));
+  const [spawnErrors, setSpawnErrors] = useState<string[]>([]);
+  // Time left in a Blitz game
+  const [timeLeft, setTimeLeft] = useState<number>(BLITZ_DURATION);
+  // Start time of the last challenge game recorded in the stats, so it is recorded once
+  const recordedChallengeRef = useRef<Date | null>(null);
+  // Board code of the shared position this game started from (null for seeded games)
+  const [sharedCode, setSharedCode] = useState<string | null>(null);
+  // Board code or link being pasted, problems found when loading one, and copy feedback
+  const [boardCodeText, setBoardCodeText] = useState<string>("");
+  const [boardErrors, setBoardErrors] = useState<string[]>([]);
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+  // Progress or result of a screenshot or GIF export, and whether a GIF is being rendered
+  const [exportStatus, setExportStatus] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<boolean>(false);
+  // Latest loadSharedBoard, for the hash listener
+  const loadSharedBoardRef = useRef<(code: string) => void>(() => {});
+
+  const game: GameState = history.present.state;
+  const { board, score, over: gameOver } = game;
+  const scoreKey = challenge ? challengeKey(challenge, config) : configKey(config);
+  const bestScore = bestScores[scoreKey] ?? 0;
+  // Challenges end on their own terms and replace the win overlay with theirs
+  const outcome = challenge ? getChallengeOutcome(challenge, game, timeLeft) : null;
+  const moveLimit = challenge ? getMoveLimit(challenge) : null;
+  const showWin = winRecord !== null && !keepPlaying && !challenge;
+  // Shared board codes hold classic positions without a seed
+  const sharingAvailable = !daily && !challenge && ruleSetId === "classic";
+  // Codes hold no spawn weights, so a game with custom ones would load as a different game
+  const copyAvailable = sharingAvailable && !config.spawn && isShareableBoard(board);
+  // Replays rebuild a game from its seed, so puzzles and shared positions have none
+  const replayAvailable = !puzzle && !sharedCode;
+  // Custom spawns and puzzles hand out big tiles cheaply, so they unlock no achievements
+  const achievementsAvailable = !config.spawn && !puzzle;
+
+  // Solver suggestion and the board it was computed for (stale hints are not shown)
+  const [hint, setHint] = useState<{ board: number[][]; direction: Direction | null } | null>(null);
+  const [autoplay, setAutoplay] = useState<boolean>(false);
+  const [autoplayDelay, setAutoplayDelay] = useState<number>(AUTOPLAY_SPEEDS[1].delay);
+  const [solverDepth, setSolverDepth] = useState<number>(DEFAULT_DEPTH);
+  const hintDirection = hint && hint.board === board ? hint.direction : null;
+  // Shared sound effects (unlocked on the first input)
+  const { audio } = useAudio();
 
   /**
-   * Draws the board on the canvas.
-   * Loops over each cell to draw the tile background, border, and number.
+   * Draws the board on the canvas whenever it changes.
+   * If the change came from a move, the move is animated frame by frame with
+   * requestAnimationFrame first; moves queued meanwhile are played afterwards.
    */
-  const drawBoard = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext("2d");
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
     if (!ctx) return;
 
-    // Clear the entire canvas
-    ctx.clearRect(0, 0, CANVAS_SIZE, CANVAS_SIZE);
-
-    // Loop through the grid and draw each tile
-    for (let i = 0; i < GRID_SIZE; i++) {
-      for (let j = 0; j < GRID_SIZE; j++) {
-        const value = board[i][j];
-        const { background, text } = getTileColors(value);
-        const x = j * TILE_SIZE;
-        const y = i * TILE_SIZE;
-
-        // Draw tile background with padding
-        ctx.fillStyle = background;
-        ctx.fillRect(x + 5, y + 5, TILE_SIZE - 10, TILE_SIZE - 10);
-
-        // Draw a thick border around the tile
-        ctx.lineWidth = 4;
-        ctx.strokeStyle = "#444444";
-        ctx.strokeRect(x + 5, y + 5, TILE_SIZE - 10, TILE_SIZE - 10);
-
-        // If the tile is non-zero, draw its number in the center
-        if (value !== 0) {
-          ctx.fillStyle = text;
-          ctx.font = "bold 32px Arial";
-          ctx.textAlign = "center";
-          ctx.textBaseline = "middle";
-          ctx.fillText(String(value), x + TILE_SIZE / 2, y + TILE_SIZE / 2);
-        }
-      }
+    const pending = pendingAnimationRef.current;
+    const duration = reducedMotion ? 0 : animationDuration;
+    if (!pending || pending.board !== board || duration <= 0) {
+      drawBoard(ctx, board, CANVAS_SIZE, rules);
+      animatingRef.current = false;
+      return;
     }
-  }, [board]);
 
-  // Redraw the board every time it changes
-  useEffect(() => {
-    drawBoard();
-  }, [board, drawBoard]);
+    animatingRef.current = true;
+    let frameId = 0;
+    const start = performance.now();
+    const frame = (now: number) => {
+      const progress = Math.min((now - start) / duration, 1);
+      drawAnimationFrame(ctx, board, pending.events, progress, CANVAS_SIZE, rules);
+      if (progress < 1) {
+        frameId = requestAnimationFrame(frame);
+        return;
+      }
+      animatingRef.current = false;
+      const next = moveQueueRef.current.shift();
+      if (next) handleMoveRef.current(next);
+    };
+    frameId = requestAnimationFrame(frame);
+    return () => {
+      cancelAnimationFrame(frameId);
+      animatingRef.current = false;
+    };
+  }, [board, rules, reducedMotion, animationDuration]);
+
+  /**
+   * Plays the sounds of a move: a merge chime pitched by the biggest merged
+   * tile (or a slide), the new tile once the slide animation ends, and the
+   * losing jingle when no moves are left.
+   */
+  const playMoveSounds = useCallback(
+    (events: TileEvent[], state: GameState) => {
+      const merged = events.filter((event) => event.type === "merged").map((event) => event.value);
+      if (merged.length > 0) audio.play("merge", { value: Math.max(...merged) });
+      else audio.play("slide");
+      if (events.some((event) => event.type === "spawned")) {
+        audio.play("spawn", { delay: reducedMotion ? 0 : animationDuration / 1000 });
+      }
+      if (state.over) audio.play("lose");
+    },
+    [audio, reducedMotion, animationDuration]
+  );
 
   /**
    * Handles moves based on a direction input ("up", "down", "left", "right").
-   * Updates the board, score, and checks for game over.
+   * Runs one engine step and stores the new state if the board changed.
+   * While a move is still animating, the direction is queued instead.
    */
-  const handleMove = (direction: string) => {
-    if (gameOver) return;
-
-    let moveResult:
-      | { newBoard: number[][]; totalScore: number }
-      | undefined = undefined;
-
-    switch (direction) {
-      case "up":
-        moveResult = moveUp(board);
-        break;
-      case "down":
-        moveResult = moveDown(board);
-        break;
-      case "left":
-        moveResult = moveLeft(board);
-        break;
-      case "right":
-        moveResult = moveRight(board);
-        break;
-      default:
+  const handleMove = useCallback(
+    (direction: Direction) => {
+      // Wait for the player to pick an option on the win overlay; finished challenges take no moves
+      if (showWin || outcome) return;
+      if (animatingRef.current) {
+        if (moveQueueRef.current.length < MAX_QUEUED_MOVES) moveQueueRef.current.push(direction);
         return;
-    }
-
-    if (moveResult) {
-      const { newBoard, totalScore } = moveResult;
-      // Only update if the board has changed
-      if (!arraysEqual(board, newBoard)) {
-        const boardWithNewTile = addRandomTile(newBoard);
-        const newScore = score + totalScore;
-        setScore(newScore);
-        if (newScore > bestScore) setBestScore(newScore);
-        setBoard(boardWithNewTile);
-        if (isGameOver(boardWithNewTile)) {
-          setGameOver(true);
-        }
       }
-    }
+      // Continue the seeded RNG from the state saved with the current snapshot
+      const rng = rngFromState(history.present.rngState);
+      const { state, events, moved } = step(game, direction, rng.next, rules);
+      if (!moved) return;
+      pendingAnimationRef.current = { board: state.board, events };
+      const liveDirections = [...directions.slice(0, game.moves), direction];
+      setHistory(pushHistory(history, state, events, rng.getState()));
+      setDirections(liveDirections);
+      playMoveSounds(events, state);
+      if (state.won && !winRecord) {
+        setWinRecord({ moves: state.moves, timeMs: Date.now() - startedAt.getTime() });
+        audio.play("win");
+      }
+      // A shared position's score was not earned in this game, so it counts toward no stats or bests
+      if (sharedCode) return;
+      if (achievementsAvailable) {
+        recordStatsEvent({
+          type: "move",
+          game: "2048",
+          rules: rules.id,
+          board: state.board,
+          score: state.score,
+          directions: liveDirections,
+        });
+      }
+      if (state.over && !challenge) {
+        recordStatsEvent({
+          type: "gameOver",
+          achievements: achievementsAvailable,
+          record: {
+            game: "2048",
+            mode: configKey(config),
+            score: state.score,
+            // Highest tiles only compare between rule sets that double
+            maxTile: rules.doubling ? getMaxTile(state.board) : undefined,
+            moves: state.moves,
+            durationMs: Date.now() - startedAt.getTime(),
+            // Losing again after an undo is the same game, so it is not counted twice
+            startedAt: startedAt.toISOString(),
+            endedAt: new Date().toISOString(),
+          },
+        });
+      }
+      if (state.score > bestScore) {
+        setBestScores((prev) => ({ ...prev, [scoreKey]: state.score }));
+        recordBestScore("2048", scoreKey, state.score);
+      }
+    },
+    [
+      game,
+      history,
+      directions,
+      bestScore,
+      scoreKey,
+      config,
+      rules,
+      challenge,
+      sharedCode,
+      achievementsAvailable,
+      outcome,
+      showWin,
+      winRecord,
+      startedAt,
+      audio,
+      playMoveSounds,
+    ]
+  );
+
+  // Count the Blitz clock down from the first move (or Play) until the game ends
+  const clockRunning =
+    challenge?.id === "blitz" && (gameStarted || game.moves > 0) && !paused && outcome === null;
+  // A paused Blitz game hides its board, so a pause cannot be used to plan moves off the clock
+  const boardHidden = challenge?.id === "blitz" && paused;
+  useEffect(() => {
+    if (!clockRunning) return;
+    let last = performance.now();
+    const timer = setInterval(() => {
+      const now = performance.now();
+      setTimeLeft((prev) => Math.max(0, prev - (now - last)));
+      last = now;
+    }, CLOCK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [clockRunning]);
+
+  // A challenge game is recorded in the stats once, when its outcome is decided
+  useEffect(() => {
+    if (!challenge || !outcome || recordedChallengeRef.current === startedAt) return;
+    recordedChallengeRef.current = startedAt;
+    recordStatsEvent({
+      type: "gameOver",
+      achievements: achievementsAvailable,
+      record: {
+        game: "2048",
+        mode: scoreKey,
+        score: game.score,
+        maxTile: getMaxTile(game.board),
+        moves: game.moves,
+        durationMs: Date.now() - startedAt.getTime(),
+        startedAt: startedAt.toISOString(),
+        endedAt: new Date().toISOString(),
+      },
+    });
+    // A stuck board already played the losing jingle with its last move
+    if (outcome.status !== "won" && !game.over) audio.play("lose");
+  }, [challenge, outcome, startedAt, scoreKey, game, achievementsAvailable, audio]);
+
+  // An unfinished daily attempt left in the save is scored before this game replaces it,
+  // so leaving daily mode cannot start the day's challenge over
+  useEffect(() => {
+    if (challenge || resumed) return;
+    const saved = loadGame2048();
+    if (!saved?.daily || saved.history.present.state.moves === 0) return;
+    const { state } = saved.history.present;
+    const result = {
+      score: state.score,
+      maxTile: getMaxTile(state.board),
+      moves: state.moves,
+      playedAt: new Date().toISOString(),
+    };
+    if (recordDailyResult("2048", saved.daily, result)) setDailyResults(loadDailyResults("2048"));
+  }, [challenge, resumed]);
+
+  // Save the unfinished game after every change so a reload resumes it; finished games are cleared.
+  // Challenges are not saved, so a reload cannot stop the Blitz clock; shared positions reload from the URL
+  useEffect(() => {
+    if (challenge || sharedCode) return;
+    saveGame2048(
+      game.over
+        ? null
+        : {
+            seed,
+            config,
+            maxUndos,
+            history,
+            directions,
+            startedAt: startedAt.toISOString(),
+            winRecord,
+            keepPlaying,
+            assisted,
+            ...(daily ? { daily: today } : {}),
+          }
+    );
+  }, [
+    challenge,
+    sharedCode,
+    game.over,
+    seed,
+    config,
+    maxUndos,
+    history,
+    directions,
+    startedAt,
+    winRecord,
+    keepPlaying,
+    assisted,
+    daily,
+    today,
+  ]);
+
+  /**
+   * Scores a daily challenge attempt, unless today already has a result.
+   */
+  const recordDaily = useCallback(
+    (state: GameState) => {
+      const result = {
+        score: state.score,
+        maxTile: getMaxTile(state.board),
+        moves: state.moves,
+        playedAt: new Date().toISOString(),
+      };
+      if (recordDailyResult("2048", today, result)) setDailyResults(loadDailyResults("2048"));
+    },
+    [today]
+  );
+
+  // A daily challenge attempt ends (and is scored) when the game is over
+  useEffect(() => {
+    if (daily && game.over) recordDaily(game);
+  }, [daily, game, recordDaily]);
+
+  // Keep the ref used by queued moves pointing at the latest handleMove
+  useEffect(() => {
+    handleMoveRef.current = handleMove;
+  }, [handleMove]);
+
+  // Start the solver worker on mount and stop it on unmount
+  useEffect(() => {
+    const solver = createSolverClient();
+    solverRef.current = solver;
+    return () => {
+      solver.dispose();
+      solverRef.current = null;
+    };
+  }, []);
+
+  /**
+   * Asks the solver for the best move and highlights it on the board.
+   */
+  const requestHint = () => {
+    const requested = board;
+    setAssisted(true);
+    solverRef.current?.suggest(requested, solverDepth, rules.spawn).then((direction) => {
+      setHint({ board: requested, direction });
+    });
   };
 
   /**
-   * Handles keydown events for arrow keys.
-   * Maps the arrow key events to corresponding move directions.
+   * Autoplay: after each move (and a delay), ask the solver for the next move
+   * and play it. Stops when the game ends, the win overlay shows or no move is left.
+   */
+  useEffect(() => {
+    if (!autoplay || paused) return;
+    if (gameOver || showWin) {
+      setAutoplay(false);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      solverRef.current?.suggest(board, solverDepth, rules.spawn).then((direction) => {
+        if (cancelled) return;
+        if (!direction) {
+          setAutoplay(false);
+          return;
+        }
+        setAssisted(true);
+        handleMoveRef.current(direction);
+      });
+    }, autoplayDelay);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [autoplay, paused, board, gameOver, showWin, solverDepth, autoplayDelay, rules]);
+
+  /**
+   * Steps back one move, if the history and the undo allowance permit it.
+   */
+  const handleUndo = useCallback(() => {
+    if (!canUndo(history)) return;
+    moveQueueRef.current = [];
+    setAssisted(true);
+    setHistory(undo(history));
+  }, [history]);
+
+  /**
+   * Re-applies the last undone move.
+   */
+  const handleRedo = useCallback(() => {
+    moveQueueRef.current = [];
+    setHistory((prev) => redo(prev));
+  }, []);
+
+  // Arrow keys, WASD, HJKL, swipes on the canvas and gamepads all move the board
+  useDirectionInput(handleMove, { swipeTarget: canvasRef, enabled: !paused });
+
+  /**
+   * Handles keydown events for the undo/redo shortcuts.
+   * Ctrl+Z undoes, Ctrl+Y (or Ctrl+Shift+Z) redoes. Inside a text field
+   * the shortcuts are left to the field.
    */
   const handleKeyDown = useCallback(
     (e: KeyboardEvent) => {
-      const moves: { [key in "ArrowUp" | "ArrowDown" | "ArrowLeft" | "ArrowRight"]: string } = {
-        ArrowUp: "up",
-        ArrowDown: "down",
-        ArrowLeft: "left",
-        ArrowRight: "right",
-      };
-      if (moves[e.key as keyof typeof moves]) {
+      if ((!e.ctrlKey && !e.metaKey) || paused || isFormField(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
         e.preventDefault();
-        handleMove(moves[e.key as keyof typeof moves]);
+        handleUndo();
+      } else if (key === "y" || (key === "z" && e.shiftKey)) {
+        e.preventDefault();
+        handleRedo();
       }
     },
-    [board, score, gameOver, handleMove] // React requires all used variables/functions inside useCallback to be listed in the dependency array.
+    [handleUndo, handleRedo, paused]
   );
 
   // Add the keydown event listener when the component mounts
@@ -325,16 +691,399 @@ const CanvasGame: React.FC = () => {
    * Resets the game by reinitializing the board, resetting the score, and clearing the game over state.
    */
   const newGame = () => {
-    setBoard(getInitialBoard());
-    setScore(0);
-    setGameOver(false);
+    restart(config, maxUndos);
   };
 
-  
+  /**
+   * Starts a new game with the given settings, reusing the fixed seed if
+   * one was passed in (or the puzzle's seed) and picking a random seed
+   * otherwise.
+   */
+  const restart = (
+    nextConfig: GameConfig,
+    nextMaxUndos: number | null,
+    nextChallenge: Challenge | null = challenge
+  ) => {
+    // Restarting a daily challenge attempt ends it with its current score
+    if (daily && game.moves > 0 && !game.over) recordDaily(game);
+    const nextPuzzle = nextChallenge?.id === "puzzle" ? nextChallenge.puzzle : null;
+    const nextSeed = nextPuzzle?.seed || fixedSeed || randomSeed();
+    moveQueueRef.current = [];
+    setSeed(nextSeed);
+    setHistory(startGame(nextSeed, nextConfig, nextMaxUndos, nextPuzzle));
+    setTimeLeft(BLITZ_DURATION);
+    setDirections([]);
+    setStartedAt(new Date());
+    setWinRecord(null);
+    setKeepPlaying(false);
+    setAssisted(false);
+    setPaused(false);
+    // A new game no longer starts from the shared position in the URL
+    if (sharedCode) {
+      setSharedCode(null);
+      window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    }
+  };
+
+  /**
+   * Starts a game from a shared board code, played with the classic rules.
+   * Shows the problems found if the code is not valid.
+   */
+  const loadSharedBoard = (code: string) => {
+    let shared: SharedBoard;
+    try {
+      shared = decodeBoard(code);
+    } catch (error) {
+      if (!(error instanceof BoardCodeError)) throw error;
+      setBoardErrors(error.issues);
+      return;
+    }
+    const nextConfig: GameConfig = { size: shared.board.length, target: config.target, rules: "classic" };
+    const state = createSharedGame(shared, nextConfig.target);
+    moveQueueRef.current = [];
+    setConfig(nextConfig);
+    setSharedCode(code);
+    setHistory(createHistory(state, shared.rngState, { maxUndos }));
+    setDirections([]);
+    setStartedAt(new Date());
+    setWinRecord(null);
+    // A position already past the target does not stop for the win overlay
+    setKeepPlaying(state.won);
+    setAssisted(false);
+    setPaused(false);
+    setGameStarted(true);
+    setBoardErrors([]);
+    // Keep the position in the URL so the page can be reloaded or shared as is
+    window.history.replaceState(null, "", `#${BOARD_HASH_KEY}=${code}`);
+  };
+
+  /**
+   * Loads the pasted board code or link, or the clipboard's contents when
+   * the field is empty.
+   */
+  const handleLoadBoard = async () => {
+    let text = boardCodeText;
+    if (text.trim() === "") {
+      try {
+        text = await navigator.clipboard.readText();
+      } catch {
+        setBoardErrors(["Paste a board code or link into the field first."]);
+        return;
+      }
+    }
+    loadSharedBoard(extractBoardCode(text));
+  };
+
+  /**
+   * Copies a link to the current position to the clipboard, or shows it
+   * when the clipboard is not available.
+   */
+  const copyBoardLink = async () => {
+    const link = buildBoardLink(window.location.origin, {
+      board,
+      score,
+      rngState: history.present.rngState,
+    });
+    try {
+      await navigator.clipboard.writeText(link);
+      setShareStatus("Board link copied to the clipboard!");
+    } catch {
+      setShareStatus(link);
+    }
+  };
+
+  // Keep the ref used by the hash listener pointing at the latest loadSharedBoard
+  useEffect(() => {
+    loadSharedBoardRef.current = loadSharedBoard;
+  });
+
+  // Open the position in the URL hash (#board=...) on load and whenever the hash changes
+  useEffect(() => {
+    if (!sharingAvailable) return;
+    const loadFromHash = () => {
+      const code = getHashBoardCode(window.location.hash);
+      if (code !== null) loadSharedBoardRef.current(code);
+    };
+    loadFromHash();
+    window.addEventListener("hashchange", loadFromHash);
+    return () => window.removeEventListener("hashchange", loadFromHash);
+  }, [sharingAvailable]);
+
+  /**
+   * Returns the current game (finished or not) as a replay.
+   */
+  const buildReplay = () =>
+    createReplay({
+      seed,
+      config,
+      directions: directions.slice(0, game.moves),
+      finalScore: game.score,
+      startedAt,
+      endedAt: new Date(),
+      assisted,
+    });
+
+  /**
+   * Downloads the current game as a replay file.
+   */
+  const saveReplay = () => {
+    downloadFile(`2048-replay-${fileTimestamp()}.json`, serializeReplay(buildReplay()));
+  };
+
+  // ------------------------------
+  // Screenshots and GIFs
+  // ------------------------------
+  /**
+   * Downloads a PNG of the current board with the score.
+   */
+  const saveScreenshot = async () => {
+    try {
+      const png = await renderPng(SNAPSHOT_WIDTH, SNAPSHOT_HEIGHT, (ctx) => drawSnapshot(ctx, game, rules));
+      downloadFile(`2048-${score}-${fileTimestamp()}.png`, png);
+      setExportStatus("Screenshot saved.");
+    } catch (error) {
+      setExportStatus(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  /**
+   * Downloads the game so far as an animated GIF, one frame per move. Games
+   * with a seed are replayed from the start; puzzles and shared positions
+   * use the moves still in the undo history.
+   */
+  const exportGif = async () => {
+    setExporting(true);
+    try {
+      const states = replayAvailable
+        ? simulateReplay(buildReplay())
+        : [...history.past, history.present].map((snapshot) => snapshot.state);
+      const gif = await renderGif({
+        frames: pickFrames(states, GIF_MAX_FRAMES),
+        width: SNAPSHOT_WIDTH,
+        height: SNAPSHOT_HEIGHT,
+        scale: GIF_SCALE,
+        draw: (ctx, state) => drawSnapshot(ctx, state, rules),
+        delayMs: GIF_FRAME_DELAY,
+        lastDelayMs: GIF_LAST_FRAME_DELAY,
+        onProgress: (progress) => setExportStatus(`Rendering GIF... ${Math.round(progress * 100)}%`),
+      });
+      downloadFile(`2048-${score}-${fileTimestamp()}.gif`, gif);
+      setExportStatus("GIF saved.");
+    } catch (error) {
+      setExportStatus(error instanceof Error ? error.message : String(error));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  /**
+   * Switches to a different board size, winning tile or spawn distribution
+   * and starts a new game.
+   */
+  const changeConfig = (changes: Partial<GameConfig>) => {
+    const next = { ...config, ...changes };
+    setConfig(next);
+    restart(next, maxUndos);
+  };
+
+  /**
+   * Applies the typed spawn distribution to a new game. Clearing the field
+   * goes back to the rule set's own distribution.
+   */
+  const applySpawn = () => {
+    try {
+      const spawn = spawnText.trim() === "" ? undefined : parseSpawn(spawnText, getRuleSet(config.rules));
+      setSpawnErrors([]);
+      changeConfig({ spawn });
+    } catch (error) {
+      if (!(error instanceof RuleSetError)) throw error;
+      setSpawnErrors(error.issues);
+    }
+  };
+
+  /**
+   * Switches to another move budget preset or puzzle and starts it.
+   */
+  const changeChallenge = (changes: { budgetId?: string; puzzleId?: string }) => {
+    const nextBudgetId = changes.budgetId ?? budgetId;
+    const nextPuzzleId = changes.puzzleId ?? puzzleId;
+    const next = buildChallenge(challengeId, nextBudgetId, nextPuzzleId);
+    if (!next) return;
+    const nextConfig = getChallengeConfig(next, config);
+    setBudgetId(nextBudgetId);
+    setPuzzleId(nextPuzzleId);
+    setConfig(nextConfig);
+    restart(nextConfig, maxUndos, next);
+  };
+
+  /**
+   * Changes the undo allowance and starts a new game so the rule applies from the first move.
+   */
+  const changeMaxUndos = (value: number | null) => {
+    setMaxUndos(value);
+    restart(config, value);
+  };
+
+  // Challenge, board size, target, undo and sound settings (shown in the shell's settings panel)
+  const settings = (
+    <>
+      {/* Move budget preset or puzzle */}
+      {challenge?.id === "moves" && (
+        <label className="flex flex-col items-center text-white text-xs font-bold">
+          Budget
+          <select
+            value={budgetId}
+            onChange={(e) => changeChallenge({ budgetId: e.target.value })}
+            className="text-black rounded"
+          >
+            {MOVE_BUDGETS.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.target} in {option.moves} moves
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      {puzzle && (
+        <label className="flex flex-col items-center text-white text-xs font-bold">
+          Puzzle
+          <select
+            value={puzzleId}
+            onChange={(e) => changeChallenge({ puzzleId: e.target.value })}
+            className="text-black rounded"
+          >
+            {PUZZLES.map((option, i) => (
+              <option key={option.id} value={option.id}>
+                {i + 1}. {option.title}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      {/* Board size and target settings */}
+      <div className="flex space-x-2 text-white text-xs font-bold">
+        <label className="flex flex-col items-center">
+          Size
+          <select
+            value={config.size}
+            onChange={(e) => changeConfig({ size: Number(e.target.value) })}
+            disabled={daily || puzzle !== null}
+            className="text-black rounded"
+          >
+            {SIZE_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}x{option}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col items-center">
+          Target
+          <select
+            value={config.target}
+            onChange={(e) => changeConfig({ target: Number(e.target.value) })}
+            disabled={daily || challenge !== null}
+            className="text-black rounded"
+          >
+            {Array.from(new Set([...rules.targets, config.target]))
+              .sort((a, b) => a - b)
+              .map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+          </select>
+        </label>
+        <label className="flex flex-col items-center">
+          Undos
+          <select
+            value={maxUndos ?? ""}
+            onChange={(e) => changeMaxUndos(e.target.value === "" ? null : Number(e.target.value))}
+            disabled={daily || challenge !== null}
+            className="text-black rounded"
+          >
+            {UNDO_OPTIONS.map((option) => (
+              <option key={option ?? "unlimited"} value={option ?? ""}>
+                {option ?? "Unlimited"}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col items-center">
+          Spawn
+          <span className="flex">
+            <input
+              type="text"
+              value={spawnText}
+              onChange={(e) => setSpawnText(e.target.value)}
+              disabled={daily || challenge !== null}
+              placeholder={formatSpawn(getRuleSet(config.rules).spawn)}
+              title="Tiles that appear after each move, as value:weight pairs"
+              className="text-black rounded w-24 px-1"
+            />
+            <button onClick={applySpawn} disabled={daily || challenge !== null} className="px-2 ml-1 bg-white text-black rounded">
+              Apply
+            </button>
+          </span>
+        </label>
+        <label className="flex flex-col items-center">
+          Reduce motion
+          <input
+            type="checkbox"
+            checked={reducedMotion}
+            onChange={(e) => setReducedMotion(e.target.checked)}
+          />
+        </label>
+      </div>
+      {/* Load a shared position from a pasted board code or link */}
+      {sharingAvailable && (
+        <label className="flex flex-col items-center text-white text-xs font-bold">
+          Load board
+          <span className="flex">
+            <input
+              type="text"
+              value={boardCodeText}
+              onChange={(e) => setBoardCodeText(e.target.value)}
+              placeholder="Board code or link (empty: clipboard)"
+              className="text-black rounded w-56 px-1"
+            />
+            <button onClick={handleLoadBoard} className="px-2 ml-1 bg-white text-black rounded">
+              Load
+            </button>
+          </span>
+        </label>
+      )}
+      {/* Problems with the custom spawn distribution */}
+      {spawnErrors.length > 0 && (
+        <div className="bg-red-100 border-4 border-red-600 rounded-lg p-3 text-red-800 text-sm">
+          <p className="font-bold">The spawn distribution could not be applied:</p>
+          <ul className="list-disc list-inside">
+            {spawnErrors.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {/* Sound: mute and volume */}
+      <AudioControls className="text-sm" />
+    </>
+  );
+
   // ------------------------------
   // JSX Return (Render)
   // ------------------------------
   return (
+    <GameShell
+      gameId="2048"
+      mode={daily ? "daily" : (challenge?.id ?? rules.id)}
+      paused={paused}
+      onTogglePause={gameStarted && !gameOver && !outcome ? () => setPaused((prev) => !prev) : undefined}
+      onRestart={() => {
+        newGame();
+        setGameStarted(true);
+      }}
+      settings={settings}
+    >
     <div className="flex flex-col items-center justify-center border-4 p-6 border-black rounded-lg bg-gradient-to-br from-blue-500 to-purple-600">
       <div className="flex justify-center items-center space-x-8">
   {/* Left Column - Title & Subtitle */}
@@ -347,9 +1096,25 @@ const CanvasGame: React.FC = () => {
   className="font-bold text-6xl">2048</div>
   <div 
   style={{fontSize: "0.9rem"}}
-  className="text-xs">
-  Can you get to the <strong className="font-bold">2048 tile?</strong>  
+  className="text-xs max-w-[12rem]">
+  {challenge?.id === "blitz" ? (
+    <>Score as much as you can in <strong className="font-bold">{formatDuration(challenge.durationMs)}!</strong></>
+  ) : challenge?.id === "moves" ? (
+    <>Reach the <strong className="font-bold">{config.target} tile</strong> in {challenge.budget.moves} moves!</>
+  ) : puzzle ? (
+    <><strong className="font-bold">{puzzle.title}:</strong> {puzzle.description}</>
+  ) : (
+    <>Can you get to the <strong className="font-bold">{config.target} tile?</strong></>
+  )}
   </div>
+  <div className="text-xs">
+    Seed: <span className="font-mono font-bold">{sharedCode ? "shared board" : seed}</span>
+  </div>
+  {rules.id !== "classic" && (
+    <div className="text-xs max-w-[12rem]">
+      <strong className="font-bold">{rules.label} rules:</strong> {rules.description}
+    </div>
+  )}
   
   </div>
 
@@ -374,19 +1139,125 @@ const CanvasGame: React.FC = () => {
         <p className="text-xs uppercase font-bold">Best</p>
         <p className="text-2xl font-bold">{bestScore}</p>
       </div>
+      {/* Remaining undos display (only with the limited undos rule) */}
+      {history.undosLeft !== null && !challenge && (
+        <>
+          <div className="text-white">
+          &nbsp;|&nbsp;<br/>&nbsp;|&nbsp;<br/>
+          </div>
+          <div className="bg-[#bbada0] text-white text-center  px-6 py-6 rounded-md">
+            <p className="text-xs uppercase font-bold">Undos</p>
+            <p className="text-2xl font-bold">{history.undosLeft}</p>
+          </div>
+        </>
+      )}
+      {/* Remaining moves display (challenges with a move limit) */}
+      {moveLimit !== null && (
+        <>
+          <div className="text-white">
+          &nbsp;|&nbsp;<br/>&nbsp;|&nbsp;<br/>
+          </div>
+          <div className="bg-[#bbada0] text-white text-center  px-6 py-6 rounded-md">
+            <p className="text-xs uppercase font-bold">Moves</p>
+            <p className="text-2xl font-bold">{Math.max(0, moveLimit - game.moves)}</p>
+          </div>
+        </>
+      )}
     </div>
 
-    {/* New Game Button */}
-    <button
-      onClick={() => {
-      newGame();
-      setGameStarted(true);
-      }}
-      style={{ backgroundColor: "#312626" }} // Explicit color setting
-      className="text-white border-solid border-black border-4 rounded-lg px-4 shadow-md transition duration-200 font-bold text-lg hover:bg-orange-500 mx-2 my-2"
-    >
-      New Game
-    </button>
+    {/* Undo / Redo Buttons */}
+    <div className="flex">
+      <button
+        onClick={handleUndo}
+        disabled={paused || !canUndo(history)}
+        title="Undo (Ctrl+Z)"
+        style={{ backgroundColor: "#312626" }} // Explicit color setting
+        className="text-white border-solid border-black border-4 rounded-lg px-3 shadow-md transition duration-200 font-bold hover:bg-orange-500 disabled:opacity-40 mx-1"
+      >
+        Undo
+      </button>
+      <button
+        onClick={handleRedo}
+        disabled={paused || !canRedo(history)}
+        title="Redo (Ctrl+Y)"
+        style={{ backgroundColor: "#312626" }} // Explicit color setting
+        className="text-white border-solid border-black border-4 rounded-lg px-3 shadow-md transition duration-200 font-bold hover:bg-orange-500 disabled:opacity-40 mx-1"
+      >
+        Redo
+      </button>
+    </div>
+
+    {/* Solver: Hint and Autoplay */}
+    <div className="flex items-center">
+      <button
+        onClick={requestHint}
+        disabled={!solverAvailable || gameOver || autoplay || paused}
+        style={{ backgroundColor: "#312626" }} // Explicit color setting
+        className="text-white border-solid border-black border-4 rounded-lg px-3 shadow-md transition duration-200 font-bold hover:bg-orange-500 disabled:opacity-40 mx-1"
+      >
+        Hint
+      </button>
+      <button
+        onClick={() => {
+          setGameStarted(true);
+          setAutoplay((prev) => !prev);
+        }}
+        disabled={!solverAvailable || gameOver}
+        style={{ backgroundColor: autoplay ? "#f97316" : "#312626" }} // Highlighted while running
+        className="text-white border-solid border-black border-4 rounded-lg px-3 shadow-md transition duration-200 font-bold hover:bg-orange-500 disabled:opacity-40 mx-1"
+      >
+        {autoplay ? "Stop" : "Autoplay"}
+      </button>
+    </div>
+    <div className="flex space-x-2 text-white text-xs font-bold">
+      <label className="flex flex-col items-center">
+        Speed
+        <select
+          value={autoplayDelay}
+          onChange={(e) => setAutoplayDelay(Number(e.target.value))}
+          className="text-black rounded"
+        >
+          {AUTOPLAY_SPEEDS.map((option) => (
+            <option key={option.delay} value={option.delay}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col items-center">
+        AI depth
+        <select
+          value={solverDepth}
+          onChange={(e) => setSolverDepth(Number(e.target.value))}
+          className="text-black rounded"
+        >
+          {Array.from({ length: MAX_DEPTH - MIN_DEPTH + 1 }, (_, i) => MIN_DEPTH + i).map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+
+    {/* Replay Links */}
+    <div className="flex space-x-2 text-white text-xs font-bold underline">
+      {replayAvailable && <button onClick={saveReplay}>Save Replay</button>}
+      <Link href="/game2048/replay">Watch Replays</Link>
+      {copyAvailable && <button onClick={copyBoardLink}>Copy Board</button>}
+    </div>
+    {shareStatus && <p className="text-white text-xs max-w-xs break-all">{shareStatus}</p>}
+    {/* Screenshot and GIF export */}
+    <div className="flex space-x-2 text-white text-xs font-bold underline">
+      <button onClick={saveScreenshot} disabled={boardHidden} className="disabled:opacity-40">
+        Save Screenshot
+      </button>
+      <button onClick={exportGif} disabled={exporting || boardHidden} className="disabled:opacity-40">
+        Export GIF
+      </button>
+    </div>
+    {exportStatus && <p className="text-white text-xs">{exportStatus}</p>}
+
   </div>
 </div>
 
@@ -398,8 +1269,30 @@ const CanvasGame: React.FC = () => {
           ref={canvasRef}
           width={CANVAS_SIZE}
           height={CANVAS_SIZE}
-          className="border-8 border-gray-800 rounded-lg block"
+          className="border-8 border-gray-800 rounded-lg block touch-none"
         />
+        {/* Hint arrow: the solver's suggested direction for the current board */}
+        {hintDirection && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <span
+              style={{ fontSize: "10rem", textShadow: "4px 4px 2px rgba(0, 0, 0, 0.6)" }}
+              className="font-bold text-orange-500 opacity-80"
+            >
+              {HINT_ARROWS[hintDirection]}
+            </span>
+          </div>
+        )}
+        {/* Blitz clock: the time left, drawn over the top of the board */}
+        {challenge?.id === "blitz" && (
+          <div className="absolute top-3 inset-x-0 flex justify-center pointer-events-none">
+            <span
+              style={{ fontSize: "3rem", textShadow: "3px 3px 2px rgba(0, 0, 0, 0.6)" }}
+              className={`font-mono font-bold opacity-90 ${timeLeft <= CLOCK_WARNING ? "text-red-600" : "text-white"}`}
+            >
+              {formatDuration(Math.ceil(timeLeft / 1000) * 1000)}
+            </span>
+          </div>
+        )}
         {/* Start overlay: if the game hasn't started, show Play and New Game buttons side-by-side */}
         {!gameStarted && (
           <div className="absolute inset-0 flex flex-col items-center justify-center bg-opacity-70 rounded-lg">
@@ -415,8 +1308,8 @@ const CanvasGame: React.FC = () => {
             </div>
           </div>
         )}
-        {/* Game Over overlay: displays when the game is over */}
-        {gameOver && (
+        {/* Game Over overlay: displays when the game is over (challenges show their own) */}
+        {gameOver && !challenge && (
           <div className="absolute inset-0 flex flex-col items-center justify-center bg-black bg-opacity-60 rounded-lg">
             <h2
             style={{fontSize: "6rem",
@@ -431,10 +1324,135 @@ const CanvasGame: React.FC = () => {
             >
               Restart
             </button>
+            <button
+              onClick={saveScreenshot}
+              style={{ backgroundColor: "#312626" }} // Explicit color setting
+              className="text-white border-solid border-black border-4 rounded-lg px-4 shadow-md transition duration-200 font-bold text-lg hover:bg-orange-500 mx-2 my-2"
+            >
+              Save Screenshot
+            </button>
+            {replayAvailable && (
+              <>
+                <button
+                  onClick={saveReplay}
+                  style={{ backgroundColor: "#312626" }} // Explicit color setting
+                  className="text-white border-solid border-black border-4 rounded-lg px-4 shadow-md transition duration-200 font-bold text-lg hover:bg-orange-500 mx-2 my-2"
+                >
+                  Save Replay
+                </button>
+                {assisted ? (
+                  <p className="text-white text-sm mt-2">Games played with undo, hints or autoplay are not ranked.</p>
+                ) : (
+                  <SubmitScore
+                    key={startedAt.getTime()}
+                    buildSubmission={(nickname) => ({ game: "2048", nickname, replay: buildReplay() })}
+                    className="text-white mt-2"
+                  />
+                )}
+              </>
+            )}
+          </div>
+        )}
+        {/* Challenge overlay: won, lost or (Blitz) finished, with the score and best */}
+        {outcome && (
+          <div
+            className={`absolute inset-0 flex flex-col items-center justify-center bg-opacity-70 rounded-lg ${
+              outcome.status === "won" ? "bg-yellow-400" : "bg-black"
+            }`}
+          >
+            <h2
+            style={{fontSize: "4rem",
+              color: "#312626",
+              textShadow: "4px 4px 2px rgba(0, 0, 0, 0.6)", // Black shadow
+            }}
+            className="text-4xl font-bold text-white mb-2">
+              {outcome.status === "won" ? "You Win!" : outcome.status === "lost" ? "Out of Luck!" : "Finished!"}
+            </h2>
+            <p
+              className={`font-bold mb-4 text-center ${outcome.status === "won" ? "text-[#312626]" : "text-white"}`}
+            >
+              {outcome.message}
+              <br />
+              Score: {score} · Best: {bestScore}
+            </p>
+            <div className="flex">
+              <button
+                onClick={newGame}
+                style={{ backgroundColor: "#312626" }} // Explicit color setting
+                className="text-white border-solid border-black border-4 rounded-lg px-4 shadow-md transition duration-200 font-bold text-lg hover:bg-orange-500 mx-2 my-2"
+              >
+                Try Again
+              </button>
+              {puzzle && outcome.status === "won" && getNextPuzzle(puzzle) && (
+                <button
+                  onClick={() => changeChallenge({ puzzleId: getNextPuzzle(puzzle)?.id })}
+                  style={{ backgroundColor: "#312626" }} // Explicit color setting
+                  className="text-white border-solid border-black border-4 rounded-lg px-4 shadow-md transition duration-200 font-bold text-lg hover:bg-orange-500 mx-2 my-2"
+                >
+                  Next Puzzle
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+        {/* Win overlay: displays once, when the target tile first appears */}
+        {showWin && winRecord && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-yellow-400 bg-opacity-70 rounded-lg">
+            <h2
+            style={{fontSize: "4rem",
+              color: "#312626",
+              textShadow: "4px 4px 2px rgba(0, 0, 0, 0.6)", // Black shadow
+            }}
+            className="text-4xl font-bold text-white mb-2">You Win!</h2>
+            <p className="text-[#312626] font-bold mb-4 text-center">
+              Reached {game.target} in {winRecord.moves} moves
+              <br />
+              Time: {formatDuration(winRecord.timeMs)}
+            </p>
+            <div className="flex">
+              <button
+                onClick={() => setKeepPlaying(true)}
+                style={{ backgroundColor: "#312626" }} // Explicit color setting
+                className="text-white border-solid border-black border-4 rounded-lg px-4 shadow-md transition duration-200 font-bold text-lg hover:bg-orange-500 mx-2 my-2"
+              >
+                Keep Going
+              </button>
+              <button
+                onClick={newGame}
+                style={{ backgroundColor: "#312626" }} // Explicit color setting
+                className="text-white border-solid border-black border-4 rounded-lg px-4 shadow-md transition duration-200 font-bold text-lg hover:bg-orange-500 mx-2 my-2"
+              >
+                New Game
+              </button>
+            </div>
+          </div>
+        )}
+        {/* Pause overlay: input and autoplay wait until the game is resumed */}
+        {paused && (
+          <div
+            className={`absolute inset-0 flex items-center justify-center bg-black rounded-lg ${
+              boardHidden ? "" : "bg-opacity-60"
+            }`}
+          >
+            <h2 className="text-4xl font-bold text-white">Paused</h2>
           </div>
         )}
       </div>
+      {/* Problems with a shared board code */}
+      {boardErrors.length > 0 && (
+        <div className="bg-red-100 border-4 border-red-600 rounded-lg p-3 mt-4 text-red-800 text-sm">
+          <p className="font-bold">The shared board could not be loaded:</p>
+          <ul className="list-disc list-inside">
+            {boardErrors.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {/* Daily challenge: today's result, streak and calendar */}
+      {daily && <DailyPanel game="2048" today={today} results={dailyResults} />}
     </div>
+    </GameShell>
   );
 };
 
@@ -1,53 +1,127 @@
 "use client";
 
 import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { randomSeed } from '../lib/random';
+import {
+  advance,
+  createSimulation,
+  interpolate,
+  SimState,
+  WORLD_HEIGHT,
+  WORLD_WIDTH,
+} from '../lib/flappyBird/simulation';
+import { drawLoading, drawOverlay, drawScene } from '../lib/flappyBird/render';
+import { useGameAssets } from '../lib/flappyBird/assets';
+import {
+  DifficultyId,
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_IDS,
+  DIFFICULTY_PRESETS,
+} from '../lib/flappyBird/difficulty';
+import {
+  createGhostPlayer,
+  createGhostRun,
+  parseGhost,
+  sampleGhost,
+  serializeGhost,
+  stepGhost,
+  GhostError,
+  GhostPlayer,
+  GhostRun,
+} from '../lib/flappyBird/ghost';
+import {
+  getBestScores,
+  loadDailyResults,
+  loadDailyRun,
+  loadGhost,
+  recordBestScore,
+  recordDailyResult,
+  recordGhost,
+  saveDailyRun,
+} from '../lib/storage';
+import { downloadFile, fileTimestamp, readFileAsText } from '../lib/files';
+import { renderGif, renderPng } from '../lib/capture';
+import { useAudio } from '../lib/audio';
+import { getDailyDate, getDailySeed, DailyResults } from '../lib/daily';
+import { recordStatsEvent } from '../lib/stats';
+import AudioControls from './AudioControls';
+import SubmitScore from './SubmitScore';
+import DailyPanel from './DailyPanel';
+import GameShell from './GameShell';
 
-// ------------------------------
-// Canvas and Game Constants
-// ------------------------------
-const CANVAS_WIDTH = 400;
-const CANVAS_HEIGHT = 600;
-const BIRD_RADIUS = 15;
-const PIPE_WIDTH = 60;
-const PIPE_SPACING = 250; // horizontal distance between pipe pairs
-const NUM_PIPES = Math.ceil(CANVAS_WIDTH / PIPE_SPACING) + 1;
-
-// Physics constants
-const GRAVITY = 800;             // pixels per second² (downward acceleration)
-const FLAP_IMPULSE = -300;       // immediate upward velocity on flap
-const MAX_DOWN_VELOCITY = 400;   // maximum downward velocity
+// Exported GIFs: simulation steps per frame (20 frames per second), the
+// last 20 seconds of the run at most, how long the crash is held, and size
+// relative to the world
+const GIF_STEPS_PER_FRAME = 6;
+const GIF_FRAME_DELAY = 50;
+const GIF_MAX_FRAMES = 400;
+const GIF_LAST_FRAME_DELAY = 2000;
+const GIF_SCALE = 0.5;
 
-// ------------------------------
-// Type Definitions
-// ------------------------------
 /**
- * PipePair represents a pair of pipes.
- * - x: Horizontal position of the pipe pair.
- * - bottomY: y coordinate where the bottom pipe starts.
- * - gap: Vertical gap between the top (upside-down) and bottom pipes.
- * - scored: Flag to ensure the pair is scored only once.
+ * Props for FlappyBird.
+ * - seed: Fixed RNG seed for the pipe layout; every run reuses it. When
+ *   omitted, each run gets a random seed.
+ * - daily: Play today's daily challenge: the date's seed on Normal, without
+ *   ghosts. The first finished run of the day is scored.
  */
-type PipePair = {
-  x: number;
-  bottomY: number;
-  gap: number;
-  scored: boolean;
+type FlappyBirdProps = {
+  seed?: string;
+  daily?: boolean;
 };
 
 // ------------------------------
 // FlappyBird Component
 // ------------------------------
-const FlappyBird: React.FC = () => {
+const FlappyBird: React.FC<FlappyBirdProps> = ({ seed: requestedSeed, daily = false }) => {
+  // Date of the daily challenge, fixed for as long as the page is open.
+  const [today] = useState<string>(() => getDailyDate());
+  const fixedSeed = daily ? getDailySeed('flappyBird', today) : requestedSeed;
+  // dailyResults holds the scored daily challenge runs, keyed by date.
+  const [dailyResults, setDailyResults] = useState<DailyResults>(() => loadDailyResults('flappyBird'));
   // References to the canvas and game objects.
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  // birdRef holds the bird's position and vertical velocity.
-  const birdRef = useRef({ x: 50, y: CANVAS_HEIGHT / 2, velocityY: 0 });
-  // pipesRef holds the array of pipe pairs.
-  const pipesRef = useRef<PipePair[]>([]);
-  // lastTimestampRef is used to calculate deltaTime between frames.
+  // Sprites and background layers; the game starts once they have loaded.
+  const { assets, progress } = useGameAssets();
+  // Shared sound effects and music (unlocked on the first input).
+  const { audio } = useAudio();
+  // ghost is the recorded run to race: the saved best run of the current
+  // difficulty, or an imported one. raceGhost turns racing it on or off
+  // (off by default when the URL asks for a specific seed).
+  const [ghost, setGhost] = useState<GhostRun | null>(() => loadGhost(DEFAULT_DIFFICULTY));
+  const [raceGhost, setRaceGhost] = useState<boolean>(!fixedSeed);
+  const racing = raceGhost && ghost !== null;
+  // ghostErrors lists the problems of a ghost file that failed to import.
+  const [ghostErrors, setGhostErrors] = useState<string[]>([]);
+  // lastRun is the record of the run that just ended, for the leaderboard.
+  const [lastRun, setLastRun] = useState<GhostRun | null>(null);
+  // gifRun is the run Export GIF renders: the one that just ended, or the ghost.
+  const gifRun = lastRun ?? ghost;
+  // exportStatus shows the progress or result of a screenshot or GIF export;
+  // exporting is true while a GIF is being rendered.
+  const [exportStatus, setExportStatus] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<boolean>(false);
+  // seed is the pipe layout seed of the current (or next) run. A ghost can
+  // only be raced on its own pipes, so racing uses the ghost's seed.
+  const [seed, setSeed] = useState<string>(() => (racing ? ghost.seed : fixedSeed || randomSeed()));
+  // difficulty is the preset of the current (or next) run.
+  const [difficulty, setDifficulty] = useState<DifficultyId>(DEFAULT_DIFFICULTY);
+  // simRef holds the latest simulation state; prevSimRef the state one step
+  // earlier, so frames can be drawn between the two.
+  const simRef = useRef<SimState>(createSimulation(seed));
+  const prevSimRef = useRef<SimState>(simRef.current);
+  // accumulatorRef holds real time not yet consumed by fixed simulation steps.
+  const accumulatorRef = useRef<number>(0);
+  // flapRef is set by a click and consumed by the next simulation step.
+  const flapRef = useRef<boolean>(false);
+  // lastTimestampRef is used to calculate the time between frames.
   const lastTimestampRef = useRef<number>(0);
   // animationFrameId stores the current requestAnimationFrame ID.
   const animationFrameId = useRef<number>(0);
+  // flapsRef records the steps on which the player flapped during this run.
+  const flapsRef = useRef<number[]>([]);
+  // ghostPlayerRef plays the raced ghost alongside the run (null when not racing).
+  const ghostPlayerRef = useRef<GhostPlayer | null>(null);
 
   // ------------------------------
   // Game State Variables
@@ -56,247 +130,350 @@ const FlappyBird: React.FC = () => {
   const [gameState, setGameState] = useState<'start' | 'running' | 'gameover'>('start');
   const [score, setScore] = useState(0);
   const [paused, setPaused] = useState(false);
-
-  // ------------------------------
-  // Initialize Pipe Pairs
-  // ------------------------------
-  /**
-   * initPipes creates an array of pipe pairs.
-   * Each pipe pair is positioned offscreen to the right.
-   */
-  const initPipes = (): PipePair[] => {
-    const pipes: PipePair[] = [];
-    for (let i = 0; i < NUM_PIPES; i++) {
-      // Position each pipe pair further to the right.
-      const x = CANVAS_WIDTH + i * PIPE_SPACING;
-      // bottomY is randomized to create a safe vertical margin.
-      const bottomY = Math.random() * (CANVAS_HEIGHT - 300) + 150;
-      // Fixed gap value for easier passage (adjust as needed).
-      const gap = 110;
-      pipes.push({ x, bottomY, gap, scored: false });
-    }
-    return pipes;
-  };
+  // bestScores holds the best score of each difficulty preset; they are
+  // loaded from localStorage and saved again when a run beats them.
+  const [bestScores, setBestScores] = useState<{ [mode: string]: number }>(() => getBestScores('flappyBird'));
+  const bestScore = bestScores[difficulty] ?? 0;
 
   // ------------------------------
   // Reset Game Function
   // ------------------------------
   /**
    * resetGame resets all game parameters to their initial state.
+   * The pipe layout is generated from runSeed, so the same seed gives the same pipes.
    */
-  const resetGame = () => {
-    // Reset bird position and velocity.
-    birdRef.current = { x: 50, y: CANVAS_HEIGHT / 2, velocityY: 0 };
-    // Initialize new pipe pairs.
-    pipesRef.current = initPipes();
+  const resetGame = (runSeed: string) => {
+    setSeed(runSeed);
+    simRef.current = createSimulation(runSeed, difficulty);
+    prevSimRef.current = simRef.current;
+    accumulatorRef.current = 0;
+    flapRef.current = false;
+    flapsRef.current = [];
+    ghostPlayerRef.current = racing && ghost.seed === runSeed ? createGhostPlayer(ghost) : null;
     setScore(0);
-    // Reset the timestamp for deltaTime calculations.
+    // Mark the daily run as started, so closing the page cannot discard it unscored.
+    if (daily) saveDailyRun({ date: today, score: 0 });
+    // Reset the timestamp for frame time calculations.
     lastTimestampRef.current = 0;
     // Set game state to running and unpause the game.
     setGameState('running');
     setPaused(false);
   };
 
+  // ------------------------------
+  // Drawing
+  // ------------------------------
+  /**
+   * drawFrame draws the world blended between the last two simulation
+   * steps, plus the overlay for the current game state. Until the assets
+   * have loaded it draws the loading screen instead.
+   */
+  const drawFrame = useCallback((alpha: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    if (!assets) {
+      drawLoading(ctx, progress);
+      return;
+    }
+    // The ghost disappears once its run has ended
+    const ghostPlayer = ghostPlayerRef.current;
+    const ghostBird =
+      ghostPlayer && !ghostPlayer.state.over ? interpolate(ghostPlayer.previous, ghostPlayer.state, alpha).bird : null;
+    drawScene(ctx, interpolate(prevSimRef.current, simRef.current, alpha), { assets, ghost: ghostBird });
+    if (gameState === 'start') {
+      drawOverlay(ctx, 'Flappy Bird', 'Click to Start');
+    } else if (gameState === 'gameover') {
+      drawOverlay(ctx, 'Game Over!', 'Click to Restart');
+    } else if (paused) {
+      drawOverlay(ctx, 'Paused');
+    }
+  }, [gameState, paused, assets, progress]);
+
   // ------------------------------
   // Main Game Loop (updateGame)
   // ------------------------------
   /**
    * updateGame is the main animation loop.
-   * It updates the physics, moves the pipes, checks for collisions,
-   * draws the game elements on the canvas, and then schedules the next frame.
-   *
-   * Wrapped in useCallback so that it is memoized and can be used safely as a dependency.
+   * It feeds the time since the last frame into the fixed-step simulation,
+   * records flaps, keeps the ghost in step with the run, syncs score and
+   * game over into React state, draws an interpolated frame, and then
+   * schedules the next frame.
    */
   const updateGame = useCallback((timestamp: number) => {
-    const ctx = canvasRef.current?.getContext('2d');
-    if (!ctx) return;
-    
-    // Calculate deltaTime in seconds
+    // Calculate the frame time in seconds
     if (!lastTimestampRef.current) lastTimestampRef.current = timestamp;
-    const deltaTime = (timestamp - lastTimestampRef.current) / 1000;
+    const frameTime = (timestamp - lastTimestampRef.current) / 1000;
     lastTimestampRef.current = timestamp;
 
-    // Clear the canvas and fill with a background color
-    ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-    ctx.fillStyle = '#70c5ce';
-    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-
-    // Update physics only if the game is running and not paused
-    if (gameState === 'running' && !paused) {
-      // Apply gravity to the bird's vertical velocity
-      birdRef.current.velocityY += GRAVITY * deltaTime;
-      // Clamp the bird's downward velocity
-      if (birdRef.current.velocityY > MAX_DOWN_VELOCITY) {
-        birdRef.current.velocityY = MAX_DOWN_VELOCITY;
-      }
-      // Update bird's vertical position
-      birdRef.current.y += birdRef.current.velocityY * deltaTime;
-      
-      // Calculate pipe speed which gradually increases over time
-      const elapsed = timestamp;
-      const basePipeSpeed = 100;
-      const currentPipeSpeed = basePipeSpeed + elapsed / 30000;
-      
-      // Update each pipe pair's horizontal position
-      pipesRef.current.forEach((pipe) => {
-        pipe.x -= currentPipeSpeed * deltaTime;
-        // If a pipe pair goes offscreen, reposition it to the right with new values.
-        if (pipe.x + PIPE_WIDTH < 0) {
-          pipe.x += NUM_PIPES * PIPE_SPACING;
-          pipe.bottomY = Math.random() * (CANVAS_HEIGHT - 300) + 150;
-          pipe.gap = 110;
-          pipe.scored = false;
-        }
-      });
-
-      // Check for collisions between the bird and pipes, and update score.
-      pipesRef.current.forEach((pipe) => {
-        // Check horizontal overlap
-        if (
-          birdRef.current.x + BIRD_RADIUS > pipe.x &&
-          birdRef.current.x - BIRD_RADIUS < pipe.x + PIPE_WIDTH
-        ) {
-          // Check vertical boundaries of the gap:
-          if (
-            birdRef.current.y - BIRD_RADIUS < pipe.bottomY - pipe.gap ||
-            birdRef.current.y + BIRD_RADIUS > pipe.bottomY
-          ) {
-            setGameState('gameover');
-          }
-        }
-        // Increase score if the bird passes the pipe pair (only once per pair)
-        if (!pipe.scored && birdRef.current.x > pipe.x + PIPE_WIDTH) {
-          pipe.scored = true;
-          setScore((prev) => prev + 1);
-        }
-      });
+    // A flap is applied on the first step simulated from the current state
+    const flapStep = simRef.current.steps;
+    const scoreBefore = simRef.current.score;
+    const result = advance(simRef.current, accumulatorRef.current, frameTime, flapRef.current);
+    if (result.flapped) {
+      flapRef.current = false;
+      flapsRef.current.push(flapStep);
     }
-
-    // ------------------------------
-    // Drawing the Pipes
-    // ------------------------------
-    ctx.fillStyle = 'green';
-    ctx.strokeStyle = 'black';
-    ctx.lineWidth = 2;
-    pipesRef.current.forEach((pipe) => {
-      // Draw top (upside-down) pipe: from top of canvas to (bottomY - gap)
-      ctx.fillRect(pipe.x, 0, PIPE_WIDTH, pipe.bottomY - pipe.gap);
-      ctx.strokeRect(pipe.x, 0, PIPE_WIDTH, pipe.bottomY - pipe.gap);
-      // Draw bottom pipe: from bottomY to bottom of canvas
-      ctx.fillRect(pipe.x, pipe.bottomY, PIPE_WIDTH, CANVAS_HEIGHT - pipe.bottomY);
-      ctx.strokeRect(pipe.x, pipe.bottomY, PIPE_WIDTH, CANVAS_HEIGHT - pipe.bottomY);
-    });
-
-    // ------------------------------
-    // Drawing the Bird
-    // ------------------------------
-    // Calculate a rotation angle based on the bird's vertical velocity (clamped)
-    const angle = Math.max(Math.min(birdRef.current.velocityY / 300, 0.5), -0.5);
-    ctx.save();
-    ctx.translate(birdRef.current.x, birdRef.current.y);
-    ctx.rotate(angle);
-    ctx.beginPath();
-    ctx.arc(0, 0, BIRD_RADIUS, 0, Math.PI * 2);
-    ctx.fillStyle = 'yellow';
-    ctx.fill();
-    ctx.strokeStyle = 'black';
-    ctx.lineWidth = 2;
-    ctx.stroke();
-    ctx.restore();
-
-    // ------------------------------
-    // Drawing the Score on the Canvas
-    // ------------------------------
-    ctx.fillStyle = 'white';
-    ctx.font = '48px Arial';
-    ctx.textAlign = 'center';
-    ctx.fillText(score.toString(), CANVAS_WIDTH / 2, 50);
-
-    // ------------------------------
-    // Check for Boundary Collisions
-    // ------------------------------
-    if (birdRef.current.y + BIRD_RADIUS > CANVAS_HEIGHT) {
-      birdRef.current.y = CANVAS_HEIGHT - BIRD_RADIUS;
-      birdRef.current.velocityY = 0;
-      setGameState('gameover');
-    } else if (birdRef.current.y - BIRD_RADIUS < 0) {
-      birdRef.current.y = BIRD_RADIUS;
-      birdRef.current.velocityY = 0;
+    prevSimRef.current = result.previous;
+    simRef.current = result.state;
+    accumulatorRef.current = result.accumulator;
+    if (ghostPlayerRef.current) {
+      ghostPlayerRef.current = stepGhost(ghostPlayerRef.current, result.state.steps);
     }
 
-    // ------------------------------
-    // Drawing Overlays (Start, Game Over, Pause)
-    // ------------------------------
-    if (gameState === 'start') {
-      // Start overlay
-      ctx.fillStyle = 'rgba(0,0,0,0.5)';
-      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-      ctx.fillStyle = 'white';
-      ctx.font = '36px Arial';
-      ctx.textAlign = 'center';
-      ctx.fillText('Flappy Bird', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
-      ctx.font = '24px Arial';
-      ctx.fillText('Click to Start', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 40);
-    } else if (gameState === 'gameover') {
-      // Game Over overlay
-      ctx.fillStyle = 'rgba(0,0,0,0.5)';
-      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-      ctx.fillStyle = 'white';
-      ctx.font = '36px Arial';
-      ctx.textAlign = 'center';
-      ctx.fillText('Game Over!', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
-      ctx.font = '24px Arial';
-      ctx.fillText('Click to Restart', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 40);
+    setScore(result.state.score);
+    if (result.state.score > scoreBefore) {
+      audio.play('score');
+      recordStatsEvent({ type: 'pipe', game: 'flappyBird', score: result.state.score });
+      if (daily) saveDailyRun({ date: today, score: result.state.score });
     }
-
-    if (paused) {
-      // Pause overlay
-      ctx.fillStyle = 'rgba(0,0,0,0.5)';
-      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-      ctx.fillStyle = 'white';
-      ctx.font = '36px Arial';
-      ctx.textAlign = 'center';
-      ctx.fillText('Paused', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+    if (result.state.over) {
+      audio.play('hit');
+      recordStatsEvent({
+        type: 'gameOver',
+        record: {
+          game: 'flappyBird',
+          mode: result.state.difficulty,
+          score: result.state.score,
+          pipes: result.state.score,
+          durationMs: Math.round(result.state.elapsed * 1000),
+          endedAt: new Date().toISOString(),
+        },
+      });
+      // Keep the run as the difficulty's ghost if it is the best one yet
+      const run = createGhostRun({ seed, state: result.state, flaps: flapsRef.current, recordedAt: new Date() });
+      setLastRun(run);
+      if (recordGhost(run)) {
+        setGhost((current) => (!current || current.difficulty !== run.difficulty || run.score >= current.score ? run : current));
+      }
+      setGameState('gameover');
+      return;
     }
 
+    drawFrame(result.alpha);
     // Schedule the next frame
     animationFrameId.current = requestAnimationFrame(updateGame);
-  // Dependencies for updateGame: we update when gameState or paused change.
-  }, [gameState, paused]);
+  }, [drawFrame, seed, audio, daily, today]);
 
   // ------------------------------
   // useEffect to Start the Animation Loop
   // ------------------------------
   /**
-   * This useEffect starts (or resumes) the animation loop whenever the game is running.
-   * By including updateGame in the dependency array, we ensure that any changes
-   * to its logic are properly captured.
+   * This useEffect starts (or resumes) the animation loop whenever the game
+   * is running and not paused. In every other state it draws one still frame
+   * with the matching overlay.
    */
   useEffect(() => {
-    if (gameState === 'running') {
+    if (gameState === 'running' && !paused) {
       animationFrameId.current = requestAnimationFrame(updateGame);
+    } else {
+      drawFrame(1);
     }
     return () => cancelAnimationFrame(animationFrameId.current);
-  }, [gameState, paused, updateGame]);
+  }, [gameState, paused, updateGame, drawFrame]);
+
+  /**
+   * The background loop plays while a run is in progress and stops on
+   * pause, game over or leaving the page.
+   */
+  useEffect(() => {
+    if (gameState === 'running' && !paused) audio.startMusic();
+    else audio.stopMusic();
+    return () => audio.stopMusic();
+  }, [gameState, paused, audio]);
+
+  // ------------------------------
+  // useEffect to Save the Best Score
+  // ------------------------------
+  /**
+   * When a run ends with a new best score, store it so it survives reloads.
+   */
+  useEffect(() => {
+    if (gameState === 'gameover' && score > bestScore) {
+      setBestScores((prev) => ({ ...prev, [difficulty]: score }));
+      recordBestScore('flappyBird', difficulty, score);
+    }
+  }, [gameState, score, bestScore, difficulty]);
+
+  /**
+   * recordDaily scores a daily challenge run, unless today already has a result.
+   */
+  const recordDaily = useCallback((runScore: number) => {
+    saveDailyRun(null);
+    if (recordDailyResult('flappyBird', today, { score: runScore, playedAt: new Date().toISOString() })) {
+      setDailyResults(loadDailyResults('flappyBird'));
+    }
+  }, [today]);
+
+  // A daily run the page was closed or reloaded on is scored with the score
+  // it had reached, so reloading cannot start the day's attempt over.
+  useEffect(() => {
+    const unfinished = loadDailyRun();
+    if (!unfinished) return;
+    saveDailyRun(null);
+    const result = { score: unfinished.score, playedAt: new Date().toISOString() };
+    if (recordDailyResult('flappyBird', unfinished.date, result)) {
+      setDailyResults(loadDailyResults('flappyBird'));
+    }
+  }, []);
+
+  // A daily challenge attempt is scored when its run ends.
+  useEffect(() => {
+    if (daily && lastRun) recordDaily(lastRun.score);
+  }, [daily, lastRun, recordDaily]);
+
+  /**
+   * showPreview sets up the pipes of the next run and draws them behind the
+   * current overlay.
+   */
+  const showPreview = (runSeed: string, runDifficulty: DifficultyId) => {
+    setSeed(runSeed);
+    simRef.current = createSimulation(runSeed, runDifficulty);
+    prevSimRef.current = simRef.current;
+    ghostPlayerRef.current = null;
+    drawFrame(1);
+  };
+
+  /**
+   * changeDifficulty picks the preset for the next run, loads that preset's
+   * ghost and shows the next run's pipes.
+   */
+  const changeDifficulty = (next: DifficultyId) => {
+    const nextGhost = loadGhost(next);
+    setDifficulty(next);
+    setGhost(nextGhost);
+    showPreview(raceGhost && nextGhost ? nextGhost.seed : seed, next);
+  };
+
+  /**
+   * toggleRaceGhost turns racing the ghost on or off for the next run.
+   */
+  const toggleRaceGhost = (enabled: boolean) => {
+    setRaceGhost(enabled);
+    if (enabled && ghost) showPreview(ghost.seed, difficulty);
+  };
+
+  // ------------------------------
+  // Ghost Import / Export
+  // ------------------------------
+  /**
+   * Imports a ghost file, validating it and replaying it to check its score.
+   * The ghost's difficulty becomes the current one and racing is turned on.
+   */
+  const handleImportGhost = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const loaded = parseGhost(await readFileAsText(file));
+      setGhost(loaded);
+      setDifficulty(loaded.difficulty);
+      setRaceGhost(true);
+      setGhostErrors([]);
+      showPreview(loaded.seed, loaded.difficulty);
+    } catch (error) {
+      setGhostErrors(
+        error instanceof GhostError
+          ? error.issues
+          : [error instanceof Error ? error.message : String(error)]
+      );
+    }
+  };
+
+  /**
+   * Exports the current ghost as a file.
+   */
+  const handleExportGhost = () => {
+    if (!ghost) return;
+    downloadFile(`flappy-ghost-${ghost.difficulty}-${ghost.score}.json`, serializeGhost(ghost));
+  };
+
+  // ------------------------------
+  // Screenshots and GIFs
+  // ------------------------------
+  /**
+   * drawEnd draws the final frame of a run: the crash with the score.
+   */
+  const drawEnd = (ctx: CanvasRenderingContext2D, state: SimState) => {
+    drawScene(ctx, state, { assets });
+    drawOverlay(ctx, 'Game Over!', `Score: ${state.score}`);
+  };
+
+  /**
+   * Downloads a PNG of the run that just ended.
+   */
+  const handleSaveScreenshot = async () => {
+    const state = simRef.current;
+    try {
+      const png = await renderPng(WORLD_WIDTH, WORLD_HEIGHT, (ctx) => drawEnd(ctx, state));
+      downloadFile(`flappy-${state.score}-${fileTimestamp()}.png`, png);
+      setExportStatus('Screenshot saved.');
+    } catch (error) {
+      setExportStatus(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  /**
+   * Replays the last run (or the ghost) and downloads its final seconds as
+   * an animated GIF, ending on the crash.
+   */
+  const handleExportGif = async () => {
+    if (!gifRun) return;
+    setExporting(true);
+    try {
+      const gif = await renderGif({
+        frames: sampleGhost(gifRun, GIF_STEPS_PER_FRAME, GIF_MAX_FRAMES),
+        width: WORLD_WIDTH,
+        height: WORLD_HEIGHT,
+        scale: GIF_SCALE,
+        draw: (ctx, state) => (state.over ? drawEnd(ctx, state) : drawScene(ctx, state, { assets })),
+        delayMs: GIF_FRAME_DELAY,
+        lastDelayMs: GIF_LAST_FRAME_DELAY,
+        onProgress: (progress) => setExportStatus(`Rendering GIF... ${Math.round(progress * 100)}%`),
+      });
+      downloadFile(`flappy-${gifRun.difficulty}-${gifRun.score}.gif`, gif);
+      setExportStatus('GIF saved.');
+    } catch (error) {
+      setExportStatus(error instanceof Error ? error.message : String(error));
+    } finally {
+      setExporting(false);
+    }
+  };
 
   // ------------------------------
   // Event Handlers
   // ------------------------------
+  /**
+   * restartRun starts a new run: on the ghost's seed when racing it,
+   * otherwise on the fixed seed or a new random one.
+   */
+  const restartRun = () => {
+    // Restarting a daily challenge run ends it with its current score
+    if (daily && gameState === 'running') recordDaily(simRef.current.score);
+    resetGame(racing ? ghost.seed : fixedSeed || randomSeed());
+  };
+
   /**
    * handleJump is triggered when the canvas is clicked.
    * It starts or restarts the game if needed, or applies the flap impulse.
+   * Clicks are ignored while the assets are loading.
+   * The first run uses the seed shown on the start screen; restarts race
+   * the ghost on its seed, or reuse a fixed seed or pick a new random one.
    */
   const handleJump = () => {
-    if (gameState === 'start' || gameState === 'gameover') {
-      resetGame();
+    if (!assets) return;
+    if (gameState === 'start') {
+      resetGame(seed);
+    } else if (gameState === 'gameover') {
+      restartRun();
     } else if (gameState === 'running' && !paused) {
-      birdRef.current.velocityY = FLAP_IMPULSE;
+      flapRef.current = true;
+      audio.play('flap');
     }
   };
 
   /**
    * togglePause toggles the paused state.
-   * It also resets the lastTimestamp so that deltaTime remains accurate.
+   * It also resets the lastTimestamp so the paused time is not simulated.
    */
   const togglePause = () => {
     if (gameState === 'running') {
@@ -305,33 +482,137 @@ const FlappyBird: React.FC = () => {
     }
   };
 
+  // Difficulty, ghost racing and sound (shown in the shell's settings panel)
+  const settings = (
+    <>
+      {/* Difficulty preset (can be changed between runs) */}
+      <label className="font-bold">
+        Difficulty{' '}
+        <select
+          value={difficulty}
+          onChange={(e) => changeDifficulty(e.target.value as DifficultyId)}
+          disabled={daily || gameState === 'running'}
+          className="text-black rounded px-1"
+        >
+          {DIFFICULTY_IDS.map((id) => (
+            <option key={id} value={id}>
+              {DIFFICULTY_PRESETS[id].label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="font-bold">
+        <input
+          type="checkbox"
+          checked={raceGhost}
+          onChange={(e) => toggleRaceGhost(e.target.checked)}
+          disabled={daily || gameState === 'running'}
+          className="mr-1"
+        />
+        Race ghost
+      </label>
+      <AudioControls />
+    </>
+  );
+
   // ------------------------------
   // JSX Render
   // ------------------------------
   return (
-    <div className="relative flex flex-col items-center justify-center min-h-screen bg-gradient-to-br from-blue-500 to-purple-600">
-      {/* Pause button (visible only when running) */}
-      {gameState === 'running' && (
-        <button
-          className="absolute top-4 left-4 px-4 py-2 bg-white text-black rounded"
-          onClick={togglePause}
-        >
-          {paused ? 'Resume' : 'Pause'}
-        </button>
-      )}
-      <h1 className="text-5xl font-bold text-white mb-4">Flappy Bird</h1>
+    <GameShell
+      gameId="flappyBird"
+      mode={daily ? 'daily' : 'play'}
+      paused={paused}
+      onTogglePause={gameState === 'running' ? togglePause : undefined}
+      onRestart={assets ? restartRun : undefined}
+      settings={settings}
+    >
+    <div className="flex flex-col items-center justify-center p-6 bg-gradient-to-br from-blue-500 to-purple-600">
       {/* The canvas that displays the game */}
       <canvas
         ref={canvasRef}
-        width={CANVAS_WIDTH}
-        height={CANVAS_HEIGHT}
+        width={WORLD_WIDTH}
+        height={WORLD_HEIGHT}
         onClick={handleJump}
         className="border-8 border-gray-800 rounded-lg bg-blue-200"
       />
       <p className="text-white mt-4">
         Click to {gameState === 'start' || gameState === 'gameover' ? 'start' : 'flap'}
       </p>
+      <p className="text-white font-bold">
+        Best ({DIFFICULTY_PRESETS[difficulty].label}): {bestScore}
+      </p>
+      {/* Leaderboard submission for the run that just ended */}
+      {gameState === 'gameover' && lastRun && (
+        <SubmitScore
+          key={lastRun.recordedAt}
+          buildSubmission={(nickname) => ({ game: 'flappyBird', nickname, ghost: lastRun })}
+          className="text-white mt-2"
+        />
+      )}
+      <p className="text-white text-sm">
+        Seed: <span className="font-mono font-bold">{seed}</span>
+      </p>
+      {/* Ghost of the best (or an imported) run */}
+      <div className="flex items-center mt-2 space-x-2">
+        <label
+          className={`px-4 py-2 bg-white text-black rounded ${daily || gameState === 'running' ? 'opacity-40' : 'cursor-pointer'}`}
+        >
+          Import Ghost
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImportGhost}
+            disabled={daily || gameState === 'running'}
+            className="hidden"
+          />
+        </label>
+        <button
+          className="px-4 py-2 bg-white text-black rounded disabled:opacity-40"
+          onClick={handleExportGhost}
+          disabled={!ghost}
+        >
+          Export Ghost
+        </button>
+      </div>
+      <p className="text-white text-sm">
+        {ghost
+          ? `Ghost: ${ghost.score} points (${DIFFICULTY_PRESETS[ghost.difficulty].label}, seed ${ghost.seed})`
+          : 'No ghost yet: finish a run to record one.'}
+      </p>
+      {/* Screenshot of the crash, and a GIF of the last run (or the ghost) */}
+      <div className="flex items-center mt-2 space-x-2">
+        <button
+          className="px-4 py-2 bg-white text-black rounded disabled:opacity-40"
+          onClick={handleSaveScreenshot}
+          disabled={gameState !== 'gameover'}
+        >
+          Save Screenshot
+        </button>
+        <button
+          className="px-4 py-2 bg-white text-black rounded disabled:opacity-40"
+          onClick={handleExportGif}
+          disabled={!gifRun || exporting || gameState === 'running'}
+        >
+          Export GIF
+        </button>
+      </div>
+      {exportStatus && <p className="text-white text-sm">{exportStatus}</p>}
+      {/* Ghost import errors */}
+      {ghostErrors.length > 0 && (
+        <div className="bg-red-100 border-4 border-red-600 rounded-lg p-3 mt-2 text-red-800 text-sm">
+          <p className="font-bold">This ghost could not be loaded:</p>
+          <ul className="list-disc list-inside">
+            {ghostErrors.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {/* Daily challenge: today's result, streak and calendar */}
+      {daily && <DailyPanel game="flappyBird" today={today} results={dailyResults} />}
     </div>
+    </GameShell>
   );
 };
 
@@ -0,0 +1,159 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { GAME_REGISTRY } from "../lib/games";
+import { GameId } from "../lib/storage";
+import AchievementToasts from "./AchievementToasts";
+
+/**
+ * Props for GameShell.
+ * - gameId: Registry entry that provides the title, modes and rules.
+ * - mode: Id of the active mode (highlighted in the mode tabs).
+ * - title / tagline: Override the registry's header text.
+ * - paused / onTogglePause: Show a Pause/Resume button (only when a handler is given).
+ * - onRestart: Show a Restart button.
+ * - settings: Controls shown in the collapsible settings panel.
+ * - showRules: Show the rules panel (on by default).
+ */
+type GameShellProps = {
+  gameId: GameId;
+  mode?: string;
+  title?: string;
+  tagline?: string;
+  paused?: boolean;
+  onTogglePause?: () => void;
+  onRestart?: () => void;
+  settings?: React.ReactNode;
+  showRules?: boolean;
+  children: React.ReactNode;
+};
+
+// Shared style of the shell's buttons
+const BUTTON_CLASS =
+  "text-white border-solid border-black border-4 rounded-lg px-4 shadow-md transition duration-200 font-bold hover:bg-orange-500 disabled:opacity-40 mx-1";
+
+// ------------------------------
+// GameShell Component
+// ------------------------------
+/**
+ * GameShell is the page layout every game shares: a header with the title
+ * and mode tabs, pause/restart controls, a settings panel, the rules and
+ * the achievement toasts.
+ */
+const GameShell: React.FC<GameShellProps> = ({
+  gameId,
+  mode,
+  title,
+  tagline,
+  paused = false,
+  onTogglePause,
+  onRestart,
+  settings,
+  showRules = true,
+  children,
+}) => {
+  const game = GAME_REGISTRY[gameId];
+  const activeMode = mode ?? game.modes[0].id;
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-gradient-to-br from-blue-200 to-purple-300 p-4">
+      {/* Header */}
+      <header className="mb-6 text-center">
+        <nav className="space-x-3 text-sm font-bold text-gray-700 underline">
+          <Link href="/">All games</Link>
+          <Link href="/stats">Stats</Link>
+        </nav>
+        <h1
+        style={{
+          textShadow: "4px 4px 2px rgba(0, 0, 0, 0.6)", // Black shadow
+        }}
+        className="text-6xl italic font-black text-[#312626] drop-shadow-lg">{title ?? game.title}</h1>
+        <h3 className="text-xl text-gray-700 mt-2">
+          {tagline ?? game.tagline}
+        </h3>
+        {/* Mode tabs */}
+        {game.modes.length > 1 && (
+          <nav className="flex flex-wrap justify-center gap-y-2 mt-4">
+            {game.modes.map((option) => (
+              <Link
+                key={option.id}
+                href={option.href}
+                style={{ backgroundColor: option.id === activeMode ? "#f97316" : "#312626" }} // Highlight the active mode
+                className={BUTTON_CLASS}
+              >
+                {option.label}
+              </Link>
+            ))}
+          </nav>
+        )}
+      </header>
+
+      {/* Controls */}
+      {(onTogglePause || onRestart || settings) && (
+        <div className="flex mb-4">
+          {onTogglePause && (
+            <button
+              onClick={onTogglePause}
+              style={{ backgroundColor: "#312626" }} // Explicit color setting
+              className={BUTTON_CLASS}
+            >
+              {paused ? "Resume" : "Pause"}
+            </button>
+          )}
+          {onRestart && (
+            <button
+              onClick={onRestart}
+              style={{ backgroundColor: "#312626" }} // Explicit color setting
+              className={BUTTON_CLASS}
+            >
+              Restart
+            </button>
+          )}
+          {settings && (
+            <button
+              onClick={() => setSettingsOpen((prev) => !prev)}
+              aria-expanded={settingsOpen}
+              style={{ backgroundColor: settingsOpen ? "#f97316" : "#312626" }} // Highlighted while open
+              className={BUTTON_CLASS}
+            >
+              Settings
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Settings panel */}
+      {settings && settingsOpen && (
+        <div
+          style={{ backgroundColor: "#312626" }} // Explicit color setting
+          className="flex flex-col items-center space-y-2 text-white rounded-lg p-4 mb-4"
+        >
+          {settings}
+        </div>
+      )}
+
+      {/* Game container */}
+      <div className="rounded-lg shadow-lg overflow-hidden">{children}</div>
+
+      {/* Game Rules */}
+      {showRules && (
+        <div className="mt-6 p-6 border-4 border-black rounded-lg bg-yellow-100 max-lg: shadow-xl">
+          <h2 className="text-2xl font-bold mb-2 text-center text-gray-800">
+            Game Rules
+          </h2>
+          <ul className="list-disc list-inside text-gray-700 border-4 border-black border-solid p-6 rounded-lg bg-white space-y-1">
+            {game.rules.map((rule) => (
+              <li key={rule}>{rule}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <AchievementToasts />
+    </div>
+  );
+};
+
+export default GameShell;
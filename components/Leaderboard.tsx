@@ -0,0 +1,157 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { fetchLeaderboard, LeaderboardError, LeaderboardPage } from "../lib/leaderboard";
+import { GameId } from "../lib/storage";
+
+/**
+ * Props for Leaderboard.
+ * - game: Game whose leaderboard is listed.
+ */
+type LeaderboardProps = {
+  game: GameId;
+};
+
+// ------------------------------
+// Leaderboard Component
+// ------------------------------
+/**
+ * Lists a game's top scores a page at a time, for one mode or all of them.
+ */
+const Leaderboard: React.FC<LeaderboardProps> = ({ game }) => {
+  // Mode shown, or null for every mode combined
+  const [mode, setMode] = useState<string | null>(null);
+  const [page, setPage] = useState<number>(1);
+  const [data, setData] = useState<LeaderboardPage | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  // Problems reported while loading the leaderboard
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Load the page whenever the game, mode or page changes
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchLeaderboard({ game, mode, page })
+      .then((result) => {
+        if (cancelled) return;
+        setData(result);
+        setErrors([]);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        setErrors(
+          error instanceof LeaderboardError
+            ? error.issues
+            : [error instanceof Error ? error.message : String(error)]
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [game, mode, page]);
+
+  const buttonClass =
+    "text-white border-solid border-black border-4 rounded-lg px-3 shadow-md transition duration-200 font-bold hover:bg-orange-500 disabled:opacity-40 mx-1";
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  // ------------------------------
+  // JSX Return (Render)
+  // ------------------------------
+  return (
+    <div className="flex flex-col items-center justify-center border-4 p-6 border-black rounded-lg bg-gradient-to-br from-blue-500 to-purple-600 space-y-4">
+      {/* Mode filter */}
+      <label className="flex items-center text-white text-sm font-bold">
+        Mode
+        <select
+          value={mode ?? ""}
+          onChange={(e) => {
+            setMode(e.target.value || null);
+            setPage(1);
+          }}
+          className="text-black rounded ml-2"
+        >
+          <option value="">All modes</option>
+          {data?.modes.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {/* Load errors */}
+      {errors.length > 0 && (
+        <div className="bg-red-100 border-4 border-red-600 rounded-lg p-3 text-red-800 text-sm">
+          <p className="font-bold">The leaderboard could not be loaded:</p>
+          <ul className="list-disc list-inside">
+            {errors.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Scores */}
+      <table
+        style={{ backgroundColor: "#312626" }} // Explicit color setting
+        className="text-white text-sm rounded-lg w-full"
+      >
+        <thead>
+          <tr className="text-left">
+            <th className="p-2">#</th>
+            <th className="p-2">Player</th>
+            <th className="p-2">Mode</th>
+            <th className="p-2 text-right">Score</th>
+            <th className="p-2">Date</th>
+          </tr>
+        </thead>
+        <tbody>
+          {data?.entries.map((entry) => (
+            <tr key={entry.id} className="border-t border-gray-600">
+              <td className="p-2 font-bold">{entry.rank}</td>
+              <td className="p-2">{entry.nickname}</td>
+              <td className="p-2">{entry.mode}</td>
+              <td className="p-2 text-right font-bold">{entry.score}</td>
+              <td className="p-2">{new Date(entry.submittedAt).toLocaleDateString()}</td>
+            </tr>
+          ))}
+          {!loading && data?.entries.length === 0 && (
+            <tr>
+              <td colSpan={5} className="p-4 text-center">
+                No scores yet. Finish a game and submit yours!
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      {/* Paging */}
+      <div className="flex items-center text-white font-bold">
+        <button
+          onClick={() => setPage((prev) => prev - 1)}
+          disabled={loading || page <= 1}
+          style={{ backgroundColor: "#312626" }} // Explicit color setting
+          className={buttonClass}
+        >
+          ◀ Prev
+        </button>
+        <span className="mx-2">
+          {loading ? "Loading…" : `Page ${page} / ${pageCount}`}
+        </span>
+        <button
+          onClick={() => setPage((prev) => prev + 1)}
+          disabled={loading || page >= pageCount}
+          style={{ backgroundColor: "#312626" }} // Explicit color setting
+          className={buttonClass}
+        >
+          Next ▶
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Leaderboard;
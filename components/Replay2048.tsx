@@ -0,0 +1,240 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { getConfigRules, GameState } from "../lib/game2048/engine";
+import { CANVAS_SIZE, drawBoard } from "../lib/game2048/render";
+import {
+  decodeMoves,
+  parseReplay,
+  serializeReplay,
+  simulateReplay,
+  Replay,
+  ReplayError,
+} from "../lib/game2048/replay";
+import { downloadFile, readFileAsText } from "../lib/files";
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Delay between moves at 1x speed, in milliseconds
+const BASE_STEP_DELAY = 400;
+// Playback speeds offered in the speed selector
+const SPEED_OPTIONS = [0.5, 1, 2, 4, 8];
+
+// ------------------------------
+// ReplayPlayer Component
+// ------------------------------
+
+/**
+ * Plays back a 2048 replay file move by move on a canvas.
+ * Supports play/pause, stepping forward/back, speed control and
+ * importing/exporting replay files.
+ */
+const ReplayPlayer: React.FC = () => {
+  // Reference to the canvas element
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Loaded replay and every position it passes through
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [states, setStates] = useState<GameState[]>([]);
+  // Index into states of the position being shown
+  const [index, setIndex] = useState<number>(0);
+  const [playing, setPlaying] = useState<boolean>(false);
+  const [speed, setSpeed] = useState<number>(1);
+  // Problems found while importing a replay file
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const current = states[index];
+  const lastIndex = states.length - 1;
+
+  // Redraw whenever the shown position changes
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx || !current || !replay) return;
+    drawBoard(ctx, current.board, CANVAS_SIZE, getConfigRules(replay));
+  }, [current, replay]);
+
+  // Advance one move per tick while playing, stopping at the end
+  useEffect(() => {
+    if (!playing) return;
+    if (index >= lastIndex) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setIndex((prev) => prev + 1), BASE_STEP_DELAY / speed);
+    return () => clearTimeout(timer);
+  }, [playing, index, lastIndex, speed]);
+
+  /**
+   * Imports a replay file, validating the schema and re-simulating the moves.
+   */
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const loaded = parseReplay(await readFileAsText(file));
+      setStates(simulateReplay(loaded));
+      setReplay(loaded);
+      setIndex(0);
+      setPlaying(false);
+      setErrors([]);
+    } catch (error) {
+      setErrors(
+        error instanceof ReplayError
+          ? error.issues
+          : [error instanceof Error ? error.message : String(error)]
+      );
+    }
+  };
+
+  /**
+   * Exports the loaded replay as a file again.
+   */
+  const handleExport = () => {
+    if (!replay) return;
+    downloadFile(`2048-replay-${replay.seed}.json`, serializeReplay(replay));
+  };
+
+  /**
+   * Moves the playback position by `delta` moves, within bounds.
+   */
+  const stepBy = useCallback(
+    (delta: number) => {
+      setPlaying(false);
+      setIndex((prev) => Math.min(Math.max(prev + delta, 0), lastIndex));
+    },
+    [lastIndex]
+  );
+
+  const buttonClass =
+    "text-white border-solid border-black border-4 rounded-lg px-3 shadow-md transition duration-200 font-bold hover:bg-orange-500 disabled:opacity-40 mx-1";
+  const nextMove = replay && index < lastIndex ? decodeMoves(replay.moves)[index] : null;
+
+  // ------------------------------
+  // JSX Return (Render)
+  // ------------------------------
+  return (
+    <div className="flex flex-col items-center justify-center border-4 p-6 border-black rounded-lg bg-gradient-to-br from-blue-500 to-purple-600 space-y-4">
+      {/* Import / Export */}
+      <div className="flex items-center space-x-2">
+        <label
+          style={{ backgroundColor: "#312626" }} // Explicit color setting
+          className={`${buttonClass} cursor-pointer`}
+        >
+          Import Replay
+          <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </label>
+        <button
+          onClick={handleExport}
+          disabled={!replay}
+          style={{ backgroundColor: "#312626" }} // Explicit color setting
+          className={buttonClass}
+        >
+          Export Replay
+        </button>
+      </div>
+
+      {/* Import errors */}
+      {errors.length > 0 && (
+        <div className="bg-red-100 border-4 border-red-600 rounded-lg p-3 text-red-800 text-sm">
+          <p className="font-bold">This replay could not be loaded:</p>
+          <ul className="list-disc list-inside">
+            {errors.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Replay details */}
+      {replay && current && (
+        <div
+          style={{ backgroundColor: "#312626" }} // Explicit color setting
+          className="text-white text-sm rounded-lg p-3 text-center"
+        >
+          <p>
+            Seed <span className="font-mono font-bold">{replay.seed}</span> · {replay.size}x{replay.size} ·
+            target {replay.target}
+            {replay.rules !== "classic" && <> · {getConfigRules(replay).label} rules</>}
+          </p>
+          <p>
+            Move <strong>{index}</strong> / {lastIndex} · Score <strong>{current.score}</strong>
+            {nextMove && <> · next: {nextMove}</>}
+          </p>
+          <p className="text-xs opacity-80">
+            Played {new Date(replay.startedAt).toLocaleString()} – final score {replay.finalScore}
+          </p>
+        </div>
+      )}
+
+      {/* Canvas */}
+      <div className="relative inline-block rounded-lg overflow-hidden">
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_SIZE}
+          height={CANVAS_SIZE}
+          className="border-8 border-gray-800 rounded-lg block bg-[#bbada0]"
+        />
+        {!replay && (
+          <div className="absolute inset-0 flex items-center justify-center text-white font-bold">
+            Import a replay file to watch it.
+          </div>
+        )}
+      </div>
+
+      {/* Playback controls */}
+      <div className="flex items-center">
+        <button
+          onClick={() => stepBy(-1)}
+          disabled={!replay || index === 0}
+          style={{ backgroundColor: "#312626" }} // Explicit color setting
+          className={buttonClass}
+        >
+          ◀ Back
+        </button>
+        <button
+          onClick={() => {
+            if (index >= lastIndex) setIndex(0);
+            setPlaying((prev) => !prev);
+          }}
+          disabled={!replay}
+          style={{ backgroundColor: "#312626" }} // Explicit color setting
+          className={buttonClass}
+        >
+          {playing ? "Pause" : "Play"}
+        </button>
+        <button
+          onClick={() => stepBy(1)}
+          disabled={!replay || index >= lastIndex}
+          style={{ backgroundColor: "#312626" }} // Explicit color setting
+          className={buttonClass}
+        >
+          Forward ▶
+        </button>
+        <label className="flex items-center text-white text-xs font-bold ml-2">
+          Speed
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="text-black rounded ml-1"
+          >
+            {SPEED_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}x
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <Link href="/game2048" className="text-white text-xs font-bold underline">
+        Back to the game
+      </Link>
+    </div>
+  );
+};
+
+export default ReplayPlayer;
@@ -0,0 +1,152 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { drawBarChart, drawLineChart } from "../lib/charts";
+import { formatDuration } from "../lib/format";
+import { GAMES } from "../lib/games";
+import {
+  getScoreHistogram,
+  getStatsSummary,
+  loadStats,
+  ACHIEVEMENTS,
+  StoredStats,
+} from "../lib/stats";
+
+// Size of each chart canvas
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 160;
+// Bars in the score distribution chart
+const HISTOGRAM_BUCKETS = 8;
+// Games shown in the recent scores chart
+const RECENT_GAMES = 30;
+
+/**
+ * Props for ChartCanvas.
+ * - draw: Draws the chart; called again whenever it changes.
+ * - label: Accessible description of the chart.
+ */
+type ChartCanvasProps = {
+  draw: (ctx: CanvasRenderingContext2D) => void;
+  label: string;
+};
+
+/**
+ * A canvas that a chart function draws on.
+ */
+const ChartCanvas: React.FC<ChartCanvasProps> = ({ draw, label }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (ctx) draw(ctx);
+  }, [draw]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={CHART_WIDTH}
+      height={CHART_HEIGHT}
+      role="img"
+      aria-label={label}
+      className="bg-white rounded-lg"
+    />
+  );
+};
+
+// ------------------------------
+// StatsDashboard Component
+// ------------------------------
+/**
+ * Statistics of every game (totals, averages and charts of the scores) and
+ * the list of achievements.
+ */
+const StatsDashboard: React.FC = () => {
+  // Read after mounting: localStorage is not available during server rendering
+  const [stats, setStats] = useState<StoredStats | null>(null);
+
+  useEffect(() => {
+    setStats(loadStats());
+  }, []);
+
+  if (!stats) return null;
+
+  return (
+    <div className="flex flex-col items-center space-y-6 w-full max-w-3xl">
+      {GAMES.map((game) => {
+        const summary = getStatsSummary(stats, game.id);
+        const histogram = getScoreHistogram(summary.recentScores, HISTOGRAM_BUCKETS).map((bucket) => ({
+          label: String(bucket.from),
+          value: bucket.count,
+        }));
+        const recent = summary.recentScores.slice(-RECENT_GAMES);
+        const figures = [
+          { label: "Games", value: summary.games },
+          { label: "Best", value: summary.bestScore },
+          { label: "Average", value: Math.round(summary.averageScore) },
+          { label: "Median", value: summary.medianScore },
+          { label: "Time played", value: formatDuration(summary.timeMs) },
+          game.id === "2048"
+            ? { label: "Highest tile", value: summary.highestTile }
+            : { label: "Pipes passed", value: summary.pipes },
+        ];
+
+        return (
+          <section
+            key={game.id}
+            style={{ backgroundColor: "#312626" }} // Explicit color setting
+            className="w-full text-white rounded-lg p-4"
+          >
+            <h2 className="text-2xl font-bold mb-2">{game.title}</h2>
+            <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 mb-4">
+              {figures.map((figure) => (
+                <div key={figure.label} className="bg-[#bbada0] rounded-md p-2 text-center">
+                  <p className="text-xs uppercase font-bold">{figure.label}</p>
+                  <p className="text-xl font-bold">{figure.value}</p>
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap justify-center gap-4">
+              <div className="text-center">
+                <p className="text-sm font-bold mb-1">Score distribution</p>
+                <ChartCanvas
+                  draw={(ctx) => drawBarChart(ctx, histogram)}
+                  label={`${game.title} score distribution`}
+                />
+              </div>
+              <div className="text-center">
+                <p className="text-sm font-bold mb-1">Recent scores</p>
+                <ChartCanvas draw={(ctx) => drawLineChart(ctx, recent)} label={`${game.title} recent scores`} />
+              </div>
+            </div>
+          </section>
+        );
+      })}
+
+      {/* Achievements */}
+      <section className="w-full p-6 border-4 border-black rounded-lg bg-yellow-100 shadow-xl">
+        <h2 className="text-2xl font-bold mb-2 text-center text-gray-800">Achievements</h2>
+        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {ACHIEVEMENTS.map((achievement) => {
+            const unlockedAt = stats.achievements[achievement.id];
+            return (
+              <li
+                key={achievement.id}
+                className={`border-4 border-black rounded-lg p-3 bg-white ${unlockedAt ? "" : "opacity-50"}`}
+              >
+                <p className="font-bold text-gray-800">
+                  {unlockedAt ? "🏆" : "🔒"} {achievement.title}
+                </p>
+                <p className="text-sm text-gray-700">{achievement.description}</p>
+                {unlockedAt && (
+                  <p className="text-xs text-gray-500">Unlocked {new Date(unlockedAt).toLocaleDateString()}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+    </div>
+  );
+};
+
+export default StatsDashboard;
@@ -0,0 +1,99 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { submitScore, LeaderboardError, MAX_NICKNAME_LENGTH, RankedEntry, ScoreSubmission } from "../lib/leaderboard";
+import { loadNickname, saveNickname } from "../lib/storage";
+
+/**
+ * Props for SubmitScore.
+ * - buildSubmission: Returns the submission for the finished game under
+ *   the given nickname.
+ * - className: Extra classes for the wrapper (e.g. text color or margins).
+ */
+type SubmitScoreProps = {
+  buildSubmission: (nickname: string) => ScoreSubmission;
+  className?: string;
+};
+
+// ------------------------------
+// SubmitScore Component
+// ------------------------------
+/**
+ * Nickname field and button that post a finished game to the leaderboard,
+ * then show the rank it reached. The nickname is remembered for next time.
+ */
+const SubmitScore: React.FC<SubmitScoreProps> = ({ buildSubmission, className = "" }) => {
+  const [nickname, setNickname] = useState<string>(() => loadNickname());
+  const [sending, setSending] = useState<boolean>(false);
+  const [entry, setEntry] = useState<RankedEntry | null>(null);
+  // Problems the server reported with the submission
+  const [errors, setErrors] = useState<string[]>([]);
+
+  /**
+   * Sends the score and shows the result or the reasons it was rejected.
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    setErrors([]);
+    saveNickname(nickname.trim());
+    try {
+      setEntry(await submitScore(buildSubmission(nickname)));
+    } catch (error) {
+      setErrors(
+        error instanceof LeaderboardError
+          ? error.issues
+          : [error instanceof Error ? error.message : String(error)]
+      );
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (entry) {
+    return (
+      <p className={`font-bold text-center ${className}`}>
+        Ranked #{entry.rank} as {entry.nickname}!{" "}
+        <Link href={`/leaderboard/${entry.game}`} className="underline">
+          View leaderboard
+        </Link>
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className={`flex flex-col items-center font-bold ${className}`}>
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={nickname}
+          onChange={(e) => setNickname(e.target.value)}
+          maxLength={MAX_NICKNAME_LENGTH}
+          placeholder="Nickname"
+          aria-label="Nickname"
+          className="text-black rounded px-2 py-1"
+        />
+        <button
+          type="submit"
+          disabled={sending || nickname.trim().length === 0}
+          className="px-3 py-1 bg-white text-black rounded disabled:opacity-40"
+        >
+          {sending ? "Sending…" : "Submit Score"}
+        </button>
+      </div>
+      {errors.length > 0 && (
+        <div className="bg-red-100 border-4 border-red-600 rounded-lg p-3 text-red-800 text-sm mt-2">
+          <p className="font-bold">The score was not accepted:</p>
+          <ul className="list-disc list-inside">
+            {errors.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default SubmitScore;
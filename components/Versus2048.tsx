@@ -0,0 +1,386 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  getMaxTile,
+  parseConfig,
+  Direction,
+  GameConfig,
+  MAX_GRID_SIZE,
+  MIN_GRID_SIZE,
+} from "../lib/game2048/engine";
+import { CANVAS_SIZE, drawBoard } from "../lib/game2048/render";
+import { drawAnimationFrame, prefersReducedMotion, ANIMATION_DURATION } from "../lib/game2048/animation";
+import { useDirectionInput, ARROW_KEYS, WASD_KEYS, KeyMap } from "../lib/game2048/input";
+import {
+  createVersusPlayers,
+  getVersusResult,
+  playVersusMove,
+  VersusPlayer,
+  VersusPlayers,
+  DEFAULT_VERSUS_DURATION,
+  GARBAGE_TILE,
+  VERSUS_DURATIONS,
+} from "../lib/game2048/versus";
+import { formatDuration } from "../lib/format";
+import { randomSeed } from "../lib/random";
+import GameShell from "./GameShell";
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Board sizes offered in the settings
+const SIZE_OPTIONS = Array.from(
+  { length: MAX_GRID_SIZE - MIN_GRID_SIZE + 1 },
+  (_, i) => MIN_GRID_SIZE + i
+);
+// How often the match clock ticks, in milliseconds
+const CLOCK_INTERVAL = 100;
+// Keys, gamepad and name of each player
+const PLAYERS: { name: string; keys: KeyMap; keyLabel: string; gamepadIndex: number }[] = [
+  { name: "Player 1", keys: WASD_KEYS, keyLabel: "WASD", gamepadIndex: 0 },
+  { name: "Player 2", keys: ARROW_KEYS, keyLabel: "Arrow keys", gamepadIndex: 1 },
+];
+
+/**
+ * Match phases: waiting for the players, running, or showing the results.
+ */
+type Phase = "ready" | "playing" | "finished";
+
+/**
+ * Props for PlayerBoard.
+ * - index: Which player (0 or 1); picks the keys, gamepad and name.
+ * - player: The player's side of the match.
+ * - enabled: Whether input is accepted.
+ * - onMove: Called with the player's index and a direction.
+ */
+type PlayerBoardProps = {
+  index: 0 | 1;
+  player: VersusPlayer;
+  enabled: boolean;
+  onMove: (index: 0 | 1, direction: Direction) => void;
+};
+
+// ------------------------------
+// PlayerBoard Component
+// ------------------------------
+/**
+ * One player's board: name, keys, score and the animated canvas. Listens
+ * only to that player's keys and gamepad.
+ */
+const PlayerBoard: React.FC<PlayerBoardProps> = ({ index, player, enabled, onMove }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const info = PLAYERS[index];
+  const { board, score, over } = player.state;
+
+  // Draw the board, animating the last move unless the user prefers reduced motion
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    if (player.events.length === 0 || prefersReducedMotion()) {
+      drawBoard(ctx, board);
+      return;
+    }
+    let frameId = 0;
+    const start = performance.now();
+    const frame = (now: number) => {
+      const progress = Math.min((now - start) / ANIMATION_DURATION, 1);
+      drawAnimationFrame(ctx, board, player.events, progress);
+      if (progress < 1) frameId = requestAnimationFrame(frame);
+    };
+    frameId = requestAnimationFrame(frame);
+    return () => cancelAnimationFrame(frameId);
+  }, [board, player.events]);
+
+  useDirectionInput((direction) => onMove(index, direction), {
+    swipeTarget: canvasRef,
+    enabled: enabled && !over,
+    keys: info.keys,
+    gamepadIndex: info.gamepadIndex,
+  });
+
+  return (
+    <div className="flex flex-col items-center space-y-2">
+      <div
+        style={{ backgroundColor: "#312626" }} // Explicit color setting
+        className="flex items-center space-x-4 rounded-lg px-4 py-2 text-white"
+      >
+        <div>
+          <p className="font-bold">{info.name}</p>
+          <p className="text-xs">{info.keyLabel}</p>
+        </div>
+        <div className="bg-[#bbada0] text-center px-3 py-1 rounded-md">
+          <p className="text-xs uppercase font-bold">Score</p>
+          <p className="text-xl font-bold">{score}</p>
+        </div>
+        <div className="bg-[#bbada0] text-center px-3 py-1 rounded-md">
+          <p className="text-xs uppercase font-bold">Tile</p>
+          <p className="text-xl font-bold">{getMaxTile(board)}</p>
+        </div>
+      </div>
+      <div className="relative inline-block rounded-lg overflow-hidden">
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_SIZE}
+          height={CANVAS_SIZE}
+          className="border-8 border-gray-800 rounded-lg block touch-none"
+        />
+        {/* Out overlay: this board is stuck, the other player plays on */}
+        {over && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-60 rounded-lg">
+            <h2 className="text-4xl font-bold text-white">Stuck!</h2>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// ------------------------------
+// Versus2048 Component
+// ------------------------------
+/**
+ * Local two-player 2048: two boards from the same seed side by side,
+ * player one on WASD and player two on the arrow keys, racing a countdown.
+ * With the garbage rule on, merging a big tile drops a blocked cell on the
+ * opponent's board. When time runs out (or both boards are stuck) the
+ * results compare the scores and highest tiles.
+ */
+const Versus2048: React.FC = () => {
+  // Match settings
+  const [config, setConfig] = useState<GameConfig>(() => parseConfig({}));
+  const [duration, setDuration] = useState<number>(DEFAULT_VERSUS_DURATION);
+  const [garbage, setGarbage] = useState<boolean>(true);
+
+  // Match state
+  const [seed, setSeed] = useState<string>(() => randomSeed());
+  const [players, setPlayers] = useState<VersusPlayers>(() => createVersusPlayers(seed, config));
+  const [phase, setPhase] = useState<Phase>("ready");
+  const [timeLeft, setTimeLeft] = useState<number>(duration);
+  const [paused, setPaused] = useState<boolean>(false);
+
+  const running = phase === "playing" && !paused;
+  const bothStuck = players.every((player) => player.state.over);
+
+  // Count the clock down while the match runs
+  useEffect(() => {
+    if (!running) return;
+    let last = performance.now();
+    const timer = setInterval(() => {
+      const now = performance.now();
+      setTimeLeft((prev) => Math.max(0, prev - (now - last)));
+      last = now;
+    }, CLOCK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  // The match ends when time runs out or neither player can move
+  useEffect(() => {
+    if (phase === "playing" && (timeLeft === 0 || bothStuck)) setPhase("finished");
+  }, [phase, timeLeft, bothStuck]);
+
+  /**
+   * Plays a move for one player; the update is functional so both players
+   * can move in the same frame.
+   */
+  const handleMove = useCallback(
+    (index: 0 | 1, direction: Direction) => {
+      setPlayers((prev) => playVersusMove(prev, index, direction, garbage));
+    },
+    [garbage]
+  );
+
+  /**
+   * Sets up a new match with the given settings and seed, waiting for the
+   * players to start it.
+   */
+  const resetMatch = (nextSeed: string, nextConfig: GameConfig, nextDuration: number) => {
+    setSeed(nextSeed);
+    setPlayers(createVersusPlayers(nextSeed, nextConfig));
+    setTimeLeft(nextDuration);
+    setPhase("ready");
+    setPaused(false);
+  };
+
+  /**
+   * Changes the board size and sets up a new match.
+   */
+  const changeSize = (size: number) => {
+    const next = { ...config, size };
+    setConfig(next);
+    resetMatch(seed, next, duration);
+  };
+
+  /**
+   * Changes the match length and sets up a new match.
+   */
+  const changeDuration = (value: number) => {
+    setDuration(value);
+    resetMatch(seed, config, value);
+  };
+
+  const result = phase === "finished" ? getVersusResult(players) : null;
+
+  // Board size, match length and garbage settings (shown in the shell's settings panel)
+  const settings = (
+    <div className="flex space-x-2 text-white text-xs font-bold">
+      <label className="flex flex-col items-center">
+        Size
+        <select
+          value={config.size}
+          onChange={(e) => changeSize(Number(e.target.value))}
+          className="text-black rounded"
+        >
+          {SIZE_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {option}x{option}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col items-center">
+        Time
+        <select
+          value={duration}
+          onChange={(e) => changeDuration(Number(e.target.value))}
+          className="text-black rounded"
+        >
+          {VERSUS_DURATIONS.map((option) => (
+            <option key={option} value={option}>
+              {formatDuration(option)}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col items-center" title={`Merging a ${GARBAGE_TILE} tile or bigger blocks a cell on the other board`}>
+        Garbage
+        <input type="checkbox" checked={garbage} onChange={(e) => setGarbage(e.target.checked)} />
+      </label>
+    </div>
+  );
+
+  // ------------------------------
+  // JSX Return (Render)
+  // ------------------------------
+  return (
+    <GameShell
+      gameId="2048"
+      mode="versus"
+      title="2048 Versus"
+      tagline="Two players, one keyboard"
+      paused={paused}
+      onTogglePause={phase === "playing" ? () => setPaused((prev) => !prev) : undefined}
+      onRestart={() => resetMatch(randomSeed(), config, duration)}
+      settings={settings}
+    >
+      <div className="relative flex flex-col items-center border-4 p-6 border-black rounded-lg bg-gradient-to-br from-blue-500 to-purple-600">
+        {/* Match clock and seed */}
+        <div
+          style={{ backgroundColor: "#312626" }} // Explicit color setting
+          className="text-white rounded-lg px-6 py-2 mb-4 text-center"
+        >
+          <p className="text-xs uppercase font-bold">Time left</p>
+          <p className="text-3xl font-bold font-mono">{formatDuration(Math.ceil(timeLeft / 1000) * 1000)}</p>
+          <p className="text-xs">
+            Seed: <span className="font-mono font-bold">{seed}</span>
+            {garbage && <> · Garbage on</>}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-6">
+          <PlayerBoard index={0} player={players[0]} enabled={running} onMove={handleMove} />
+          <PlayerBoard index={1} player={players[1]} enabled={running} onMove={handleMove} />
+        </div>
+
+        {/* Start overlay: explains the keys and starts the clock */}
+        {phase === "ready" && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-black bg-opacity-60 rounded-lg text-white text-center">
+            <p className="font-bold mb-2">
+              {PLAYERS[0].name}: {PLAYERS[0].keyLabel} · {PLAYERS[1].name}: {PLAYERS[1].keyLabel}
+            </p>
+            <p className="text-sm mb-4">
+              Both boards start the same. Highest score after {formatDuration(duration)} wins!
+            </p>
+            <button
+              onClick={() => setPhase("playing")}
+              style={{ backgroundColor: "#312626" }} // Explicit color setting
+              className="text-white border-solid border-black border-4 rounded-lg px-4 shadow-md transition duration-200 font-bold text-lg hover:bg-orange-500 mx-2 my-2"
+            >
+              Start
+            </button>
+          </div>
+        )}
+        {/* Pause overlay: the clock and both boards wait until the match is resumed */}
+        {paused && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-60 rounded-lg">
+            <h2 className="text-4xl font-bold text-white">Paused</h2>
+          </div>
+        )}
+        {/* Results: scores and highest tiles side by side */}
+        {result && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-yellow-400 bg-opacity-80 rounded-lg">
+            <h2
+              style={{
+                fontSize: "4rem",
+                color: "#312626",
+                textShadow: "4px 4px 2px rgba(0, 0, 0, 0.6)", // Black shadow
+              }}
+              className="text-4xl font-bold text-white mb-2"
+            >
+              {result.winner === null ? "Draw!" : `${PLAYERS[result.winner].name} Wins!`}
+            </h2>
+            <table className="bg-white border-4 border-black rounded-lg text-[#312626] mb-4">
+              <thead>
+                <tr>
+                  <th className="px-4 py-1" />
+                  {PLAYERS.map((info) => (
+                    <th key={info.name} className="px-4 py-1">
+                      {info.name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <th className="px-4 py-1 text-left">Score</th>
+                  {result.players.map((player, i) => (
+                    <td key={i} className="px-4 py-1 text-center font-bold">
+                      {player.score}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <th className="px-4 py-1 text-left">Highest tile</th>
+                  {result.players.map((player, i) => (
+                    <td key={i} className="px-4 py-1 text-center font-bold">
+                      {player.maxTile}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+            <div className="flex">
+              <button
+                onClick={() => resetMatch(seed, config, duration)}
+                style={{ backgroundColor: "#312626" }} // Explicit color setting
+                className="text-white border-solid border-black border-4 rounded-lg px-4 shadow-md transition duration-200 font-bold text-lg hover:bg-orange-500 mx-2 my-2"
+              >
+                Rematch
+              </button>
+              <button
+                onClick={() => resetMatch(randomSeed(), config, duration)}
+                style={{ backgroundColor: "#312626" }} // Explicit color setting
+                className="text-white border-solid border-black border-4 rounded-lg px-4 shadow-md transition duration-200 font-bold text-lg hover:bg-orange-500 mx-2 my-2"
+              >
+                New Match
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </GameShell>
+  );
+};
+
+export default Versus2048;
@@ -0,0 +1,293 @@
+// ------------------------------
+// Audio Manager
+// ------------------------------
+// Sound effects and music for both games, synthesized with the Web Audio
+// API so no audio files are needed. Browsers only allow audio after a user
+// gesture, so the AudioContext is created by `unlock` on the first input;
+// sounds played before that are skipped and requested music starts then.
+
+import { useEffect, useState } from "react";
+import { loadAudioSettings, saveAudioSettings, AudioSettings } from "./storage";
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/** Identifiers of the sound effects. */
+export type SoundId = "slide" | "merge" | "spawn" | "win" | "lose" | "flap" | "score" | "hit";
+
+/**
+ * Options for playing a sound.
+ * - value: Tile value of a merge; higher tiles sound higher.
+ * - delay: Seconds to wait before the sound starts.
+ */
+export type PlayOptions = {
+  value?: number;
+  delay?: number;
+};
+
+/**
+ * AudioManager is the shared audio engine (see getAudioManager).
+ */
+export type AudioManager = {
+  unlock: () => void;
+  play: (sound: SoundId, options?: PlayOptions) => void;
+  startMusic: () => void;
+  stopMusic: () => void;
+  getSettings: () => AudioSettings;
+  setSettings: (settings: AudioSettings) => void;
+  subscribe: (listener: (settings: AudioSettings) => void) => () => void;
+};
+
+/**
+ * Tone describes one synthesized note.
+ * - endFrequency: Frequency to glide to by the end of the note.
+ * - start / duration: When the note starts and how long it rings, in seconds.
+ */
+type Tone = {
+  frequency: number;
+  endFrequency?: number;
+  type: OscillatorType;
+  start: number;
+  duration: number;
+  gain: number;
+};
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Volume of the background loop relative to the effects
+const MUSIC_GAIN = 0.25;
+// Highest pitch a merge can reach, in Hz
+const MAX_MERGE_FREQUENCY = 2000;
+// Background loop: 120 BPM eighth notes over a pentatonic figure
+const MUSIC_STEP = 0.25;
+const MUSIC_MELODY = [523, 659, 784, 659, 880, 784, 659, 587, 523, 587, 659, 784, 659, 587, 523, 392];
+const MUSIC_BASS = [131, 131, 175, 196];
+// Events that count as a user gesture for unlocking audio
+const UNLOCK_EVENTS = ["pointerdown", "keydown", "touchstart"];
+
+// ------------------------------
+// Synthesis
+// ------------------------------
+
+/**
+ * Plays a note with a short attack and an exponential decay.
+ */
+const playTone = (ctx: AudioContext, output: AudioNode, tone: Tone) => {
+  const oscillator = ctx.createOscillator();
+  const envelope = ctx.createGain();
+  const start = ctx.currentTime + tone.start;
+  const end = start + tone.duration;
+  oscillator.type = tone.type;
+  oscillator.frequency.setValueAtTime(tone.frequency, start);
+  if (tone.endFrequency) oscillator.frequency.exponentialRampToValueAtTime(tone.endFrequency, end);
+  envelope.gain.setValueAtTime(0.0001, start);
+  envelope.gain.exponentialRampToValueAtTime(tone.gain, start + 0.005);
+  envelope.gain.exponentialRampToValueAtTime(0.0001, end);
+  oscillator.connect(envelope).connect(output);
+  oscillator.start(start);
+  oscillator.stop(end + 0.01);
+};
+
+/**
+ * Plays a burst of low-passed white noise (whooshes and crashes).
+ */
+const playNoise = (
+  ctx: AudioContext,
+  output: AudioNode,
+  noise: { start: number; duration: number; gain: number; cutoff: number }
+) => {
+  const length = Math.ceil(ctx.sampleRate * noise.duration);
+  const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < length; i++) data[i] = (Math.random() * 2 - 1) * (1 - i / length);
+  const source = ctx.createBufferSource();
+  const filter = ctx.createBiquadFilter();
+  const envelope = ctx.createGain();
+  source.buffer = buffer;
+  filter.type = "lowpass";
+  filter.frequency.value = noise.cutoff;
+  envelope.gain.value = noise.gain;
+  source.connect(filter).connect(envelope).connect(output);
+  source.start(ctx.currentTime + noise.start);
+};
+
+/**
+ * Returns the pitch of a merge: each doubling of the tile raises it by a
+ * quarter octave, up to MAX_MERGE_FREQUENCY.
+ */
+export const getMergeFrequency = (value: number): number =>
+  Math.min(220 * 2 ** (Math.log2(Math.max(value, 2)) / 4), MAX_MERGE_FREQUENCY);
+
+/**
+ * Recipes for every sound effect. `delay` is added to each part's start.
+ */
+const SOUNDS: { [id in SoundId]: (ctx: AudioContext, output: AudioNode, delay: number, value: number) => void } = {
+  slide: (ctx, output, delay) =>
+    playNoise(ctx, output, { start: delay, duration: 0.08, gain: 0.2, cutoff: 1200 }),
+  merge: (ctx, output, delay, value) => {
+    const frequency = getMergeFrequency(value);
+    playTone(ctx, output, { frequency, type: "triangle", start: delay, duration: 0.15, gain: 0.3 });
+    playTone(ctx, output, { frequency: frequency * 2, type: "sine", start: delay, duration: 0.1, gain: 0.1 });
+  },
+  spawn: (ctx, output, delay) =>
+    playTone(ctx, output, { frequency: 880, endFrequency: 1320, type: "sine", start: delay, duration: 0.05, gain: 0.08 }),
+  win: (ctx, output, delay) =>
+    [523, 659, 784, 1047].forEach((frequency, i) =>
+      playTone(ctx, output, { frequency, type: "square", start: delay + i * 0.1, duration: 0.2, gain: 0.15 })
+    ),
+  lose: (ctx, output, delay) =>
+    [392, 311, 262].forEach((frequency, i) =>
+      playTone(ctx, output, { frequency, type: "triangle", start: delay + i * 0.18, duration: 0.3, gain: 0.25 })
+    ),
+  flap: (ctx, output, delay) =>
+    playTone(ctx, output, { frequency: 400, endFrequency: 800, type: "sine", start: delay, duration: 0.08, gain: 0.2 }),
+  score: (ctx, output, delay) => {
+    playTone(ctx, output, { frequency: 988, type: "square", start: delay, duration: 0.08, gain: 0.12 });
+    playTone(ctx, output, { frequency: 1319, type: "square", start: delay + 0.07, duration: 0.15, gain: 0.12 });
+  },
+  hit: (ctx, output, delay) => {
+    playNoise(ctx, output, { start: delay, duration: 0.25, gain: 0.4, cutoff: 600 });
+    playTone(ctx, output, { frequency: 150, endFrequency: 50, type: "sine", start: delay, duration: 0.3, gain: 0.4 });
+  },
+};
+
+/**
+ * Renders the background loop into a buffer: a plucked melody over a bass
+ * note per beat.
+ */
+const createMusicBuffer = (ctx: AudioContext): AudioBuffer => {
+  const rate = ctx.sampleRate;
+  const stepLength = Math.round(MUSIC_STEP * rate);
+  const buffer = ctx.createBuffer(1, stepLength * MUSIC_MELODY.length, rate);
+  const data = buffer.getChannelData(0);
+  MUSIC_MELODY.forEach((frequency, step) => {
+    const bass = MUSIC_BASS[Math.floor(step / 4) % MUSIC_BASS.length];
+    for (let i = 0; i < stepLength; i++) {
+      const t = i / rate;
+      const decay = Math.exp(-t * 8);
+      data[step * stepLength + i] =
+        0.5 * decay * Math.sin(2 * Math.PI * frequency * t) +
+        (step % 2 === 0 ? 0.3 * Math.exp(-t * 12) * Math.sin(2 * Math.PI * bass * t) : 0);
+    }
+  });
+  return buffer;
+};
+
+// ------------------------------
+// Manager
+// ------------------------------
+
+/**
+ * Creates an audio manager. Nothing touches the Web Audio API until
+ * `unlock` runs, so it is safe to create during server rendering.
+ */
+export const createAudioManager = (): AudioManager => {
+  let settings = loadAudioSettings();
+  let ctx: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let music: AudioBufferSourceNode | null = null;
+  let musicBuffer: AudioBuffer | null = null;
+  // True while a game wants the background loop (started once unlocked)
+  let musicWanted = false;
+  const listeners = new Set<(settings: AudioSettings) => void>();
+
+  const applyVolume = () => {
+    if (ctx && master) master.gain.setTargetAtTime(settings.muted ? 0 : settings.volume, ctx.currentTime, 0.02);
+  };
+
+  const playMusic = () => {
+    if (!ctx || !master || music) return;
+    musicBuffer = musicBuffer ?? createMusicBuffer(ctx);
+    const gain = ctx.createGain();
+    gain.gain.value = MUSIC_GAIN;
+    music = ctx.createBufferSource();
+    music.buffer = musicBuffer;
+    music.loop = true;
+    music.connect(gain).connect(master);
+    music.start();
+  };
+
+  return {
+    unlock: () => {
+      if (typeof window === "undefined") return;
+      if (!ctx) {
+        const AudioContextClass =
+          window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+        if (!AudioContextClass) return;
+        ctx = new AudioContextClass();
+        master = ctx.createGain();
+        master.connect(ctx.destination);
+        master.gain.value = settings.muted ? 0 : settings.volume;
+      }
+      if (ctx.state === "suspended") ctx.resume().catch(() => {});
+      if (musicWanted) playMusic();
+    },
+    play: (sound, options = {}) => {
+      if (!ctx || !master || ctx.state === "closed" || settings.muted) return;
+      SOUNDS[sound](ctx, master, options.delay ?? 0, options.value ?? 2);
+    },
+    startMusic: () => {
+      musicWanted = true;
+      playMusic();
+    },
+    stopMusic: () => {
+      musicWanted = false;
+      music?.stop();
+      music = null;
+    },
+    getSettings: () => settings,
+    setSettings: (next) => {
+      settings = { muted: next.muted, volume: Math.min(Math.max(next.volume, 0), 1) };
+      applyVolume();
+      saveAudioSettings(settings);
+      listeners.forEach((listener) => listener(settings));
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+// Shared manager, created on first use
+let sharedManager: AudioManager | null = null;
+
+/**
+ * Returns the audio manager shared by every game on the page.
+ */
+export const getAudioManager = (): AudioManager => {
+  sharedManager = sharedManager ?? createAudioManager();
+  return sharedManager;
+};
+
+// ------------------------------
+// useAudio Hook
+// ------------------------------
+
+/**
+ * Returns the shared audio manager and its current settings, and unlocks
+ * audio on the first pointer, key or touch input.
+ */
+export const useAudio = (): {
+  audio: AudioManager;
+  settings: AudioSettings;
+  setSettings: (settings: AudioSettings) => void;
+} => {
+  const audio = getAudioManager();
+  const [settings, setSettingsState] = useState<AudioSettings>(audio.getSettings);
+
+  useEffect(() => audio.subscribe(setSettingsState), [audio]);
+
+  useEffect(() => {
+    const unlock = () => audio.unlock();
+    UNLOCK_EVENTS.forEach((event) => window.addEventListener(event, unlock));
+    return () => UNLOCK_EVENTS.forEach((event) => window.removeEventListener(event, unlock));
+  }, [audio]);
+
+  return { audio, settings, setSettings: audio.setSettings };
+};
@@ -0,0 +1,115 @@
+// ------------------------------
+// Canvas Capture Helpers
+// ------------------------------
+// Browser-only helpers for saving what a game draws: a PNG screenshot of a
+// single frame, or an animated GIF of many frames. Frames are drawn on an
+// offscreen canvas with the game's own drawing functions, so exports do not
+// depend on what the page is showing at the moment.
+
+import { createGifEncoder } from "./gif";
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/**
+ * Settings for renderGif.
+ * - frames: What to draw, one entry per frame.
+ * - width / height: Size of the drawing, before scaling.
+ * - scale: Size of the GIF relative to the drawing (default 1).
+ * - draw: Draws one frame on a canvas scaled to `width` x `height`.
+ * - delayMs: How long each frame is shown.
+ * - lastDelayMs: How long the last frame is held before the loop restarts.
+ * - onProgress: Called with the share of frames rendered (0 to 1).
+ */
+export type GifSettings<T> = {
+  frames: T[];
+  width: number;
+  height: number;
+  scale?: number;
+  draw: (ctx: CanvasRenderingContext2D, frame: T) => void;
+  delayMs: number;
+  lastDelayMs?: number;
+  onProgress?: (progress: number) => void;
+};
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Frames rendered between pauses that let the page update (progress, input)
+const FRAMES_PER_BATCH = 5;
+
+// ------------------------------
+// Helpers
+// ------------------------------
+
+/**
+ * Creates an offscreen canvas and its 2D context.
+ */
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("This browser cannot draw on a canvas.");
+  return { canvas, ctx };
+};
+
+/**
+ * Picks at most `max` evenly spread items, always keeping the first and
+ * the last one.
+ */
+export const pickFrames = <T>(items: T[], max: number): T[] => {
+  if (items.length <= max) return items;
+  return Array.from({ length: max }, (_, i) => items[Math.round((i * (items.length - 1)) / (max - 1))]);
+};
+
+// ------------------------------
+// Screenshots
+// ------------------------------
+
+/**
+ * Draws one frame of `width` x `height` pixels and returns it as a PNG.
+ */
+export const renderPng = (
+  width: number,
+  height: number,
+  draw: (ctx: CanvasRenderingContext2D) => void
+): Promise<Blob> => {
+  const { canvas, ctx } = createCanvas(width, height);
+  draw(ctx);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not create the PNG."))), "image/png");
+  });
+};
+
+// ------------------------------
+// Animated GIFs
+// ------------------------------
+
+/**
+ * Draws every frame and encodes them as a looping GIF. Rendering pauses
+ * every few frames so the page stays responsive and can show progress.
+ */
+export const renderGif = async <T>(settings: GifSettings<T>): Promise<Blob> => {
+  const { frames, draw, delayMs, onProgress } = settings;
+  const scale = settings.scale ?? 1;
+  const width = Math.round(settings.width * scale);
+  const height = Math.round(settings.height * scale);
+  const { ctx } = createCanvas(width, height);
+  const encoder = createGifEncoder(width, height);
+
+  for (let i = 0; i < frames.length; i++) {
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    draw(ctx, frames[i]);
+    const last = i === frames.length - 1;
+    encoder.addFrame(ctx.getImageData(0, 0, width, height).data, last ? (settings.lastDelayMs ?? delayMs) : delayMs);
+    if (i % FRAMES_PER_BATCH === FRAMES_PER_BATCH - 1) {
+      onProgress?.((i + 1) / frames.length);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+  onProgress?.(1);
+  return new Blob([encoder.finish()], { type: "image/gif" });
+};
@@ -0,0 +1,141 @@
+// ------------------------------
+// Canvas Charts
+// ------------------------------
+// Small bar and line charts for the stats page, drawn straight onto a
+// canvas so no charting library is needed.
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/**
+ * Bar is one bar of a bar chart.
+ */
+export type Bar = {
+  label: string;
+  value: number;
+};
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Space around the plot for the axis labels
+const PADDING = { top: 16, right: 12, bottom: 28, left: 44 };
+const AXIS_COLOR = "#776e65";
+const BAR_COLOR = "#f97316";
+const LINE_COLOR = "#312626";
+const FONT = "11px Arial";
+
+// ------------------------------
+// Helpers
+// ------------------------------
+
+/**
+ * Clears the canvas and draws the axes with the maximum value on the
+ * vertical one. Returns the plot area.
+ */
+const drawAxes = (ctx: CanvasRenderingContext2D, max: number) => {
+  const { width, height } = ctx.canvas;
+  const plot = {
+    x: PADDING.left,
+    y: PADDING.top,
+    width: width - PADDING.left - PADDING.right,
+    height: height - PADDING.top - PADDING.bottom,
+  };
+  ctx.clearRect(0, 0, width, height);
+  ctx.strokeStyle = AXIS_COLOR;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(plot.x, plot.y);
+  ctx.lineTo(plot.x, plot.y + plot.height);
+  ctx.lineTo(plot.x + plot.width, plot.y + plot.height);
+  ctx.stroke();
+
+  ctx.fillStyle = AXIS_COLOR;
+  ctx.font = FONT;
+  ctx.textAlign = "right";
+  ctx.textBaseline = "middle";
+  ctx.fillText(String(max), plot.x - 4, plot.y);
+  ctx.fillText("0", plot.x - 4, plot.y + plot.height);
+  return plot;
+};
+
+/**
+ * Prints a message in the middle of an empty chart.
+ */
+const drawEmpty = (ctx: CanvasRenderingContext2D, message: string) => {
+  const { width, height } = ctx.canvas;
+  ctx.clearRect(0, 0, width, height);
+  ctx.fillStyle = AXIS_COLOR;
+  ctx.font = FONT;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(message, width / 2, height / 2);
+};
+
+// ------------------------------
+// Charts
+// ------------------------------
+
+/**
+ * Draws a bar chart with a label under each bar.
+ */
+export const drawBarChart = (ctx: CanvasRenderingContext2D, bars: Bar[]) => {
+  const max = Math.max(0, ...bars.map((bar) => bar.value));
+  if (max === 0) {
+    drawEmpty(ctx, "No games yet");
+    return;
+  }
+  const plot = drawAxes(ctx, max);
+  const slot = plot.width / bars.length;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "top";
+  bars.forEach((bar, i) => {
+    const height = (bar.value / max) * plot.height;
+    const x = plot.x + i * slot;
+    ctx.fillStyle = BAR_COLOR;
+    ctx.fillRect(x + slot * 0.1, plot.y + plot.height - height, slot * 0.8, height);
+    ctx.fillStyle = AXIS_COLOR;
+    ctx.fillText(bar.label, x + slot / 2, plot.y + plot.height + 6);
+  });
+};
+
+/**
+ * Draws a line chart of values in order, with a dot on each point.
+ */
+export const drawLineChart = (ctx: CanvasRenderingContext2D, values: number[]) => {
+  const max = Math.max(0, ...values);
+  if (values.length === 0) {
+    drawEmpty(ctx, "No games yet");
+    return;
+  }
+  const plot = drawAxes(ctx, max);
+  const pointAt = (value: number, i: number) => ({
+    x: plot.x + (values.length === 1 ? plot.width / 2 : (i / (values.length - 1)) * plot.width),
+    y: plot.y + plot.height - (max === 0 ? 0 : (value / max) * plot.height),
+  });
+
+  ctx.strokeStyle = LINE_COLOR;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  values.forEach((value, i) => {
+    const { x, y } = pointAt(value, i);
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  ctx.stroke();
+  ctx.fillStyle = BAR_COLOR;
+  values.forEach((value, i) => {
+    const { x, y } = pointAt(value, i);
+    ctx.beginPath();
+    ctx.arc(x, y, 2.5, 0, Math.PI * 2);
+    ctx.fill();
+  });
+
+  ctx.fillStyle = AXIS_COLOR;
+  ctx.font = FONT;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "top";
+  ctx.fillText(`Last ${values.length} games`, plot.x + plot.width / 2, plot.y + plot.height + 6);
+};
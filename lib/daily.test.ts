@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDays,
+  addMonths,
+  formatShareText,
+  getCalendarMonth,
+  getDailyDate,
+  getDailySeed,
+  getStreak,
+  DailyResults,
+} from "./daily";
+
+const result = { score: 100, playedAt: "2025-03-01T10:00:00.000Z" };
+
+/**
+ * Returns results for each of the given dates.
+ */
+const resultsOn = (...dates: string[]): DailyResults =>
+  Object.fromEntries(dates.map((date) => [date, result]));
+
+describe("dates", () => {
+  it("follow UTC", () => {
+    expect(getDailyDate(new Date("2025-03-01T23:30:00-05:00"))).toBe("2025-03-02");
+  });
+
+  it("cross months, leap days and years", () => {
+    expect(addDays("2024-02-28", 1)).toBe("2024-02-29");
+    expect(addDays("2025-03-01", -1)).toBe("2025-02-28");
+    expect(addDays("2024-12-31", 1)).toBe("2025-01-01");
+    expect(addMonths("2025-01", -1)).toBe("2024-12");
+    expect(addMonths("2025-11", 3)).toBe("2026-02");
+  });
+
+  it("give each game its own seed per day", () => {
+    expect(getDailySeed("2048", "2025-03-01")).not.toBe(getDailySeed("flappyBird", "2025-03-01"));
+    expect(getDailySeed("2048", "2025-03-01")).not.toBe(getDailySeed("2048", "2025-03-02"));
+  });
+});
+
+describe("getStreak", () => {
+  it("counts consecutive days ending today", () => {
+    expect(getStreak(resultsOn("2025-02-27", "2025-02-28", "2025-03-01"), "2025-03-01")).toBe(3);
+  });
+
+  it("keeps yesterday's streak until today is played", () => {
+    expect(getStreak(resultsOn("2025-02-27", "2025-02-28"), "2025-03-01")).toBe(2);
+  });
+
+  it("stops at a missed day", () => {
+    expect(getStreak(resultsOn("2025-02-26", "2025-02-28", "2025-03-01"), "2025-03-01")).toBe(2);
+    expect(getStreak(resultsOn("2025-02-27"), "2025-03-01")).toBe(0);
+    expect(getStreak({}, "2025-03-01")).toBe(0);
+  });
+});
+
+describe("getCalendarMonth", () => {
+  it("starts on Monday and lists every day of the month", () => {
+    // March 2025 starts on a Saturday
+    const cells = getCalendarMonth("2025-03", resultsOn("2025-03-02"));
+    expect(cells.slice(0, 5)).toEqual([null, null, null, null, null]);
+    expect(cells).toHaveLength(5 + 31);
+    expect(cells[5]).toEqual({ date: "2025-03-01", day: 1, result: null });
+    expect(cells[6]).toEqual({ date: "2025-03-02", day: 2, result });
+  });
+});
+
+describe("formatShareText", () => {
+  it("lists the details the game has", () => {
+    expect(formatShareText("2048", "2025-03-01", { ...result, maxTile: 512, moves: 301 }, 4)).toBe(
+      "Daily 2048 2025-03-01 · Score 100 · Best tile 512 · 301 moves · Streak 4"
+    );
+    expect(formatShareText("flappyBird", "2025-03-01", result, 1)).toBe(
+      "Daily Flappy Bird 2025-03-01 · Score 100 · Streak 1"
+    );
+  });
+});
@@ -0,0 +1,125 @@
+// ------------------------------
+// Daily Challenge
+// ------------------------------
+// Each game has one challenge per day, played from a seed derived from the
+// date, so everyone gets the same tile spawns and pipe layout. Days follow
+// UTC, so players in different time zones share the same challenge. Only
+// the first finished attempt of a day counts; its result feeds the streak,
+// the calendar and the share text.
+
+import { GameId } from "./storage";
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/**
+ * DailyResult is the scored attempt of one day.
+ * - maxTile / moves: Highest tile and number of moves (2048 only).
+ * - playedAt: ISO 8601 timestamp of the end of the attempt.
+ */
+export type DailyResult = {
+  score: number;
+  maxTile?: number;
+  moves?: number;
+  playedAt: string;
+};
+
+/** Daily results of one game, keyed by date ("YYYY-MM-DD"). */
+export type DailyResults = { [date: string]: DailyResult };
+
+/**
+ * CalendarDay is one cell of a month calendar (null cells pad the first week).
+ */
+export type CalendarDay = { date: string; day: number; result: DailyResult | null } | null;
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Names used in the share text
+const SHARE_TITLES: { [game in GameId]: string } = {
+  "2048": "2048",
+  flappyBird: "Flappy Bird",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ------------------------------
+// Dates and Seeds
+// ------------------------------
+
+/**
+ * Returns the challenge date of a moment as "YYYY-MM-DD" (UTC).
+ */
+export const getDailyDate = (now: Date = new Date()): string => now.toISOString().slice(0, 10);
+
+/**
+ * Returns the date `days` days after a "YYYY-MM-DD" date (negative for before).
+ */
+export const addDays = (date: string, days: number): string =>
+  getDailyDate(new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS));
+
+/**
+ * Returns the seed of a game's challenge on a date. It is the same for
+ * every player, and differs per game so the two challenges are unrelated.
+ */
+export const getDailySeed = (game: GameId, date: string): string => `daily-${game}-${date}`;
+
+// ------------------------------
+// Streaks and Calendar
+// ------------------------------
+
+/**
+ * Returns the number of consecutive days with a result, ending today (or
+ * yesterday, so a streak is not lost before today's challenge is played).
+ */
+export const getStreak = (results: DailyResults, today: string): number => {
+  let date = results[today] ? today : addDays(today, -1);
+  let streak = 0;
+  while (results[date]) {
+    streak++;
+    date = addDays(date, -1);
+  }
+  return streak;
+};
+
+/**
+ * Returns the cells of a month's calendar, Monday first, padded with null
+ * before the 1st. `month` is a "YYYY-MM" string.
+ */
+export const getCalendarMonth = (month: string, results: DailyResults): CalendarDay[] => {
+  const first = new Date(`${month}-01T00:00:00Z`);
+  const padding = (first.getUTCDay() + 6) % 7;
+  const cells: CalendarDay[] = Array(padding).fill(null);
+  for (let date = getDailyDate(first); date.startsWith(month); date = addDays(date, 1)) {
+    cells.push({ date, day: Number(date.slice(8)), result: results[date] ?? null });
+  }
+  return cells;
+};
+
+/**
+ * Returns the month `months` months after a "YYYY-MM" month.
+ */
+export const addMonths = (month: string, months: number): string => {
+  const date = new Date(`${month}-01T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return getDailyDate(date).slice(0, 7);
+};
+
+// ------------------------------
+// Sharing
+// ------------------------------
+
+/**
+ * Returns a short text summary of a day's result for sharing, e.g.
+ * "Daily 2048 2025-03-01 · Score 5120 · Best tile 512 · 301 moves · Streak 4".
+ */
+export const formatShareText = (game: GameId, date: string, result: DailyResult, streak: number): string =>
+  [
+    `Daily ${SHARE_TITLES[game]} ${date}`,
+    `Score ${result.score}`,
+    ...(result.maxTile !== undefined ? [`Best tile ${result.maxTile}`] : []),
+    ...(result.moves !== undefined ? [`${result.moves} moves`] : []),
+    `Streak ${streak}`,
+  ].join(" · ");
@@ -0,0 +1,45 @@
+// ------------------------------
+// File Import / Export Helpers
+// ------------------------------
+// Browser-only helpers for saving data as a downloaded file and reading a
+// file picked by the user.
+
+/**
+ * Saves text or binary content as a file download.
+ */
+export const downloadFile = (
+  filename: string,
+  content: string | Blob,
+  type: string = "application/json"
+) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Reads a user-selected file as text.
+ */
+export const readFileAsText = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error(`Could not read "${file.name}".`));
+    reader.readAsText(file);
+  });
+
+/**
+ * Formats a date as a compact timestamp for filenames, e.g. "20250301-142530".
+ */
+export const fileTimestamp = (date: Date = new Date()): string =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace("T", "-")
+    .slice(0, 15);
@@ -0,0 +1,127 @@
+// ------------------------------
+// Flappy Bird Assets
+// ------------------------------
+// Sprite sheets and background layers, loaded once by a preloader. Assets
+// that fail to load are left out, and the renderer falls back to drawing
+// plain shapes for them, so the game never depends on the images.
+
+import { useEffect, useState } from "react";
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/**
+ * SpriteFrame is a rectangle inside a sprite sheet, in sheet pixels.
+ */
+export type SpriteFrame = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+/** Identifiers of the loaded images. */
+export type AssetId = keyof typeof ASSET_SOURCES;
+
+/**
+ * GameAssets maps every asset to its loaded image, or null if it failed to
+ * load (the renderer then uses its fallback shapes).
+ */
+export type GameAssets = { [id in AssetId]: HTMLImageElement | null };
+
+// ------------------------------
+// Manifest
+// ------------------------------
+
+// Image files under /public
+export const ASSET_SOURCES = {
+  bird: '/flappyBird/bird.svg',
+  pipe: '/flappyBird/pipe.svg',
+  clouds: '/flappyBird/clouds.svg',
+  hills: '/flappyBird/hills.svg',
+  ground: '/flappyBird/ground.svg',
+};
+
+// Wing frames of the bird sheet (up, middle, down)
+export const BIRD_FRAMES: SpriteFrame[] = [
+  { x: 0, y: 0, width: 40, height: 30 },
+  { x: 40, y: 0, width: 40, height: 30 },
+  { x: 80, y: 0, width: 40, height: 30 },
+];
+// Pipe cap and the body slice that is stretched to the pipe's length
+export const PIPE_CAP: SpriteFrame = { x: 0, y: 0, width: 68, height: 24 };
+export const PIPE_BODY: SpriteFrame = { x: 4, y: 24, width: 60, height: 24 };
+
+// ------------------------------
+// Preloader
+// ------------------------------
+
+/**
+ * Loads one image. Resolves with null instead of rejecting when it fails.
+ */
+const loadImage = (src: string): Promise<HTMLImageElement | null> =>
+  new Promise((resolve) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = src;
+  });
+
+// Shared load, so switching between play and training does not reload
+let assetsPromise: Promise<GameAssets> | null = null;
+let loadedCount = 0;
+const progressListeners = new Set<(progress: number) => void>();
+
+/**
+ * Loads every asset (once per page). `onProgress` receives the fraction
+ * loaded so far, from 0 to 1.
+ */
+export const preloadAssets = (onProgress?: (progress: number) => void): Promise<GameAssets> => {
+  const ids = Object.keys(ASSET_SOURCES) as AssetId[];
+  if (onProgress) {
+    progressListeners.add(onProgress);
+    onProgress(loadedCount / ids.length);
+  }
+  if (!assetsPromise) {
+    assetsPromise = Promise.all(
+      ids.map((id) =>
+        loadImage(ASSET_SOURCES[id]).then((image) => {
+          loadedCount++;
+          progressListeners.forEach((listener) => listener(loadedCount / ids.length));
+          return [id, image] as const;
+        })
+      )
+    ).then((entries) => Object.fromEntries(entries) as GameAssets);
+  }
+  return assetsPromise.finally(() => {
+    if (onProgress) progressListeners.delete(onProgress);
+  });
+};
+
+// ------------------------------
+// useGameAssets Hook
+// ------------------------------
+
+/**
+ * Preloads the assets and returns them once ready (null while loading),
+ * along with the loading progress from 0 to 1.
+ */
+export const useGameAssets = (): { assets: GameAssets | null; progress: number } => {
+  const [assets, setAssets] = useState<GameAssets | null>(null);
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+    preloadAssets((value) => {
+      if (active) setProgress(value);
+    }).then((loaded) => {
+      if (active) setAssets(loaded);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return { assets, progress };
+};
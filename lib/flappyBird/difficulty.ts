@@ -0,0 +1,167 @@
+// ------------------------------
+// Flappy Bird Difficulty
+// ------------------------------
+// Difficulty rises in levels, driven by how long the run has lasted and
+// how many pipes have been passed. Each level speeds the pipes up, narrows
+// the gaps and widens the range of pipe spacings; from a preset-specific
+// level on, new pipes also move up and down. Presets set the starting
+// values and how quickly they change.
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/** Identifiers of the difficulty presets. */
+export type DifficultyId = 'easy' | 'normal' | 'hard';
+
+/**
+ * DifficultyPreset holds the tuning values of one preset.
+ * - secondsPerLevel / pointsPerLevel: Run time or score needed for each level.
+ * - baseSpeed / speedPerLevel / maxSpeed: Pipe speed in pixels per second.
+ * - baseGap / gapPerLevel / minGap: Vertical gap between pipes in pixels.
+ * - spacing / spacingJitterPerLevel / maxSpacingJitter: Horizontal distance
+ *   between pipe pairs, randomly varied by up to the jitter (a fraction).
+ * - movingFromLevel: First level at which new pipes move up and down.
+ * - moveAmplitude / moveSpeed: How far (pixels) and how fast (radians per
+ *   second) moving pipes oscillate.
+ */
+export type DifficultyPreset = {
+  id: DifficultyId;
+  label: string;
+  secondsPerLevel: number;
+  pointsPerLevel: number;
+  maxLevel: number;
+  baseSpeed: number;
+  speedPerLevel: number;
+  maxSpeed: number;
+  baseGap: number;
+  gapPerLevel: number;
+  minGap: number;
+  spacing: number;
+  spacingJitterPerLevel: number;
+  maxSpacingJitter: number;
+  movingFromLevel: number;
+  moveAmplitude: number;
+  moveSpeed: number;
+};
+
+// ------------------------------
+// Presets
+// ------------------------------
+
+export const DIFFICULTY_PRESETS: { [id in DifficultyId]: DifficultyPreset } = {
+  easy: {
+    id: 'easy',
+    label: 'Easy',
+    secondsPerLevel: 30,
+    pointsPerLevel: 10,
+    maxLevel: 8,
+    baseSpeed: 90,
+    speedPerLevel: 6,
+    maxSpeed: 140,
+    baseGap: 140,
+    gapPerLevel: 3,
+    minGap: 115,
+    spacing: 260,
+    spacingJitterPerLevel: 0.02,
+    maxSpacingJitter: 0.15,
+    movingFromLevel: 6,
+    moveAmplitude: 25,
+    moveSpeed: 1.2,
+  },
+  normal: {
+    id: 'normal',
+    label: 'Normal',
+    secondsPerLevel: 20,
+    pointsPerLevel: 8,
+    maxLevel: 10,
+    baseSpeed: 100,
+    speedPerLevel: 8,
+    maxSpeed: 180,
+    baseGap: 120,
+    gapPerLevel: 3,
+    minGap: 95,
+    spacing: 250,
+    spacingJitterPerLevel: 0.03,
+    maxSpacingJitter: 0.2,
+    movingFromLevel: 4,
+    moveAmplitude: 35,
+    moveSpeed: 1.5,
+  },
+  hard: {
+    id: 'hard',
+    label: 'Hard',
+    secondsPerLevel: 15,
+    pointsPerLevel: 6,
+    maxLevel: 12,
+    baseSpeed: 120,
+    speedPerLevel: 10,
+    maxSpeed: 220,
+    baseGap: 110,
+    gapPerLevel: 3,
+    minGap: 85,
+    spacing: 230,
+    spacingJitterPerLevel: 0.04,
+    maxSpacingJitter: 0.25,
+    movingFromLevel: 2,
+    moveAmplitude: 45,
+    moveSpeed: 2,
+  },
+};
+
+export const DIFFICULTY_IDS = Object.keys(DIFFICULTY_PRESETS) as DifficultyId[];
+export const DEFAULT_DIFFICULTY: DifficultyId = 'normal';
+
+/**
+ * Checks whether a value names a difficulty preset.
+ */
+export const isDifficultyId = (value: unknown): value is DifficultyId =>
+  typeof value === 'string' && value in DIFFICULTY_PRESETS;
+
+// ------------------------------
+// Curve
+// ------------------------------
+
+/**
+ * Returns the current level (0 at the start of a run).
+ * - elapsed: Run time in seconds.
+ * - score: Pipes passed so far.
+ */
+export const getLevel = (preset: DifficultyPreset, elapsed: number, score: number): number =>
+  Math.min(
+    Math.floor(elapsed / preset.secondsPerLevel) + Math.floor(score / preset.pointsPerLevel),
+    preset.maxLevel
+  );
+
+/**
+ * Returns the pipe speed in pixels per second at a level.
+ */
+export const getPipeSpeed = (preset: DifficultyPreset, level: number): number =>
+  Math.min(preset.baseSpeed + level * preset.speedPerLevel, preset.maxSpeed);
+
+/**
+ * Returns the vertical gap for pipes spawned at a level.
+ */
+export const getPipeGap = (preset: DifficultyPreset, level: number): number =>
+  Math.max(preset.baseGap - level * preset.gapPerLevel, preset.minGap);
+
+/**
+ * Returns the spacing before a pipe spawned at a level.
+ * `random` is a number in [0, 1) that picks where in the allowed range it falls.
+ */
+export const getPipeSpacing = (preset: DifficultyPreset, level: number, random: number): number => {
+  const jitter = Math.min(level * preset.spacingJitterPerLevel, preset.maxSpacingJitter);
+  return preset.spacing * (1 + jitter * (random * 2 - 1));
+};
+
+/**
+ * Returns the smallest spacing a preset can ever produce.
+ */
+export const getMinSpacing = (preset: DifficultyPreset): number =>
+  preset.spacing * (1 - preset.maxSpacingJitter);
+
+/**
+ * Returns how far pipes spawned at a level move up and down (0 = static).
+ */
+export const getMoveAmplitude = (preset: DifficultyPreset, level: number): number =>
+  level >= preset.movingFromLevel ? preset.moveAmplitude : 0;
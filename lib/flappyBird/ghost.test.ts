@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createGhostPlayer,
+  createGhostRun,
+  parseGhost,
+  serializeGhost,
+  simulateGhost,
+  stepGhost,
+  validateGhost,
+  GhostError,
+  GhostRun,
+  GHOST_VERSION,
+} from './ghost';
+import { createSimulation, tick, FIXED_DT, PIPE_WIDTH } from './simulation';
+
+const SEED = 'ghosts';
+
+/**
+ * Plays a run that flaps whenever the bird sinks below the middle of the
+ * next gap (at most every 20 steps), and records it as a ghost.
+ */
+const recordRun = (): GhostRun => {
+  let state = createSimulation(SEED);
+  const flaps: number[] = [];
+  while (!state.over && state.steps < 60 / FIXED_DT) {
+    const bird = state.bird;
+    const next = state.pipes
+      .filter((pipe) => pipe.x + PIPE_WIDTH > bird.x)
+      .reduce((a, b) => (a.x < b.x ? a : b));
+    const flap = state.steps % 20 === 0 && bird.y > next.bottomY - next.gap / 2 + 10;
+    if (flap) flaps.push(state.steps);
+    state = tick(state, { flap }, FIXED_DT);
+  }
+  return createGhostRun({ seed: SEED, state, flaps, recordedAt: new Date('2025-03-01T12:00:00.000Z') });
+};
+
+describe('parseGhost', () => {
+  const run = recordRun();
+
+  it('reads back a recorded run', () => {
+    expect(run.score).toBeGreaterThan(0);
+    expect(parseGhost(serializeGhost(run))).toEqual(run);
+  });
+
+  it('rejects a run whose score its flaps do not reach', () => {
+    expect(() => parseGhost(serializeGhost({ ...run, score: run.score + 1 }))).toThrow(
+      `Recorded score ${run.score + 1} does not match the replayed score ${run.score}.`
+    );
+  });
+
+  it('rejects files that are not JSON', () => {
+    expect(() => parseGhost('{')).toThrow('File is not valid JSON.');
+  });
+});
+
+describe('validateGhost', () => {
+  const run = recordRun();
+
+  it('rejects version 1 runs, recorded with the old pipe movement', () => {
+    expect(() => validateGhost({ ...run, version: 1 })).toThrow(
+      'Ghost version 1 was recorded with older pipe movement and can no longer be replayed.'
+    );
+  });
+
+  it('rejects runs from a newer version', () => {
+    expect(() => validateGhost({ ...run, version: GHOST_VERSION + 1 })).toThrow(GhostError);
+  });
+
+  it('lists every problem found', () => {
+    try {
+      validateGhost({ ...run, game: '2048', difficulty: 'extreme', flaps: [30, 10], score: -1 });
+      expect.fail('the ghost was accepted');
+    } catch (error) {
+      expect(error).toBeInstanceOf(GhostError);
+      expect((error as GhostError).issues).toHaveLength(4);
+    }
+  });
+});
+
+describe('stepGhost', () => {
+  const run = recordRun();
+
+  it('plays the run back step by step to the same end', () => {
+    let player = createGhostPlayer(run);
+    while (player.state.steps < run.steps) player = stepGhost(player, player.state.steps + 7);
+    expect(player.state).toEqual(simulateGhost(run));
+    expect(player.state.over).toBe(true);
+    expect(player.nextFlap).toBe(run.flaps.length);
+  });
+
+  it('never plays past the end of the run', () => {
+    const player = stepGhost(createGhostPlayer(run), run.steps + 1000);
+    expect(player.state.steps).toBe(run.steps);
+  });
+});
@@ -0,0 +1,226 @@
+// ------------------------------
+// Flappy Bird Ghost Runs
+// ------------------------------
+// A ghost run is a compact, versioned JSON record of one run: the seed, the
+// difficulty and the simulation steps on which the player flapped. The
+// simulation is deterministic, so replaying those flaps from the seed
+// reproduces the run exactly; the game draws it as a translucent bird to
+// race against.
+
+import { isDifficultyId, DifficultyId } from "./difficulty";
+import { createSimulation, tick, FIXED_DT, SimState } from "./simulation";
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/**
+ * GhostRun is the stored form of a run.
+ * - version: Schema version, bumped whenever the format changes.
+ * - game: Always "flappyBird"; guards against loading another game's file.
+ * - seed / difficulty: Settings the run was played with.
+ * - flaps: Simulation steps (FIXED_DT apart) on which the bird flapped, in
+ *   increasing order.
+ * - steps: Number of steps until the run ended.
+ * - score: Final score.
+ * - recordedAt: ISO 8601 timestamp of the end of the run.
+ */
+export type GhostRun = {
+  version: typeof GHOST_VERSION;
+  game: 'flappyBird';
+  seed: string;
+  difficulty: DifficultyId;
+  flaps: number[];
+  steps: number;
+  score: number;
+  recordedAt: string;
+};
+
+/**
+ * GhostPlayer plays a ghost run back alongside a live run.
+ * - previous / state: The ghost's last two simulation states (for interpolation).
+ * - nextFlap: Index of the next flap in `run.flaps`.
+ */
+export type GhostPlayer = {
+  run: GhostRun;
+  previous: SimState;
+  state: SimState;
+  nextFlap: number;
+};
+
+/**
+ * GhostError is thrown when a ghost file cannot be read or does not match
+ * the run it claims to record. `issues` lists every problem found.
+ */
+export class GhostError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(issues.join(' '));
+    this.name = 'GhostError';
+    this.issues = issues;
+  }
+}
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Current ghost schema version (2: moving pipes follow `wave` instead of
+// Math.sin, so version 1 runs no longer replay the same)
+export const GHOST_VERSION = 2;
+
+// Longest run accepted from a file (one hour of simulation steps)
+const MAX_GHOST_STEPS = Math.round(3600 / FIXED_DT);
+
+// ------------------------------
+// Recording
+// ------------------------------
+
+/**
+ * Builds a ghost run from a finished simulation and its recorded flap steps.
+ */
+export const createGhostRun = (params: {
+  seed: string;
+  state: SimState;
+  flaps: number[];
+  recordedAt: Date;
+}): GhostRun => ({
+  version: GHOST_VERSION,
+  game: 'flappyBird',
+  seed: params.seed,
+  difficulty: params.state.difficulty,
+  flaps: [...params.flaps],
+  steps: params.state.steps,
+  score: params.state.score,
+  recordedAt: params.recordedAt.toISOString(),
+});
+
+/**
+ * Serializes a ghost run to JSON for saving as a file.
+ */
+export const serializeGhost = (run: GhostRun): string => JSON.stringify(run);
+
+// ------------------------------
+// Validation
+// ------------------------------
+
+/**
+ * Checks that unknown data (for example parsed JSON) is a valid ghost run.
+ * Throws a GhostError listing every problem found.
+ */
+export const validateGhost = (data: unknown): GhostRun => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new GhostError(['Ghost must be a JSON object.']);
+  }
+  const record = data as { [key: string]: unknown };
+  const issues: string[] = [];
+  const isCount = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+  if (typeof record.version !== 'number') {
+    issues.push('Missing "version" number.');
+  } else if (record.version > GHOST_VERSION) {
+    issues.push(`Ghost version ${record.version} is newer than this app supports (${GHOST_VERSION}).`);
+  } else if (record.version === 1) {
+    issues.push('Ghost version 1 was recorded with older pipe movement and can no longer be replayed.');
+  } else if (record.version !== GHOST_VERSION) {
+    issues.push(`Unsupported ghost version ${record.version}.`);
+  }
+  if (record.game !== 'flappyBird') {
+    issues.push(`"game" must be "flappyBird", got ${JSON.stringify(record.game)}.`);
+  }
+  if (typeof record.seed !== 'string' || record.seed.length === 0) {
+    issues.push('"seed" must be a non-empty string.');
+  }
+  if (!isDifficultyId(record.difficulty)) {
+    issues.push('"difficulty" must be "easy", "normal" or "hard".');
+  }
+  if (!isCount(record.steps) || record.steps > MAX_GHOST_STEPS) {
+    issues.push(`"steps" must be a whole number from 0 to ${MAX_GHOST_STEPS}.`);
+  }
+  if (
+    !Array.isArray(record.flaps) ||
+    !record.flaps.every((flap, i, flaps) => isCount(flap) && (i === 0 || flap > flaps[i - 1]))
+  ) {
+    issues.push('"flaps" must be an increasing list of step numbers.');
+  }
+  if (!isCount(record.score)) {
+    issues.push('"score" must be a non-negative whole number.');
+  }
+  if (typeof record.recordedAt !== 'string' || Number.isNaN(Date.parse(record.recordedAt))) {
+    issues.push('"recordedAt" must be an ISO date string.');
+  }
+
+  if (issues.length > 0) throw new GhostError(issues);
+  return record as GhostRun;
+};
+
+/**
+ * Parses and validates ghost JSON text (for example an imported file), then
+ * replays it to make sure the recorded score is the one its flaps achieve.
+ */
+export const parseGhost = (text: string): GhostRun => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new GhostError(['File is not valid JSON.']);
+  }
+  const run = validateGhost(data);
+  const final = simulateGhost(run);
+  if (final.score !== run.score) {
+    throw new GhostError([`Recorded score ${run.score} does not match the replayed score ${final.score}.`]);
+  }
+  return run;
+};
+
+// ------------------------------
+// Playback
+// ------------------------------
+
+/**
+ * Starts playing a ghost run from its first step.
+ */
+export const createGhostPlayer = (run: GhostRun): GhostPlayer => {
+  const state = createSimulation(run.seed, run.difficulty);
+  return { run, previous: state, state, nextFlap: 0 };
+};
+
+/**
+ * Advances a ghost until it has simulated `steps` steps (or its run ended),
+ * applying its recorded flaps on their steps.
+ */
+export const stepGhost = (player: GhostPlayer, steps: number): GhostPlayer => {
+  let { previous, state, nextFlap } = player;
+  const { flaps } = player.run;
+  while (state.steps < steps && !state.over && state.steps < player.run.steps) {
+    const flap = flaps[nextFlap] === state.steps;
+    if (flap) nextFlap++;
+    previous = state;
+    state = tick(state, { flap }, FIXED_DT);
+  }
+  return { ...player, previous, state, nextFlap };
+};
+
+/**
+ * Replays a whole ghost run and returns its final state.
+ */
+export const simulateGhost = (run: GhostRun): SimState =>
+  stepGhost(createGhostPlayer(run), run.steps).state;
+
+/**
+ * Replays a ghost run and returns a state every `stepsPerFrame` steps, for
+ * drawing it as an animation. Only the last `maxFrames` states are kept,
+ * ending with the state the run ended on.
+ */
+export const sampleGhost = (run: GhostRun, stepsPerFrame: number, maxFrames: number): SimState[] => {
+  const first = Math.max(run.steps - (maxFrames - 1) * stepsPerFrame, 0);
+  let player = stepGhost(createGhostPlayer(run), first);
+  const frames = [player.state];
+  while (player.state.steps < run.steps && !player.state.over) {
+    player = stepGhost(player, player.state.steps + stepsPerFrame);
+    frames.push(player.state);
+  }
+  return frames;
+};
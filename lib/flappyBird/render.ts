@@ -0,0 +1,245 @@
+// ------------------------------
+// Flappy Bird Canvas Rendering
+// ------------------------------
+// Draws a simulation state. Rendering never changes the state, so the same
+// functions can draw interpolated frames, replays or paused screens.
+// Sprites are used when they have loaded; otherwise the pipes and birds are
+// drawn as plain shapes.
+
+import { BirdState, SimState, BIRD_RADIUS, PIPE_WIDTH, WORLD_HEIGHT, WORLD_WIDTH } from "./simulation";
+import { BIRD_FRAMES, PIPE_BODY, PIPE_CAP, GameAssets, SpriteFrame } from "./assets";
+import { getPalette } from "./theme";
+
+// Opacity of translucent birds (the ghost and the training population)
+const TRANSLUCENT_ALPHA = 0.4;
+// Wing frames shown per second, and the order they cycle in
+const BIRD_FRAME_RATE = 10;
+const BIRD_FRAME_CYCLE = [0, 1, 2, 1];
+// Height of the ground strip drawn along the bottom edge
+const GROUND_HEIGHT = 16;
+// Background layers: how fast each scrolls relative to the pipes, and where it sits
+const PARALLAX_LAYERS: { id: 'clouds' | 'hills' | 'ground'; speed: number; y: number }[] = [
+  { id: 'clouds', speed: 0.2, y: 40 },
+  { id: 'hills', speed: 0.5, y: WORLD_HEIGHT - GROUND_HEIGHT - 140 },
+  { id: 'ground', speed: 1, y: WORLD_HEIGHT - GROUND_HEIGHT },
+];
+// Fixed star positions for the night sky (upper half of the screen)
+const STARS = Array.from({ length: 40 }, (_, i) => ({
+  x: (i * 97) % WORLD_WIDTH,
+  y: (i * 53) % (WORLD_HEIGHT / 2),
+  size: i % 3 === 0 ? 2 : 1,
+}));
+
+/**
+ * Options for drawScene.
+ * - assets: Loaded sprites; missing ones are drawn as plain shapes.
+ * - ghost: A recorded run's bird, drawn translucent behind the player.
+ */
+export type SceneOptions = {
+  assets?: GameAssets | null;
+  ghost?: BirdState | null;
+};
+
+/**
+ * Draws one frame of a sprite sheet with its top-left corner at (x, y).
+ */
+const drawSprite = (
+  ctx: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  frame: SpriteFrame,
+  x: number,
+  y: number,
+  width: number = frame.width,
+  height: number = frame.height
+) => {
+  ctx.drawImage(image, frame.x, frame.y, frame.width, frame.height, x, y, width, height);
+};
+
+/**
+ * Draws a bird, tilted by its vertical velocity. With the bird sheet loaded
+ * the wings flap through its frames; otherwise it is a plain circle.
+ */
+const drawBird = (
+  ctx: CanvasRenderingContext2D,
+  bird: BirdState,
+  elapsed: number,
+  assets: GameAssets | null | undefined,
+  color: string,
+  alpha: number = 1
+) => {
+  // Calculate a rotation angle based on the bird's vertical velocity (clamped)
+  const angle = Math.max(Math.min(bird.velocityY / 300, 0.5), -0.5);
+  ctx.save();
+  ctx.globalAlpha = alpha;
+  ctx.translate(bird.x, bird.y);
+  ctx.rotate(angle);
+  if (assets?.bird) {
+    const frame = BIRD_FRAMES[BIRD_FRAME_CYCLE[Math.floor(elapsed * BIRD_FRAME_RATE) % BIRD_FRAME_CYCLE.length]];
+    drawSprite(ctx, assets.bird, frame, -frame.width / 2, -frame.height / 2);
+  } else {
+    ctx.beginPath();
+    ctx.arc(0, 0, BIRD_RADIUS, 0, Math.PI * 2);
+    ctx.fillStyle = color;
+    ctx.fill();
+    ctx.strokeStyle = 'black';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+/**
+ * Draws the sky for the current score, the stars at night and the
+ * scrolling background layers.
+ */
+const drawBackground = (ctx: CanvasRenderingContext2D, state: SimState, assets: GameAssets | null | undefined) => {
+  const palette = getPalette(state.score);
+  ctx.clearRect(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+  const sky = ctx.createLinearGradient(0, 0, 0, WORLD_HEIGHT);
+  sky.addColorStop(0, palette.skyTop);
+  sky.addColorStop(1, palette.skyBottom);
+  ctx.fillStyle = sky;
+  ctx.fillRect(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+
+  if (palette.stars > 0) {
+    ctx.fillStyle = `rgba(255,255,255,${palette.stars})`;
+    STARS.forEach((star) => ctx.fillRect(star.x, star.y, star.size, star.size));
+  }
+
+  // Each layer repeats horizontally, scrolled by its share of the distance
+  PARALLAX_LAYERS.forEach((layer) => {
+    const image = assets?.[layer.id];
+    if (!image) return;
+    const offset = (state.distance * layer.speed) % image.width;
+    for (let x = -offset; x < WORLD_WIDTH; x += image.width) {
+      ctx.drawImage(image, x, layer.y);
+    }
+  });
+
+  // Darken the layers at dusk and night
+  if (palette.shade > 0) {
+    ctx.fillStyle = `rgba(10,16,48,${palette.shade})`;
+    ctx.fillRect(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+  }
+};
+
+/**
+ * Draws the background and the pipes.
+ */
+const drawWorld = (ctx: CanvasRenderingContext2D, state: SimState, assets: GameAssets | null | undefined) => {
+  drawBackground(ctx, state, assets);
+
+  // ------------------------------
+  // Drawing the Pipes
+  // ------------------------------
+  const pipeImage = assets?.pipe;
+  if (pipeImage) {
+    // Caps are wider than the pipe and overhang it equally on both sides
+    const capX = (PIPE_CAP.width - PIPE_WIDTH) / 2;
+    state.pipes.forEach((pipe) => {
+      const topEnd = pipe.bottomY - pipe.gap;
+      drawSprite(ctx, pipeImage, PIPE_BODY, pipe.x, 0, PIPE_WIDTH, Math.max(topEnd - PIPE_CAP.height, 0));
+      drawSprite(ctx, pipeImage, PIPE_CAP, pipe.x - capX, topEnd - PIPE_CAP.height);
+      drawSprite(
+        ctx,
+        pipeImage,
+        PIPE_BODY,
+        pipe.x,
+        pipe.bottomY + PIPE_CAP.height,
+        PIPE_WIDTH,
+        Math.max(WORLD_HEIGHT - pipe.bottomY - PIPE_CAP.height, 0)
+      );
+      drawSprite(ctx, pipeImage, PIPE_CAP, pipe.x - capX, pipe.bottomY);
+    });
+    return;
+  }
+  ctx.fillStyle = 'green';
+  ctx.strokeStyle = 'black';
+  ctx.lineWidth = 2;
+  state.pipes.forEach((pipe) => {
+    // Draw top (upside-down) pipe: from top of canvas to (bottomY - gap)
+    ctx.fillRect(pipe.x, 0, PIPE_WIDTH, pipe.bottomY - pipe.gap);
+    ctx.strokeRect(pipe.x, 0, PIPE_WIDTH, pipe.bottomY - pipe.gap);
+    // Draw bottom pipe: from bottomY to bottom of canvas
+    ctx.fillRect(pipe.x, pipe.bottomY, PIPE_WIDTH, WORLD_HEIGHT - pipe.bottomY);
+    ctx.strokeRect(pipe.x, pipe.bottomY, PIPE_WIDTH, WORLD_HEIGHT - pipe.bottomY);
+  });
+};
+
+/**
+ * Draws the score and the difficulty level.
+ */
+const drawHud = (ctx: CanvasRenderingContext2D, state: SimState) => {
+  ctx.fillStyle = 'white';
+  ctx.font = '48px Arial';
+  ctx.textAlign = 'center';
+  ctx.fillText(state.score.toString(), WORLD_WIDTH / 2, 50);
+
+  // Current difficulty level in the corner
+  ctx.font = '16px Arial';
+  ctx.textAlign = 'right';
+  ctx.fillText(`Lv ${state.level + 1}`, WORLD_WIDTH - 10, 24);
+};
+
+/**
+ * Draws the background, pipes, bird, score and difficulty level.
+ */
+export const drawScene = (ctx: CanvasRenderingContext2D, state: SimState, options: SceneOptions = {}) => {
+  const { assets, ghost } = options;
+  drawWorld(ctx, state, assets);
+  if (ghost) drawBird(ctx, ghost, state.elapsed, assets, 'white', TRANSLUCENT_ALPHA);
+  drawBird(ctx, state.bird, state.elapsed, assets, 'yellow');
+  drawHud(ctx, state);
+};
+
+/**
+ * Draws a training population: the shared pipes and every living bird,
+ * translucent so overlapping birds stay visible.
+ */
+export const drawPopulation = (
+  ctx: CanvasRenderingContext2D,
+  world: SimState,
+  birds: BirdState[],
+  assets?: GameAssets | null
+) => {
+  drawWorld(ctx, world, assets);
+  birds.forEach((bird) => drawBird(ctx, bird, world.elapsed, assets, 'yellow', TRANSLUCENT_ALPHA));
+  drawHud(ctx, world);
+};
+
+/**
+ * Darkens the scene and prints a title with an optional subtitle
+ * (used for the start, game over and pause screens).
+ */
+export const drawOverlay = (ctx: CanvasRenderingContext2D, title: string, subtitle?: string) => {
+  ctx.fillStyle = 'rgba(0,0,0,0.5)';
+  ctx.fillRect(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+  ctx.fillStyle = 'white';
+  ctx.font = '36px Arial';
+  ctx.textAlign = 'center';
+  ctx.fillText(title, WORLD_WIDTH / 2, WORLD_HEIGHT / 2);
+  if (subtitle) {
+    ctx.font = '24px Arial';
+    ctx.fillText(subtitle, WORLD_WIDTH / 2, WORLD_HEIGHT / 2 + 40);
+  }
+};
+
+/**
+ * Draws the loading screen with a progress bar (`progress` from 0 to 1).
+ */
+export const drawLoading = (ctx: CanvasRenderingContext2D, progress: number) => {
+  ctx.fillStyle = '#70c5ce';
+  ctx.fillRect(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+  ctx.fillStyle = 'white';
+  ctx.font = '36px Arial';
+  ctx.textAlign = 'center';
+  ctx.fillText('Loading...', WORLD_WIDTH / 2, WORLD_HEIGHT / 2);
+
+  const barWidth = WORLD_WIDTH / 2;
+  const barX = (WORLD_WIDTH - barWidth) / 2;
+  const barY = WORLD_HEIGHT / 2 + 30;
+  ctx.strokeStyle = 'white';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(barX, barY, barWidth, 16);
+  ctx.fillRect(barX, barY, barWidth * progress, 16);
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { advance, createSimulation, tick, wave, FIXED_DT, MAX_FRAME_TIME, PIPE_WIDTH, SimState } from './simulation';
+
+const SEED = 'simulation-test';
+// Flaps are only decided every 20 steps (1/6 s), a moment that starts a
+// frame at 30, 60 and 144 Hz alike
+const DECISION_STEPS = 20;
+// Longest run simulated, in seconds
+const MAX_SECONDS = 120;
+
+/**
+ * Plays a reference run one fixed step at a time, flapping whenever the bird
+ * sinks below the middle of the next gap. Returns the steps it flapped on
+ * and its final state.
+ */
+const playReference = (): { flaps: number[]; state: SimState } => {
+  let state = createSimulation(SEED);
+  const flaps: number[] = [];
+  while (!state.over && state.steps < MAX_SECONDS / FIXED_DT) {
+    const bird = state.bird;
+    const next = state.pipes
+      .filter((pipe) => pipe.x + PIPE_WIDTH > bird.x)
+      .reduce((a, b) => (a.x < b.x ? a : b));
+    const flap = state.steps % DECISION_STEPS === 0 && bird.y > next.bottomY - next.gap / 2 + 10;
+    if (flap) flaps.push(state.steps);
+    state = tick(state, { flap }, FIXED_DT);
+  }
+  return { flaps, state };
+};
+
+/**
+ * Replays the reference flaps through `advance` with frames of 1/hz seconds,
+ * as the game loop does: the player clicks once the run reaches a flap step,
+ * and the next frame applies it. Returns the steps the flaps landed on and
+ * the final state.
+ */
+const playAt = (hz: number, clicks: number[]): { flaps: number[]; state: SimState } => {
+  let state = createSimulation(SEED);
+  let accumulator = 0;
+  let pending = false;
+  let nextClick = 0;
+  const flaps: number[] = [];
+  for (let frame = 0; !state.over && frame < MAX_SECONDS * hz; frame++) {
+    if (nextClick < clicks.length && state.steps >= clicks[nextClick]) {
+      pending = true;
+      nextClick++;
+    }
+    const flapStep = state.steps;
+    const result = advance(state, accumulator, 1 / hz, pending);
+    if (result.flapped) {
+      flaps.push(flapStep);
+      pending = false;
+    }
+    state = result.state;
+    accumulator = result.accumulator;
+  }
+  return { flaps, state };
+};
+
+describe('advance', () => {
+  const reference = playReference();
+
+  it('plays a reference run that scores and then crashes', () => {
+    expect(reference.state.over).toBe(true);
+    expect(reference.state.score).toBeGreaterThan(0);
+  });
+
+  it.each([30, 60, 144])('gives the same run at %i Hz', (hz) => {
+    const { flaps, state } = playAt(hz, reference.flaps);
+    expect(flaps).toEqual(reference.flaps);
+    expect(state.over).toBe(reference.state.over);
+    expect(state.score).toBe(reference.state.score);
+    // The collision happens on the same step
+    expect(state.steps).toBe(reference.state.steps);
+    expect(state.bird).toEqual(reference.state.bird);
+  });
+
+  it('does not simulate more than the longest frame after a stall', () => {
+    const start = createSimulation(SEED);
+    const result = advance(start, 0, 10, false);
+    expect(result.state.steps).toBe(Math.round(MAX_FRAME_TIME / FIXED_DT));
+  });
+});
+
+describe('wave', () => {
+  it('follows the shape of a sine wave', () => {
+    expect(wave(0)).toBeCloseTo(0);
+    expect(wave(Math.PI / 2)).toBe(1);
+    expect(wave(Math.PI)).toBeCloseTo(0);
+    expect(wave((Math.PI * 3) / 2)).toBe(-1);
+    expect(wave(Math.PI * 2 + Math.PI / 2)).toBe(1);
+    for (let angle = -10; angle < 10; angle += 0.1) {
+      expect(Math.abs(wave(angle) - Math.sin(angle))).toBeLessThan(0.06);
+    }
+  });
+});
@@ -0,0 +1,341 @@
+// ------------------------------
+// Flappy Bird Simulation
+// ------------------------------
+// Pure, canvas-free game physics. `tick` advances the world by one fixed
+// step; `advance` feeds it real frame times through an accumulator so the
+// result is the same at any display refresh rate, and returns the previous
+// state so the renderer can interpolate between steps.
+
+import { hashSeed, nextRandom } from "../random";
+import {
+  getLevel,
+  getMinSpacing,
+  getMoveAmplitude,
+  getPipeGap,
+  getPipeSpacing,
+  getPipeSpeed,
+  DifficultyId,
+  DifficultyPreset,
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_PRESETS,
+} from "./difficulty";
+
+// ------------------------------
+// World and Physics Constants
+// ------------------------------
+export const WORLD_WIDTH = 400;
+export const WORLD_HEIGHT = 600;
+export const BIRD_X = 50;
+export const BIRD_RADIUS = 15;
+export const PIPE_WIDTH = 60;
+// Range of pipe heights: bottomY stays this far from the top and bottom edges
+const PIPE_MARGIN = 150;
+
+export const GRAVITY = 800;             // pixels per second² (downward acceleration)
+export const FLAP_IMPULSE = -300;       // immediate upward velocity on flap
+export const MAX_DOWN_VELOCITY = 400;   // maximum downward velocity
+
+// Length of one simulation step in seconds (120 steps per second)
+export const FIXED_DT = 1 / 120;
+// Longest frame fed to the accumulator; longer pauses (tab switches) are cut
+// short so the game slows down instead of running hundreds of steps at once
+export const MAX_FRAME_TIME = 0.25;
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/**
+ * BirdState is the bird's position and vertical velocity.
+ */
+export type BirdState = {
+  x: number;
+  y: number;
+  velocityY: number;
+};
+
+/**
+ * PipePair represents a pair of pipes.
+ * - x: Horizontal position of the pipe pair.
+ * - bottomY: y coordinate where the bottom pipe starts.
+ * - gap: Vertical gap between the top (upside-down) and bottom pipes.
+ * - scored: Flag to ensure the pair is scored only once.
+ * - baseBottomY / amplitude / phase: Moving pipes oscillate around
+ *   baseBottomY by up to amplitude pixels (amplitude 0 for static pipes).
+ */
+export type PipePair = {
+  x: number;
+  bottomY: number;
+  gap: number;
+  scored: boolean;
+  baseBottomY: number;
+  amplitude: number;
+  phase: number;
+};
+
+/**
+ * SimState is a snapshot of the whole world.
+ * - elapsed: Simulated time since the run started, in seconds.
+ * - steps: Number of fixed steps simulated so far (inputs are recorded by step).
+ * - distance: How far the pipes have scrolled, in pixels (drives parallax).
+ * - difficulty: Preset that drives the difficulty curve.
+ * - level: Current difficulty level (see getLevel).
+ * - rngState: Seeded RNG state used for new pipe heights and spacings.
+ * - over: True once the bird hit a pipe or the ground.
+ */
+export type SimState = {
+  bird: BirdState;
+  pipes: PipePair[];
+  score: number;
+  elapsed: number;
+  steps: number;
+  distance: number;
+  difficulty: DifficultyId;
+  level: number;
+  rngState: number;
+  over: boolean;
+};
+
+/** Player input for one step. */
+export type SimInput = {
+  flap: boolean;
+};
+
+// ------------------------------
+// Helpers
+// ------------------------------
+
+/**
+ * A sine-shaped wave (period 2π, from -1 to 1) built from two parabolas.
+ * It uses only arithmetic, which every JavaScript engine computes the same
+ * way, unlike Math.sin; the server re-simulates runs and must get the same
+ * pipe heights as the browser that played them.
+ */
+export const wave = (angle: number): number => {
+  const turns = angle / (Math.PI * 2);
+  const t = turns - Math.floor(turns);
+  const half = t < 0.5 ? t * 2 : t * 2 - 1;
+  const hump = 4 * half * (1 - half);
+  return t < 0.5 ? hump : -hump;
+};
+
+/**
+ * Returns the number of pipe pairs needed so the screen never runs out of
+ * pipes at the preset's closest spacing.
+ */
+export const getPipeCount = (preset: DifficultyPreset): number =>
+  Math.ceil((WORLD_WIDTH + PIPE_WIDTH) / getMinSpacing(preset)) + 1;
+
+/**
+ * Creates a pipe pair at `x` with a random height (and, at higher levels,
+ * a random oscillation phase). Returns the pipe and the next RNG state.
+ */
+const spawnPipe = (
+  x: number,
+  preset: DifficultyPreset,
+  level: number,
+  rngState: number
+): { pipe: PipePair; rngState: number } => {
+  const gap = getPipeGap(preset, level);
+  const amplitude = getMoveAmplitude(preset, level);
+  const height = nextRandom(rngState);
+  // Keep the whole oscillation inside the safe vertical range
+  const low = PIPE_MARGIN + amplitude;
+  const high = WORLD_HEIGHT - PIPE_MARGIN - amplitude;
+  const baseBottomY = low + height.value * (high - low);
+  let state = height.state;
+  let phase = 0;
+  if (amplitude > 0) {
+    const random = nextRandom(state);
+    phase = random.value * Math.PI * 2;
+    state = random.state;
+  }
+  return {
+    pipe: { x, bottomY: baseBottomY + amplitude * wave(phase), gap, scored: false, baseBottomY, amplitude, phase },
+    rngState: state,
+  };
+};
+
+/**
+ * Draws the spacing before the next pipe pair. Returns it and the next RNG state.
+ */
+const nextSpacing = (
+  preset: DifficultyPreset,
+  level: number,
+  rngState: number
+): { spacing: number; rngState: number } => {
+  const { value, state } = nextRandom(rngState);
+  return { spacing: getPipeSpacing(preset, level, value), rngState: state };
+};
+
+/**
+ * Checks whether the bird overlaps either pipe of a pair.
+ */
+export const hitsPipe = (bird: BirdState, pipe: PipePair): boolean =>
+  bird.x + BIRD_RADIUS > pipe.x &&
+  bird.x - BIRD_RADIUS < pipe.x + PIPE_WIDTH &&
+  (bird.y - BIRD_RADIUS < pipe.bottomY - pipe.gap || bird.y + BIRD_RADIUS > pipe.bottomY);
+
+// ------------------------------
+// Simulation
+// ------------------------------
+
+/**
+ * Creates the starting world for a run. Pipe pairs start offscreen to the
+ * right, with heights and spacings drawn from the seed.
+ */
+export const createSimulation = (seed: string, difficulty: DifficultyId = DEFAULT_DIFFICULTY): SimState => {
+  const preset = DIFFICULTY_PRESETS[difficulty];
+  let rngState = hashSeed(seed);
+  const pipes: PipePair[] = [];
+  let x = WORLD_WIDTH;
+  for (let i = 0; i < getPipeCount(preset); i++) {
+    const spawned = spawnPipe(x, preset, 0, rngState);
+    pipes.push(spawned.pipe);
+    const spacing = nextSpacing(preset, 0, spawned.rngState);
+    rngState = spacing.rngState;
+    x += spacing.spacing;
+  }
+  return {
+    bird: { x: BIRD_X, y: WORLD_HEIGHT / 2, velocityY: 0 },
+    pipes,
+    score: 0,
+    elapsed: 0,
+    steps: 0,
+    distance: 0,
+    difficulty,
+    level: 0,
+    rngState,
+    over: false,
+  };
+};
+
+/**
+ * Moves a bird by `dt` seconds: a flap sets the velocity, then gravity pulls
+ * down. The ceiling stops the bird; `grounded` is true if it hit the ground.
+ */
+export const moveBird = (bird: BirdState, flap: boolean, dt: number): { bird: BirdState; grounded: boolean } => {
+  let velocityY = flap ? FLAP_IMPULSE : bird.velocityY;
+  velocityY = Math.min(velocityY + GRAVITY * dt, MAX_DOWN_VELOCITY);
+  let y = bird.y + velocityY * dt;
+  let grounded = false;
+
+  if (y + BIRD_RADIUS > WORLD_HEIGHT) {
+    y = WORLD_HEIGHT - BIRD_RADIUS;
+    velocityY = 0;
+    grounded = true;
+  } else if (y - BIRD_RADIUS < 0) {
+    y = BIRD_RADIUS;
+    velocityY = 0;
+  }
+  return { bird: { x: bird.x, y, velocityY }, grounded };
+};
+
+/**
+ * Moves the pipes by `dt` seconds and recycles pairs that left the screen.
+ * Returns the world fields of the next state; the bird and score are untouched.
+ */
+export const movePipes = (
+  state: SimState,
+  dt: number
+): Pick<SimState, 'pipes' | 'elapsed' | 'distance' | 'level' | 'rngState'> => {
+  const preset = DIFFICULTY_PRESETS[state.difficulty];
+
+  // Pipe speed follows the difficulty level of the run
+  const elapsed = state.elapsed + dt;
+  const level = getLevel(preset, elapsed, state.score);
+  const pipeSpeed = getPipeSpeed(preset, level);
+
+  // Move pipes (moving pipes also oscillate up and down)
+  const pipes = state.pipes.map((pipe) => ({
+    ...pipe,
+    x: pipe.x - pipeSpeed * dt,
+    bottomY: pipe.baseBottomY + pipe.amplitude * wave(pipe.phase + elapsed * preset.moveSpeed),
+  }));
+
+  // A pair that leaves the screen respawns behind the rightmost pair,
+  // using the current level for its gap, spacing and movement
+  let rngState = state.rngState;
+  let rightmost = Math.max(...pipes.map((pipe) => pipe.x));
+  pipes.forEach((pipe, i) => {
+    if (pipe.x + PIPE_WIDTH >= 0) return;
+    const spacing = nextSpacing(preset, level, rngState);
+    const spawned = spawnPipe(rightmost + spacing.spacing, preset, level, spacing.rngState);
+    rngState = spawned.rngState;
+    pipes[i] = spawned.pipe;
+    rightmost = spawned.pipe.x;
+  });
+
+  return { pipes, elapsed, distance: state.distance + pipeSpeed * dt, level, rngState };
+};
+
+/**
+ * Marks the pipe pairs the bird has just passed as scored (each pair scores
+ * once) and returns the new score. `pipes` must be the freshly moved pairs.
+ */
+export const scorePipes = (bird: BirdState, pipes: PipePair[], score: number): number => {
+  pipes.forEach((pipe) => {
+    if (!pipe.scored && bird.x > pipe.x + PIPE_WIDTH) {
+      pipe.scored = true;
+      score++;
+    }
+  });
+  return score;
+};
+
+/**
+ * Advances the world by `dt` seconds: applies the flap and gravity, moves
+ * and recycles pipes, then checks collisions and scoring.
+ * Returns the state unchanged once the run is over.
+ */
+export const tick = (state: SimState, input: SimInput, dt: number): SimState => {
+  if (state.over) return state;
+  const { bird, grounded } = moveBird(state.bird, input.flap, dt);
+  const world = movePipes(state, dt);
+  const over = grounded || world.pipes.some((pipe) => hitsPipe(bird, pipe));
+  const score = scorePipes(bird, world.pipes, state.score);
+  return { ...state, ...world, bird, score, steps: state.steps + 1, over };
+};
+
+/**
+ * Feeds one rendered frame of `frameTime` seconds into the fixed-step
+ * simulation. Runs as many whole steps as the accumulator allows; a pending
+ * flap is applied on the first of them.
+ * Returns the states before and after the last step, the leftover time and
+ * `alpha`, the fraction of a step to interpolate by when drawing.
+ */
+export const advance = (
+  state: SimState,
+  accumulator: number,
+  frameTime: number,
+  flap: boolean
+): { previous: SimState; state: SimState; accumulator: number; alpha: number; flapped: boolean } => {
+  let previous = state;
+  let flapped = false;
+  accumulator += Math.min(Math.max(frameTime, 0), MAX_FRAME_TIME);
+  while (accumulator >= FIXED_DT && !state.over) {
+    previous = state;
+    state = tick(state, { flap: flap && !flapped }, FIXED_DT);
+    flapped = flapped || flap;
+    accumulator -= FIXED_DT;
+  }
+  return { previous, state, accumulator, alpha: state.over ? 1 : accumulator / FIXED_DT, flapped };
+};
+
+/**
+ * Blends two states for drawing: `alpha` 0 is `previous`, 1 is `current`.
+ * Pipes that were recycled between the two states are not blended.
+ */
+export const interpolate = (previous: SimState, current: SimState, alpha: number): SimState => {
+  const lerp = (a: number, b: number) => a + (b - a) * alpha;
+  return {
+    ...current,
+    distance: lerp(previous.distance, current.distance),
+    bird: { ...current.bird, y: lerp(previous.bird.y, current.bird.y) },
+    pipes: current.pipes.map((pipe, i) => {
+      const before = previous.pipes[i];
+      if (!before || before.x < pipe.x) return pipe;
+      return { ...pipe, x: lerp(before.x, pipe.x), bottomY: lerp(before.bottomY, pipe.bottomY) };
+    }),
+  };
+};
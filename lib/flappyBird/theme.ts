@@ -0,0 +1,71 @@
+// ------------------------------
+// Flappy Bird Day/Night Theme
+// ------------------------------
+// The sky cycles through day, dusk, night and dawn as the score rises.
+// Each phase is a palette; between phases the colors are blended point by
+// point, so the change is gradual.
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/**
+ * Palette holds the colors of one time of day.
+ * - skyTop / skyBottom: Sky gradient, as "#rrggbb".
+ * - shade: Opacity of the dark tint laid over the background layers.
+ * - stars: Opacity of the stars.
+ */
+export type Palette = {
+  skyTop: string;
+  skyBottom: string;
+  shade: number;
+  stars: number;
+};
+
+// ------------------------------
+// Palettes
+// ------------------------------
+
+// Day, dusk, night and dawn, in order; the cycle then starts again
+export const PALETTES: Palette[] = [
+  { skyTop: '#4ec0ca', skyBottom: '#70c5ce', shade: 0, stars: 0 },
+  { skyTop: '#f08a5d', skyBottom: '#f9c98a', shade: 0.15, stars: 0 },
+  { skyTop: '#0b1034', skyBottom: '#283a70', shade: 0.5, stars: 1 },
+  { skyTop: '#6a6fb4', skyBottom: '#f3b5a8', shade: 0.2, stars: 0.3 },
+];
+
+// Points scored per phase of the cycle
+export const POINTS_PER_PHASE = 15;
+// Points at the end of each phase spent blending into the next one
+const BLEND_POINTS = 5;
+
+// ------------------------------
+// Blending
+// ------------------------------
+
+/**
+ * Blends two "#rrggbb" colors: `t` 0 is `a`, 1 is `b`.
+ */
+const mixColor = (a: string, b: string, t: number): string => {
+  const channel = (color: string, i: number) => parseInt(color.slice(1 + i * 2, 3 + i * 2), 16);
+  const mixed = [0, 1, 2].map((i) => Math.round(channel(a, i) + (channel(b, i) - channel(a, i)) * t));
+  return `#${mixed.map((value) => value.toString(16).padStart(2, '0')).join('')}`;
+};
+
+/**
+ * Returns the palette for a score.
+ */
+export const getPalette = (score: number): Palette => {
+  const phase = Math.floor(score / POINTS_PER_PHASE);
+  const current = PALETTES[phase % PALETTES.length];
+  const next = PALETTES[(phase + 1) % PALETTES.length];
+  const into = score % POINTS_PER_PHASE - (POINTS_PER_PHASE - BLEND_POINTS);
+  if (into <= 0) return current;
+  const t = into / BLEND_POINTS;
+  return {
+    skyTop: mixColor(current.skyTop, next.skyTop, t),
+    skyBottom: mixColor(current.skyBottom, next.skyBottom, t),
+    shade: current.shade + (next.shade - current.shade) * t,
+    stars: current.stars + (next.stars - current.stars) * t,
+  };
+};
@@ -0,0 +1,421 @@
+// ------------------------------
+// Flappy Bird Neuroevolution
+// ------------------------------
+// Trains birds with a genetic algorithm. Every bird is flown by a small
+// neural network (its genome is the list of weights). A generation flies a
+// whole population over the same pipes; the fittest genomes are kept and
+// the rest are replaced by mutated crossovers of good parents. Everything
+// runs on seeded RNG state, so a training session can be reproduced.
+
+import { hashSeed, nextRandom } from "../random";
+import { DifficultyId, DEFAULT_DIFFICULTY } from "./difficulty";
+import {
+  createSimulation,
+  hitsPipe,
+  moveBird,
+  movePipes,
+  scorePipes,
+  BirdState,
+  SimState,
+  BIRD_RADIUS,
+  FIXED_DT,
+  MAX_DOWN_VELOCITY,
+  PIPE_WIDTH,
+  WORLD_HEIGHT,
+  WORLD_WIDTH,
+} from "./simulation";
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/**
+ * Genome is a network's weights, laid out as the hidden layer (one bias and
+ * one weight per input for each hidden neuron) followed by the output neuron
+ * (one bias and one weight per hidden neuron).
+ */
+export type Genome = number[];
+
+/**
+ * Trainee is one bird of the population.
+ * - fitness: Steps survived plus a bonus per pipe passed.
+ */
+export type Trainee = {
+  genome: Genome;
+  bird: BirdState;
+  alive: boolean;
+  fitness: number;
+};
+
+/**
+ * Population is the whole training session.
+ * - generation: Number of the generation currently flying (from 1).
+ * - seed / difficulty: Every generation flies pipes from `seed-generation`.
+ * - world: The shared pipes, score and time; `world.bird` is the leading
+ *   bird (used for drawing), and `world.over` means the generation ended.
+ * - rngState: RNG state for selection and mutation.
+ * - best: Fittest genome seen so far and the generation it came from.
+ * - history: Best fitness of every finished generation.
+ */
+export type Population = {
+  generation: number;
+  seed: string;
+  difficulty: DifficultyId;
+  world: SimState;
+  trainees: Trainee[];
+  rngState: number;
+  best: { genome: Genome; fitness: number; score: number; generation: number } | null;
+  history: number[];
+};
+
+/**
+ * SavedGenome is the JSON file format of a trained genome.
+ */
+export type SavedGenome = {
+  version: typeof GENOME_VERSION;
+  game: 'flappyBird';
+  inputs: number;
+  hidden: number;
+  weights: Genome;
+  fitness: number;
+  score: number;
+  generation: number;
+};
+
+/**
+ * GenomeError is thrown when a genome file cannot be read or does not fit
+ * the network. `issues` lists every problem found.
+ */
+export class GenomeError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(issues.join(' '));
+    this.name = 'GenomeError';
+    this.issues = issues;
+  }
+}
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Network shape: distance to the next pipe, gap offset and velocity in,
+// one hidden layer, one "flap" output
+export const INPUT_COUNT = 3;
+export const HIDDEN_COUNT = 6;
+export const GENOME_LENGTH = HIDDEN_COUNT * (INPUT_COUNT + 1) + HIDDEN_COUNT + 1;
+
+export const POPULATION_SIZE = 50;
+// Best genomes copied unchanged into the next generation
+const ELITE_COUNT = 4;
+// Parents are picked from this fraction of the population (fittest first)
+const PARENT_FRACTION = 0.5;
+// Chance that a weight is mutated, and the spread of the change
+const MUTATION_RATE = 0.15;
+const MUTATION_STRENGTH = 0.5;
+// Fitness bonus per pipe passed, in steps
+const PIPE_FITNESS = 500;
+// A generation ends after this many steps even if birds are still alive
+// (three minutes of flying), so headless training always makes progress
+export const MAX_GENERATION_STEPS = Math.round(180 / FIXED_DT);
+
+// Current genome file version
+export const GENOME_VERSION = 1;
+
+// ------------------------------
+// Random Helpers
+// ------------------------------
+
+/**
+ * Draws a uniform number in [0, 1). Returns it and the next RNG state.
+ */
+const uniform = (rngState: number): [number, number] => {
+  const { value, state } = nextRandom(rngState);
+  return [value, state];
+};
+
+/**
+ * Draws a standard normal number (Box-Muller). Returns it and the next RNG state.
+ */
+const gaussian = (rngState: number): [number, number] => {
+  const [u, s1] = uniform(rngState);
+  const [v, s2] = uniform(s1);
+  return [Math.sqrt(-2 * Math.log(1 - u)) * Math.cos(2 * Math.PI * v), s2];
+};
+
+// ------------------------------
+// Network
+// ------------------------------
+
+/**
+ * Creates a genome with random weights in [-1, 1).
+ * Returns it and the next RNG state.
+ */
+export const createRandomGenome = (rngState: number): [Genome, number] => {
+  const genome: Genome = [];
+  for (let i = 0; i < GENOME_LENGTH; i++) {
+    const [value, state] = uniform(rngState);
+    genome.push(value * 2 - 1);
+    rngState = state;
+  }
+  return [genome, rngState];
+};
+
+/**
+ * Returns the network inputs for a bird, each roughly in [-1, 1]:
+ * horizontal distance to the next pipe pair, vertical offset from the bird
+ * to the middle of its gap, and the bird's vertical velocity.
+ */
+export const getInputs = (bird: BirdState, world: SimState): number[] => {
+  const ahead = world.pipes.filter((pipe) => pipe.x + PIPE_WIDTH > bird.x - BIRD_RADIUS);
+  const next = ahead.reduce((nearest, pipe) => (pipe.x < nearest.x ? pipe : nearest), ahead[0]);
+  if (!next) return [1, 0, bird.velocityY / MAX_DOWN_VELOCITY];
+  const gapCenter = next.bottomY - next.gap / 2;
+  return [
+    (next.x - bird.x) / WORLD_WIDTH,
+    (gapCenter - bird.y) / WORLD_HEIGHT,
+    bird.velocityY / MAX_DOWN_VELOCITY,
+  ];
+};
+
+/**
+ * Runs the network and returns true if the bird should flap.
+ */
+export const shouldFlap = (genome: Genome, inputs: number[]): boolean => {
+  let output = genome[GENOME_LENGTH - HIDDEN_COUNT - 1];
+  for (let h = 0; h < HIDDEN_COUNT; h++) {
+    const base = h * (INPUT_COUNT + 1);
+    let sum = genome[base];
+    for (let i = 0; i < INPUT_COUNT; i++) sum += genome[base + 1 + i] * inputs[i];
+    output += genome[GENOME_LENGTH - HIDDEN_COUNT + h] * Math.tanh(sum);
+  }
+  return output > 0;
+};
+
+// ------------------------------
+// Population
+// ------------------------------
+
+/**
+ * Starts a generation: a fresh world from the generation's seed with every
+ * genome's bird at the start position.
+ */
+const startGeneration = (
+  population: Omit<Population, 'world' | 'trainees'>,
+  genomes: Genome[]
+): Population => {
+  const world = createSimulation(`${population.seed}-${population.generation}`, population.difficulty);
+  return {
+    ...population,
+    world,
+    trainees: genomes.map((genome) => ({ genome, bird: world.bird, alive: true, fitness: 0 })),
+  };
+};
+
+/**
+ * Creates a population of random genomes, or of mutated copies of `ancestor`
+ * (which itself is kept) when continuing from a saved genome.
+ */
+export const createPopulation = (
+  seed: string,
+  difficulty: DifficultyId = DEFAULT_DIFFICULTY,
+  ancestor?: Genome
+): Population => {
+  let rngState = hashSeed(`${seed}-evolution`);
+  const genomes: Genome[] = [];
+  if (ancestor) genomes.push([...ancestor]);
+  while (genomes.length < POPULATION_SIZE) {
+    if (ancestor) {
+      const [genome, state] = mutate(ancestor, rngState);
+      genomes.push(genome);
+      rngState = state;
+    } else {
+      const [genome, state] = createRandomGenome(rngState);
+      genomes.push(genome);
+      rngState = state;
+    }
+  }
+  return startGeneration({ generation: 1, seed, difficulty, rngState, best: null, history: [] }, genomes);
+};
+
+/**
+ * Returns a copy of a genome with some weights nudged by gaussian noise.
+ * Returns it and the next RNG state.
+ */
+export const mutate = (genome: Genome, rngState: number): [Genome, number] => {
+  const child = genome.map((weight) => {
+    const [chance, s1] = uniform(rngState);
+    rngState = s1;
+    if (chance >= MUTATION_RATE) return weight;
+    const [noise, s2] = gaussian(rngState);
+    rngState = s2;
+    return weight + noise * MUTATION_STRENGTH;
+  });
+  return [child, rngState];
+};
+
+/**
+ * Mixes two genomes, taking each weight from either parent at random.
+ * Returns the child and the next RNG state.
+ */
+export const crossover = (a: Genome, b: Genome, rngState: number): [Genome, number] => {
+  const child = a.map((weight, i) => {
+    const [value, state] = uniform(rngState);
+    rngState = state;
+    return value < 0.5 ? weight : b[i];
+  });
+  return [child, rngState];
+};
+
+/**
+ * Advances every living bird by one fixed step over the shared pipes.
+ * Birds that crash keep the fitness they reached; the generation is over
+ * once every bird has crashed or the step limit is reached.
+ */
+export const stepPopulation = (population: Population): Population => {
+  const { world } = population;
+  if (world.over) return population;
+
+  const moved = movePipes(world, FIXED_DT);
+  const steps = world.steps + 1;
+  let score = world.score;
+  let leader: BirdState | null = null;
+
+  const trainees = population.trainees.map((trainee) => {
+    if (!trainee.alive) return trainee;
+    const flap = shouldFlap(trainee.genome, getInputs(trainee.bird, world));
+    const { bird, grounded } = moveBird(trainee.bird, flap, FIXED_DT);
+    if (grounded || moved.pipes.some((pipe) => hitsPipe(bird, pipe))) {
+      return { ...trainee, bird, alive: false };
+    }
+    // All birds share the same x, so they pass pipes together
+    score = Math.max(score, scorePipes(bird, moved.pipes, world.score));
+    leader = leader ?? bird;
+    return { ...trainee, bird, fitness: steps + PIPE_FITNESS * score };
+  });
+
+  const over = leader === null || steps >= MAX_GENERATION_STEPS;
+  return {
+    ...population,
+    trainees,
+    world: { ...world, ...moved, bird: leader ?? world.bird, score, steps, over },
+  };
+};
+
+/**
+ * Breeds the next generation from a finished one: the elite survive
+ * unchanged and the rest are mutated crossovers of fit parents.
+ */
+export const evolve = (population: Population): Population => {
+  const ranked = [...population.trainees].sort((a, b) => b.fitness - a.fitness);
+  const champion = ranked[0];
+  const best =
+    !population.best || champion.fitness > population.best.fitness
+      ? { genome: champion.genome, fitness: champion.fitness, score: population.world.score, generation: population.generation }
+      : population.best;
+
+  let rngState = population.rngState;
+  const parents = ranked.slice(0, Math.max(2, Math.floor(ranked.length * PARENT_FRACTION)));
+  const pick = (): Genome => {
+    // Squaring the random number favours the fittest parents
+    const [value, state] = uniform(rngState);
+    rngState = state;
+    return parents[Math.floor(value * value * parents.length)].genome;
+  };
+
+  const genomes = ranked.slice(0, ELITE_COUNT).map((trainee) => trainee.genome);
+  while (genomes.length < population.trainees.length) {
+    const [mixed, s1] = crossover(pick(), pick(), rngState);
+    const [child, s2] = mutate(mixed, s1);
+    rngState = s2;
+    genomes.push(child);
+  }
+
+  return startGeneration(
+    {
+      ...population,
+      generation: population.generation + 1,
+      rngState,
+      best,
+      history: [...population.history, champion.fitness],
+    },
+    genomes
+  );
+};
+
+/**
+ * Flies the current generation to the end without drawing, then evolves it.
+ * Used for headless fast-forward training.
+ */
+export const runGeneration = (population: Population): Population => {
+  let current = population;
+  while (!current.world.over) current = stepPopulation(current);
+  return evolve(current);
+};
+
+// ------------------------------
+// Saving and Loading
+// ------------------------------
+
+/**
+ * Serializes the best genome of a population to JSON, or null if no
+ * generation has finished yet.
+ */
+export const serializeGenome = (population: Population): string | null => {
+  if (!population.best) return null;
+  const saved: SavedGenome = {
+    version: GENOME_VERSION,
+    game: 'flappyBird',
+    inputs: INPUT_COUNT,
+    hidden: HIDDEN_COUNT,
+    weights: population.best.genome,
+    fitness: population.best.fitness,
+    score: population.best.score,
+    generation: population.best.generation,
+  };
+  return JSON.stringify(saved);
+};
+
+/**
+ * Parses and validates genome JSON text (for example an imported file).
+ * Throws a GenomeError listing every problem found.
+ */
+export const parseGenome = (text: string): SavedGenome => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new GenomeError(['File is not valid JSON.']);
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new GenomeError(['Genome must be a JSON object.']);
+  }
+  const record = data as { [key: string]: unknown };
+  const issues: string[] = [];
+
+  if (record.version !== GENOME_VERSION) {
+    issues.push(`Unsupported genome version ${JSON.stringify(record.version)} (expected ${GENOME_VERSION}).`);
+  }
+  if (record.game !== 'flappyBird') {
+    issues.push(`"game" must be "flappyBird", got ${JSON.stringify(record.game)}.`);
+  }
+  if (record.inputs !== INPUT_COUNT || record.hidden !== HIDDEN_COUNT) {
+    issues.push(`Network must have ${INPUT_COUNT} inputs and ${HIDDEN_COUNT} hidden neurons.`);
+  }
+  if (
+    !Array.isArray(record.weights) ||
+    record.weights.length !== GENOME_LENGTH ||
+    !record.weights.every((weight) => typeof weight === 'number' && Number.isFinite(weight))
+  ) {
+    issues.push(`"weights" must be a list of ${GENOME_LENGTH} finite numbers.`);
+  }
+  for (const key of ['fitness', 'score', 'generation']) {
+    if (typeof record[key] !== 'number' || !Number.isFinite(record[key])) {
+      issues.push(`"${key}" must be a number.`);
+    }
+  }
+
+  if (issues.length > 0) throw new GenomeError(issues);
+  return record as SavedGenome;
+};
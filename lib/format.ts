@@ -0,0 +1,16 @@
+// ------------------------------
+// Display Formatting Helpers
+// ------------------------------
+
+/**
+ * Formats a duration in milliseconds as "m:ss" (or "h:mm:ss" past an hour).
+ */
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+};
@@ -0,0 +1,123 @@
+// ------------------------------
+// 2048 Tile Animations
+// ------------------------------
+// Draws in-between frames of a move from the tile events returned by the
+// engine: tiles slide from their source cell to their destination, merged
+// tiles pop, and the spawned tile grows in once the slide has finished.
+
+import { Board, Position, TileEvent } from "./engine";
+import { CANVAS_SIZE, drawTile } from "./render";
+import { CLASSIC_RULES, RuleSet } from "./rules";
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Default length of a move animation in milliseconds
+export const ANIMATION_DURATION = 150;
+// Share of the animation spent sliding; the rest is the merge pop and spawn
+const SLIDE_SHARE = 0.6;
+// How much larger a merged tile gets at the peak of its pop
+const POP_SCALE = 0.2;
+
+// ------------------------------
+// Helpers
+// ------------------------------
+
+/**
+ * Ease-out curve so tiles decelerate as they reach their destination.
+ */
+const easeOut = (t: number): number => 1 - (1 - t) * (1 - t);
+
+/**
+ * Linear interpolation between two cell positions.
+ */
+const lerpPosition = (from: Position, to: Position, t: number): Position => ({
+  row: from.row + (to.row - from.row) * t,
+  col: from.col + (to.col - from.col) * t,
+});
+
+/**
+ * Checks whether the user asked the browser for reduced motion.
+ * Always false outside the browser.
+ */
+export const prefersReducedMotion = (): boolean =>
+  typeof window !== "undefined" &&
+  typeof window.matchMedia === "function" &&
+  window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+
+// ------------------------------
+// Frame Drawing
+// ------------------------------
+
+/**
+ * Draws one frame of a move animation.
+ * - board: The board after the move (including the spawned tile).
+ * - events: Tile events from the engine step that produced `board`.
+ * - progress: Animation progress from 0 (start) to 1 (finished).
+ */
+export const drawAnimationFrame = (
+  ctx: CanvasRenderingContext2D,
+  board: Board,
+  events: TileEvent[],
+  progress: number,
+  canvasSize: number = CANVAS_SIZE,
+  rules: RuleSet = CLASSIC_RULES
+) => {
+  const gridSize = board.length;
+  const cellSize = canvasSize / gridSize;
+  const slide = easeOut(Math.min(progress / SLIDE_SHARE, 1));
+  // Progress of the merge pop and spawn grow-in, which start after the slide
+  const after = Math.max((progress - SLIDE_SHARE) / (1 - SLIDE_SHARE), 0);
+
+  ctx.clearRect(0, 0, canvasSize, canvasSize);
+
+  // Empty cells underneath everything
+  for (let i = 0; i < gridSize; i++) {
+    for (let j = 0; j < gridSize; j++) {
+      drawTile(ctx, 0, j * cellSize, i * cellSize, cellSize);
+    }
+  }
+
+  // Cells that are drawn by an event instead of straight from the board
+  const animated = new Set<string>();
+  events.forEach((event) => {
+    const cell = event.type === "spawned" ? event.at : event.to;
+    animated.add(`${cell.row},${cell.col}`);
+  });
+
+  // Tiles that did not move
+  for (let i = 0; i < gridSize; i++) {
+    for (let j = 0; j < gridSize; j++) {
+      if (board[i][j] !== 0 && !animated.has(`${i},${j}`)) {
+        drawTile(ctx, board[i][j], j * cellSize, i * cellSize, cellSize, 1, rules);
+      }
+    }
+  }
+
+  // Sliding and merging tiles
+  events.forEach((event) => {
+    if (event.type === "moved") {
+      const pos = lerpPosition(event.from, event.to, slide);
+      drawTile(ctx, event.value, pos.col * cellSize, pos.row * cellSize, cellSize, 1, rules);
+    } else if (event.type === "merged") {
+      if (slide < 1) {
+        // Both parts slide into the destination cell
+        event.from.forEach((from, k) => {
+          const pos = lerpPosition(from, event.to, slide);
+          drawTile(ctx, event.parts[k], pos.col * cellSize, pos.row * cellSize, cellSize, 1, rules);
+        });
+      } else {
+        const scale = 1 + POP_SCALE * Math.sin(Math.PI * after);
+        drawTile(ctx, event.value, event.to.col * cellSize, event.to.row * cellSize, cellSize, scale, rules);
+      }
+    }
+  });
+
+  // The spawned tile grows in last so it is drawn above its neighbours
+  events.forEach((event) => {
+    if (event.type === "spawned" && after > 0) {
+      drawTile(ctx, event.value, event.at.col * cellSize, event.at.row * cellSize, cellSize, after, rules);
+    }
+  });
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+  challengeKey,
+  createPuzzleGame,
+  getChallengeConfig,
+  getChallengeOutcome,
+  getMoveBudget,
+  getNextPuzzle,
+  getPuzzle,
+  Challenge,
+  MOVE_BUDGETS,
+  PUZZLES,
+} from "./challenges";
+import { step, GameState } from "./engine";
+import { createRng } from "../random";
+
+const CONFIG = { size: 4, target: 2048 };
+const blitz: Challenge = { id: "blitz", durationMs: 180000 };
+const budget: Challenge = { id: "moves", budget: { id: "256-in-120", target: 256, moves: 120 } };
+
+/**
+ * Returns a game in progress with the given changes.
+ */
+const gameWith = (changes: Partial<GameState>): GameState => ({
+  board: [
+    [2, 0, 0, 0],
+    [0, 0, 0, 0],
+    [0, 0, 0, 0],
+    [0, 0, 0, 0],
+  ],
+  score: 0,
+  moves: 10,
+  target: 256,
+  won: false,
+  over: false,
+  ...changes,
+});
+
+describe("getChallengeOutcome", () => {
+  it("ends a Blitz game when time runs out or no moves are left", () => {
+    expect(getChallengeOutcome(blitz, gameWith({}), 1000)).toBeNull();
+    expect(getChallengeOutcome(blitz, gameWith({}), 0)).toEqual({ status: "ended", message: "Time's up!" });
+    expect(getChallengeOutcome(blitz, gameWith({ over: true }), 1000)?.status).toBe("ended");
+  });
+
+  it("wins a move budget that reaches its tile in time", () => {
+    expect(getChallengeOutcome(budget, gameWith({ won: true, moves: 120 }), 0)).toEqual({
+      status: "won",
+      message: "Reached 256 in 120 moves.",
+    });
+  });
+
+  it("loses a move budget that runs out of moves or gets stuck", () => {
+    expect(getChallengeOutcome(budget, gameWith({ moves: 119 }), 0)).toBeNull();
+    expect(getChallengeOutcome(budget, gameWith({ moves: 120 }), 0)?.message).toBe(
+      "Out of moves before reaching 256."
+    );
+    expect(getChallengeOutcome(budget, gameWith({ over: true }), 0)).toEqual({
+      status: "lost",
+      message: "No moves left.",
+    });
+  });
+
+  it("never runs out of moves in a puzzle without a limit", () => {
+    const puzzle: Challenge = { id: "puzzle", puzzle: getPuzzle("crowded") };
+    expect(getChallengeOutcome(puzzle, gameWith({ moves: 5000 }), 0)).toBeNull();
+  });
+});
+
+describe("puzzles", () => {
+  it.each(PUZZLES.map((puzzle) => [puzzle.id, puzzle] as const))("%s starts unsolved and playable", (_, puzzle) => {
+    const game = createPuzzleGame(puzzle);
+    expect(game).toMatchObject({ score: 0, moves: 0, target: puzzle.goal, won: false, over: false });
+    expect(game.board).toEqual(puzzle.board);
+    expect(game.board).not.toBe(puzzle.board);
+  });
+
+  it("can be solved within their move limit", () => {
+    const puzzle = getPuzzle("warm-up");
+    const rng = createRng(puzzle.seed);
+    let state = createPuzzleGame(puzzle);
+    for (let i = 0; i < 3; i++) state = step(state, "left", rng.next).state;
+    const outcome = getChallengeOutcome({ id: "puzzle", puzzle }, state, 0);
+    expect(outcome?.status).toBe("won");
+  });
+
+  it("follow each other in order", () => {
+    expect(getNextPuzzle(PUZZLES[0])).toBe(PUZZLES[1]);
+    expect(getNextPuzzle(PUZZLES[PUZZLES.length - 1])).toBeNull();
+    expect(getPuzzle("missing")).toBe(PUZZLES[0]);
+  });
+});
+
+describe("challenge settings", () => {
+  it("set the board each challenge is played on", () => {
+    expect(getChallengeConfig(blitz, CONFIG)).toBe(CONFIG);
+    expect(getChallengeConfig(budget, CONFIG)).toEqual({ size: 4, target: 256 });
+    const puzzle: Challenge = { id: "puzzle", puzzle: getPuzzle("staircase") };
+    expect(getChallengeConfig(puzzle, { size: 6, target: 4096 })).toEqual({ size: 4, target: 256, rules: "classic" });
+  });
+
+  it("keep best scores apart per challenge", () => {
+    expect(challengeKey(blitz, CONFIG)).toBe("blitz-4x4-2048");
+    expect(challengeKey(budget, CONFIG)).toBe("moves-256-in-120-4x4");
+    expect(challengeKey({ id: "puzzle", puzzle: getPuzzle("staircase") }, CONFIG)).toBe("puzzle-staircase");
+    expect(getMoveBudget("missing")).toBe(MOVE_BUDGETS[0]);
+  });
+});
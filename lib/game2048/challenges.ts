@@ -0,0 +1,255 @@
+// ------------------------------
+// 2048 Challenge Modes
+// ------------------------------
+// Challenges put a limit on a game and decide for themselves when it is
+// won or lost, instead of only ending when no moves remain:
+// - Blitz: score as much as possible before the clock runs out.
+// - Move budget: reach a target tile within a number of moves.
+// - Puzzle: reach a goal from a hand-made starting board.
+// Each challenge (and each budget or puzzle) keeps its own best score.
+
+import { configKey, getMaxTile, isGameOver, Board, GameConfig, GameState } from "./engine";
+import { BLOCKED } from "./rules";
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/** Identifiers of the challenge modes. */
+export type ChallengeId = "blitz" | "moves" | "puzzle";
+
+/**
+ * MoveBudget is a move budget preset: reach `target` within `moves` moves.
+ */
+export type MoveBudget = {
+  id: string;
+  target: number;
+  moves: number;
+};
+
+/**
+ * Puzzle is a hand-made starting position.
+ * - board: Starting board (BLOCKED marks a blocked cell).
+ * - goal: Tile to reach.
+ * - moves: Moves allowed, or null for no limit.
+ * - seed: Seed of the tiles that spawn, so every attempt gets the same ones.
+ */
+export type Puzzle = {
+  id: string;
+  title: string;
+  description: string;
+  board: Board;
+  goal: number;
+  moves: number | null;
+  seed: string;
+};
+
+/**
+ * Challenge is an active challenge with its settings.
+ */
+export type Challenge =
+  | { id: "blitz"; durationMs: number }
+  | { id: "moves"; budget: MoveBudget }
+  | { id: "puzzle"; puzzle: Puzzle };
+
+/**
+ * ChallengeOutcome is how a challenge ended.
+ * - won / lost: The goal was (or can no longer be) reached.
+ * - ended: A Blitz game finished; only the score counts.
+ * - message: Why it ended, shown on the overlay.
+ */
+export type ChallengeOutcome = {
+  status: "won" | "lost" | "ended";
+  message: string;
+};
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Length of a Blitz game in milliseconds
+export const BLITZ_DURATION = 180000;
+
+// Move budget presets, easiest first
+export const MOVE_BUDGETS: MoveBudget[] = [
+  { id: "256-in-120", target: 256, moves: 120 },
+  { id: "512-in-220", target: 512, moves: 220 },
+  { id: "1024-in-450", target: 1024, moves: 450 },
+  { id: "2048-in-950", target: 2048, moves: 950 },
+];
+
+const X = BLOCKED;
+
+// Hand-made puzzles, in order of difficulty
+export const PUZZLES: Puzzle[] = [
+  {
+    id: "warm-up",
+    title: "Warm-up",
+    description: "Fold the top row into a 32.",
+    board: [
+      [4, 4, 8, 16],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ],
+    goal: 32,
+    moves: 3,
+    seed: "puzzle-warm-up",
+  },
+  {
+    id: "staircase",
+    title: "Staircase",
+    description: "Every tile has a partner somewhere. Build the 256.",
+    board: [
+      [128, 64, 32, 16],
+      [0, 0, 0, 8],
+      [0, 0, 0, 8],
+      [0, 0, 0, 0],
+    ],
+    goal: 256,
+    moves: 6,
+    seed: "puzzle-staircase",
+  },
+  {
+    id: "walled-garden",
+    title: "Walled Garden",
+    description: "Blocked cells split the board. Find a way to the 128.",
+    board: [
+      [32, X, 16, 16],
+      [32, 0, X, 0],
+      [64, 0, 0, 0],
+      [X, 0, 0, X],
+    ],
+    goal: 128,
+    moves: 3,
+    seed: "puzzle-walled-garden",
+  },
+  {
+    id: "crowded",
+    title: "Crowded",
+    description: "Only two empty cells. Untangle the board and reach 512.",
+    board: [
+      [256, 128, 64, 2],
+      [4, 8, 32, 4],
+      [2, 16, 32, 8],
+      [4, 0, 0, 2],
+    ],
+    goal: 512,
+    moves: null,
+    seed: "puzzle-crowded",
+  },
+  {
+    id: "final-stretch",
+    title: "Final Stretch",
+    description: "Everything is in place for the 2048, if you keep the corner.",
+    board: [
+      [1024, 512, 256, 128],
+      [8, 16, 32, 64],
+      [4, 4, 0, 0],
+      [0, 0, 0, 0],
+    ],
+    goal: 2048,
+    moves: 12,
+    seed: "puzzle-final-stretch",
+  },
+];
+
+// ------------------------------
+// Challenge Helpers
+// ------------------------------
+
+/**
+ * Returns true if `value` names a challenge mode.
+ */
+export const isChallengeId = (value: unknown): value is ChallengeId =>
+  value === "blitz" || value === "moves" || value === "puzzle";
+
+/**
+ * Returns a move budget preset by id (the first one when unknown).
+ */
+export const getMoveBudget = (id?: string): MoveBudget =>
+  MOVE_BUDGETS.find((budget) => budget.id === id) ?? MOVE_BUDGETS[0];
+
+/**
+ * Returns a puzzle by id (the first one when unknown).
+ */
+export const getPuzzle = (id?: string): Puzzle => PUZZLES.find((puzzle) => puzzle.id === id) ?? PUZZLES[0];
+
+/**
+ * Returns the puzzle after `puzzle`, or null for the last one.
+ */
+export const getNextPuzzle = (puzzle: Puzzle): Puzzle | null =>
+  PUZZLES[PUZZLES.findIndex((entry) => entry.id === puzzle.id) + 1] ?? null;
+
+/**
+ * Returns the board settings a challenge plays with: a move budget sets the
+ * winning tile, a puzzle sets both the size and the winning tile. Blitz
+ * keeps the given settings.
+ */
+export const getChallengeConfig = (challenge: Challenge, config: GameConfig): GameConfig => {
+  if (challenge.id === "moves") return { ...config, target: challenge.budget.target };
+  if (challenge.id === "puzzle") {
+    return { size: challenge.puzzle.board.length, target: challenge.puzzle.goal, rules: "classic" };
+  }
+  return config;
+};
+
+/**
+ * Returns the key best scores of a challenge are stored under, e.g.
+ * "blitz-4x4-2048", "moves-512-in-220-4x4" or "puzzle-staircase".
+ */
+export const challengeKey = (challenge: Challenge, config: GameConfig): string => {
+  if (challenge.id === "blitz") return `blitz-${configKey(config)}`;
+  if (challenge.id === "moves") return `moves-${challenge.budget.id}-${config.size}x${config.size}`;
+  return `puzzle-${challenge.puzzle.id}`;
+};
+
+/**
+ * Returns the move limit of a challenge, or null if it has none.
+ */
+export const getMoveLimit = (challenge: Challenge): number | null => {
+  if (challenge.id === "moves") return challenge.budget.moves;
+  if (challenge.id === "puzzle") return challenge.puzzle.moves;
+  return null;
+};
+
+/**
+ * Creates the starting position of a puzzle.
+ */
+export const createPuzzleGame = (puzzle: Puzzle): GameState => {
+  const board = puzzle.board.map((row) => [...row]);
+  return {
+    board,
+    score: 0,
+    moves: 0,
+    target: puzzle.goal,
+    won: getMaxTile(board) >= puzzle.goal,
+    over: isGameOver(board),
+  };
+};
+
+/**
+ * Decides whether a challenge has ended, given the game and (for Blitz) the
+ * time left. Returns null while it is still being played.
+ */
+export const getChallengeOutcome = (
+  challenge: Challenge,
+  state: GameState,
+  timeLeftMs: number
+): ChallengeOutcome | null => {
+  if (challenge.id === "blitz") {
+    if (timeLeftMs <= 0) return { status: "ended", message: "Time's up!" };
+    if (state.over) return { status: "ended", message: "No moves left." };
+    return null;
+  }
+
+  const limit = getMoveLimit(challenge);
+  if (state.won) {
+    return { status: "won", message: `Reached ${state.target} in ${state.moves} moves.` };
+  }
+  if (state.over) return { status: "lost", message: "No moves left." };
+  if (limit !== null && state.moves >= limit) {
+    return { status: "lost", message: `Out of moves before reaching ${state.target}.` };
+  }
+  return null;
+};
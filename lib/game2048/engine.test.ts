@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import { createGame, getEmptyCells, isGameOver, move, step, Board, GameState } from "./engine";
+import { createRng } from "../random";
+import { getRuleSet, BLOCKED } from "./rules";
+
+const X = BLOCKED;
+
+describe("move", () => {
+  it("slides tiles and merges equal neighbours", () => {
+    const { newBoard, totalScore } = move(
+      [
+        [2, 2, 0, 4],
+        [0, 0, 0, 0],
+        [0, 4, 0, 4],
+        [8, 0, 0, 0],
+      ],
+      "left"
+    );
+    expect(newBoard).toEqual([
+      [4, 4, 0, 0],
+      [0, 0, 0, 0],
+      [8, 0, 0, 0],
+      [8, 0, 0, 0],
+    ]);
+    expect(totalScore).toBe(12);
+  });
+
+  it("merges each tile at most once per move", () => {
+    const { newBoard, totalScore } = move([[2, 2, 4, 0], [4, 4, 4, 4], [2, 2, 2, 0], [0, 0, 0, 0]], "left");
+    expect(newBoard).toEqual([
+      [4, 4, 0, 0],
+      [8, 8, 0, 0],
+      [4, 2, 0, 0],
+      [0, 0, 0, 0],
+    ]);
+    expect(totalScore).toBe(4 + 16 + 4);
+  });
+
+  it("merges the tiles nearest the wall first", () => {
+    expect(move([[2, 2, 2], [0, 0, 0], [0, 0, 0]], "right").newBoard).toEqual([
+      [0, 2, 4],
+      [0, 0, 0],
+      [0, 0, 0],
+    ]);
+    expect(move([[2, 0, 0], [2, 0, 0], [2, 0, 0]], "up").newBoard).toEqual([
+      [4, 0, 0],
+      [2, 0, 0],
+      [0, 0, 0],
+    ]);
+  });
+
+  it("keeps blocked cells in place and never slides tiles past them", () => {
+    const { newBoard, totalScore } = move(
+      [
+        [0, 2, X, 2],
+        [2, X, 0, 2],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+      ],
+      "left"
+    );
+    expect(newBoard).toEqual([
+      [2, 0, X, 2],
+      [2, X, 2, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ]);
+    expect(totalScore).toBe(0);
+  });
+
+  it("reports moved and merged tiles as events", () => {
+    const { events } = move([[0, 2, 2], [0, 0, 0], [0, 0, 0]], "left");
+    expect(events).toEqual([
+      {
+        type: "merged",
+        from: [
+          { row: 0, col: 1 },
+          { row: 0, col: 2 },
+        ],
+        to: { row: 0, col: 0 },
+        value: 4,
+        parts: [2, 2],
+      },
+    ]);
+  });
+});
+
+describe("isGameOver", () => {
+  it("is false while a cell is empty", () => {
+    expect(isGameOver([[2, 4], [8, 0]])).toBe(false);
+  });
+
+  it("is false while neighbours can merge", () => {
+    expect(isGameOver([[2, 4], [2, 8]])).toBe(false);
+  });
+
+  it("is true on a full board without merges", () => {
+    expect(isGameOver([[2, 4], [8, 16]])).toBe(true);
+  });
+
+  it("never merges blocked cells with each other", () => {
+    expect(isGameOver([[X, X], [2, 4]])).toBe(true);
+  });
+});
+
+describe("createGame", () => {
+  it("starts with two tiles and a zero score", () => {
+    const game = createGame(createRng("engine-test").next, { size: 4, target: 2048 });
+    const tiles = game.board.flat().filter((value) => value !== 0);
+    expect(tiles).toHaveLength(2);
+    tiles.forEach((value) => expect([2, 4]).toContain(value));
+    expect(game).toMatchObject({ score: 0, moves: 0, target: 2048, won: false, over: false });
+  });
+
+  it("gives the same board for the same seed", () => {
+    const a = createGame(createRng("engine-test").next, { size: 5, target: 2048 });
+    const b = createGame(createRng("engine-test").next, { size: 5, target: 2048 });
+    expect(a.board).toEqual(b.board);
+    expect(a.board).toHaveLength(5);
+  });
+
+  it("places the rule set's blocked cells", () => {
+    const config = { size: 5, target: 2048, rules: "obstacles" as const };
+    const game = createGame(createRng("engine-test").next, config);
+    const blocked = game.board.flat().filter((value) => value === BLOCKED).length;
+    expect(blocked).toBe(getRuleSet("obstacles").blockedCells(5));
+  });
+});
+
+describe("step", () => {
+  const start: GameState = {
+    board: [
+      [2, 2, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ],
+    score: 10,
+    moves: 3,
+    target: 8,
+    won: false,
+    over: false,
+  };
+
+  it("moves, scores and spawns one tile", () => {
+    const { state, events, moved } = step(start, "left", createRng("engine-test").next);
+    expect(moved).toBe(true);
+    expect(state.board[0][0]).toBe(4);
+    expect(state.score).toBe(14);
+    expect(state.moves).toBe(4);
+    expect(getEmptyCells(state.board)).toHaveLength(14);
+    expect(events.filter((event) => event.type === "spawned")).toHaveLength(1);
+  });
+
+  it("returns the same state when the board does not change", () => {
+    const result = step(start, "up", createRng("engine-test").next);
+    expect(result).toEqual({ state: start, events: [], moved: false });
+  });
+
+  it("is deterministic for a seed", () => {
+    const play = () => {
+      const rng = createRng("engine-test");
+      let state = createGame(rng.next, { size: 4, target: 2048 });
+      for (const direction of ["left", "up", "right", "down", "left", "up"] as const) {
+        state = step(state, direction, rng.next).state;
+      }
+      return state;
+    };
+    expect(play()).toEqual(play());
+  });
+
+  it("marks the game won when the target appears", () => {
+    const board: Board = [
+      [4, 4, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ];
+    const { state } = step({ ...start, board }, "left", createRng("engine-test").next);
+    expect(state.won).toBe(true);
+  });
+
+  it("does nothing once the game is over", () => {
+    const over = { ...start, board: [[2, 4], [8, 16]], over: true };
+    expect(step(over, "left", createRng("engine-test").next).moved).toBe(false);
+  });
+});
@@ -0,0 +1,447 @@
+// ------------------------------
+// 2048 Game Engine
+// ------------------------------
+// Pure, UI-free implementation of the 2048 rules. Every function here
+// returns new data instead of mutating its input, so the same engine can
+// drive the canvas component, bots and offline scripts. Merging, spawning
+// and blocked cells follow a rule set (see rules.ts); classic 2048 is the
+// default.
+
+import { Rng } from "../random";
+import {
+  getRuleSet,
+  pickSpawn,
+  formatSpawn,
+  BLOCKED,
+  CLASSIC_RULES,
+  RuleSet,
+  RuleSetId,
+  SpawnEntry,
+} from "./rules";
+
+export type { Rng };
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/** The four directions the board can be shifted in. */
+export type Direction = "up" | "down" | "left" | "right";
+
+/** All directions, in a stable order (useful for bots and input mapping). */
+export const DIRECTIONS: readonly Direction[] = ["up", "down", "left", "right"];
+
+/** A square grid of tile values, where 0 marks an empty cell and BLOCKED a blocked one. */
+export type Board = number[][];
+
+/** Row/column coordinates of a cell on the board. */
+export type Position = { row: number; col: number };
+
+/**
+ * TileEvent describes what happened to a single tile during a step.
+ * - moved: a tile slid from one cell to another without merging.
+ * - merged: two tiles (with values `parts`) slid into the same cell and
+ *   combined into `value`.
+ * - spawned: a new tile appeared after the move.
+ */
+export type TileEvent =
+  | { type: "moved"; from: Position; to: Position; value: number }
+  | { type: "merged"; from: [Position, Position]; to: Position; value: number; parts: [number, number] }
+  | { type: "spawned"; at: Position; value: number };
+
+/**
+ * GameState is an immutable snapshot of a game.
+ * - board: Current tile values.
+ * - score: Sum of all merged tile values so far.
+ * - moves: Number of moves that changed the board.
+ * - target: Tile value that wins the game.
+ * - won: True once the target tile has appeared (stays true afterwards).
+ * - over: True when no move can change the board any more.
+ */
+export type GameState = {
+  readonly board: Board;
+  readonly score: number;
+  readonly moves: number;
+  readonly target: number;
+  readonly won: boolean;
+  readonly over: boolean;
+};
+
+/**
+ * GameConfig selects the board size, the winning tile and the rules for a
+ * new game.
+ * - rules: Rule set (classic when omitted).
+ * - spawn: Custom spawn distribution replacing the rule set's own.
+ */
+export type GameConfig = {
+  size: number;
+  target: number;
+  rules?: RuleSetId;
+  spawn?: SpawnEntry[];
+};
+
+/** Result of shifting a board without spawning a new tile. */
+export type MoveResult = {
+  newBoard: Board;
+  totalScore: number;
+  events: TileEvent[];
+};
+
+/** Result of a full game step: the new state and what happened to the tiles. */
+export type StepResult = {
+  state: GameState;
+  events: TileEvent[];
+  moved: boolean;
+};
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Default grid size (4x4 board for 2048)
+export const GRID_SIZE = 4;
+// Smallest and largest supported grid sizes
+export const MIN_GRID_SIZE = 3;
+export const MAX_GRID_SIZE = 8;
+// Default tile value that wins the game
+export const WIN_TILE = 2048;
+// Smallest and largest supported winning tiles
+export const MIN_WIN_TILE = 8;
+export const MAX_WIN_TILE = 131072;
+
+export const DEFAULT_CONFIG: GameConfig = { size: GRID_SIZE, target: WIN_TILE, rules: "classic" };
+
+// ------------------------------
+// Configuration Helpers
+// ------------------------------
+
+/**
+ * Checks whether a value is a power of two (1, 2, 4, 8, ...).
+ */
+export const isPowerOfTwo = (value: number): boolean =>
+  Number.isInteger(value) && value > 0 && (value & (value - 1)) === 0;
+
+/**
+ * Checks whether a board size is within the supported range.
+ */
+export const isValidSize = (size: number): boolean =>
+  Number.isInteger(size) && size >= MIN_GRID_SIZE && size <= MAX_GRID_SIZE;
+
+/**
+ * Checks whether a winning tile is a tile of the rule set within the
+ * supported range (a power of two for the classic rules).
+ */
+export const isValidTarget = (target: number, rules: RuleSet = CLASSIC_RULES): boolean =>
+  rules.isTile(target) && target >= MIN_WIN_TILE && target <= MAX_WIN_TILE;
+
+/**
+ * Returns the rule set a config plays with.
+ */
+export const getConfigRules = (config: GameConfig): RuleSet => getRuleSet(config.rules, config.spawn);
+
+/**
+ * Builds a config from loosely typed input (for example route query values),
+ * falling back to the defaults for anything missing or out of range.
+ */
+export const parseConfig = (input: {
+  size?: string | number | null;
+  target?: string | number | null;
+  rules?: string | null;
+}): GameConfig => {
+  const size = Number(input.size);
+  const target = Number(input.target);
+  const rules = getRuleSet(input.rules ?? undefined);
+  return {
+    size: isValidSize(size) ? size : DEFAULT_CONFIG.size,
+    target: isValidTarget(target, rules) ? target : rules.defaultTarget,
+    rules: rules.id,
+  };
+};
+
+/**
+ * Returns a stable key for a config, e.g. "4x4-2048" for the classic rules
+ * or "4x4-2584-fibonacci" for a variant.
+ * Used to keep best scores separate for each size/target/rules combination.
+ */
+export const configKey = ({ size, target, rules, spawn }: GameConfig): string =>
+  `${size}x${size}-${target}` +
+  (rules && rules !== "classic" ? `-${rules}` : "") +
+  (spawn ? `-spawn(${formatSpawn(spawn)})` : "");
+
+// ------------------------------
+// Board Helpers
+// ------------------------------
+
+/**
+ * Creates an empty board with all cells set to 0.
+ */
+export const createEmptyBoard = (size: number = GRID_SIZE): Board =>
+  Array.from({ length: size }, () => Array(size).fill(0));
+
+/**
+ * Returns a deep copy of the board.
+ */
+export const cloneBoard = (board: Board): Board => board.map((row) => [...row]);
+
+/**
+ * Checks whether two boards are equal.
+ */
+export const boardsEqual = (a: Board, b: Board): boolean => {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i].length !== b[i].length) return false;
+    for (let j = 0; j < a[i].length; j++) {
+      if (a[i][j] !== b[i][j]) return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * Returns the coordinates of all empty cells, in row-major order.
+ */
+export const getEmptyCells = (board: Board): Position[] => {
+  const emptyCells: Position[] = [];
+  board.forEach((row, i) =>
+    row.forEach((cell, j) => {
+      if (cell === 0) emptyCells.push({ row: i, col: j });
+    })
+  );
+  return emptyCells;
+};
+
+/**
+ * Returns the highest tile value on the board (0 for an empty board).
+ */
+export const getMaxTile = (board: Board): number =>
+  board.reduce((max, row) => Math.max(max, ...row), 0);
+
+/**
+ * Adds a random tile from the rule set's spawn distribution (classic: 2
+ * with 90% probability, otherwise 4) in one of the empty cells. Returns a
+ * new board and the spawned tile, or a copy of the board and null when the
+ * board is full.
+ */
+export const addRandomTile = (
+  board: Board,
+  rng: Rng,
+  rules: RuleSet = CLASSIC_RULES
+): { board: Board; tile: { at: Position; value: number } | null } => {
+  const emptyCells = getEmptyCells(board);
+  const next = cloneBoard(board);
+  if (emptyCells.length === 0) return { board: next, tile: null };
+  const at = emptyCells[Math.floor(rng() * emptyCells.length)];
+  const value = pickSpawn(rules.spawn, rng());
+  next[at.row][at.col] = value;
+  return { board: next, tile: { at, value } };
+};
+
+/**
+ * Turns `count` random empty cells into blocked cells.
+ */
+export const addBlockedCells = (board: Board, rng: Rng, count: number): Board => {
+  const next = cloneBoard(board);
+  for (let i = 0; i < count; i++) {
+    const emptyCells = getEmptyCells(next);
+    if (emptyCells.length === 0) break;
+    const at = emptyCells[Math.floor(rng() * emptyCells.length)];
+    next[at.row][at.col] = BLOCKED;
+  }
+  return next;
+};
+
+// ------------------------------
+// Moves
+// ------------------------------
+
+/**
+ * Returns the cell coordinates of one line of the board, ordered from the
+ * edge the tiles slide towards to the opposite edge.
+ */
+const getLine = (size: number, index: number, direction: Direction): Position[] => {
+  const line: Position[] = [];
+  for (let k = 0; k < size; k++) {
+    switch (direction) {
+      case "left":
+        line.push({ row: index, col: k });
+        break;
+      case "right":
+        line.push({ row: index, col: size - 1 - k });
+        break;
+      case "up":
+        line.push({ row: k, col: index });
+        break;
+      case "down":
+        line.push({ row: size - 1 - k, col: index });
+        break;
+    }
+  }
+  return line;
+};
+
+/**
+ * Splits a line at its blocked cells into the runs of cells tiles can
+ * slide along.
+ */
+const getSegments = (board: Board, line: Position[]): Position[][] => {
+  const segments: Position[][] = [[]];
+  line.forEach((pos) => {
+    if (board[pos.row][pos.col] === BLOCKED) segments.push([]);
+    else segments[segments.length - 1].push(pos);
+  });
+  return segments;
+};
+
+/**
+ * Shifts the board in the given direction and merges the neighbours the
+ * rule set lets combine (equal tiles in classic 2048). Each tile merges at
+ * most once per move, and tiles never pass a blocked cell. Returns the new
+ * board, the score gained from merges and a moved/merged event for every
+ * tile that changed.
+ */
+export const move = (board: Board, direction: Direction, rules: RuleSet = CLASSIC_RULES): MoveResult => {
+  const size = board.length;
+  const newBoard = createEmptyBoard(size);
+  const events: TileEvent[] = [];
+  let totalScore = 0;
+
+  for (let i = 0; i < size; i++) {
+    const line = getLine(size, i, direction);
+    line.forEach((pos) => {
+      if (board[pos.row][pos.col] === BLOCKED) newBoard[pos.row][pos.col] = BLOCKED;
+    });
+
+    getSegments(board, line).forEach((segment) => {
+      // Collect the non-empty tiles of this segment with their origin cell
+      const tiles = segment
+        .map((pos) => ({ pos, value: board[pos.row][pos.col] }))
+        .filter((tile) => tile.value !== 0);
+
+      let target = 0;
+      for (let k = 0; k < tiles.length; k++) {
+        const to = segment[target];
+        const current = tiles[k];
+        const next = tiles[k + 1];
+        const merged = next ? rules.merge(current.value, next.value) : null;
+        if (next && merged !== null) {
+          newBoard[to.row][to.col] = merged;
+          totalScore += merged;
+          events.push({
+            type: "merged",
+            from: [current.pos, next.pos],
+            to,
+            value: merged,
+            parts: [current.value, next.value],
+          });
+          k++;
+        } else {
+          newBoard[to.row][to.col] = current.value;
+          if (current.pos.row !== to.row || current.pos.col !== to.col) {
+            events.push({ type: "moved", from: current.pos, to, value: current.value });
+          }
+        }
+        target++;
+      }
+    });
+  }
+
+  return { newBoard, totalScore, events };
+};
+
+/**
+ * Moves the entire board to the left.
+ */
+export const moveLeft = (board: Board): MoveResult => move(board, "left");
+
+/**
+ * Moves the board to the right.
+ */
+export const moveRight = (board: Board): MoveResult => move(board, "right");
+
+/**
+ * Moves the board upward.
+ */
+export const moveUp = (board: Board): MoveResult => move(board, "up");
+
+/**
+ * Moves the board downward.
+ */
+export const moveDown = (board: Board): MoveResult => move(board, "down");
+
+/**
+ * Checks if the game is over by verifying that no moves are possible.
+ */
+export const isGameOver = (board: Board, rules: RuleSet = CLASSIC_RULES): boolean => {
+  const size = board.length;
+  // If there is any empty cell, the game is not over
+  if (getEmptyCells(board).length > 0) return false;
+  // Check for adjacent tiles that can be merged (blocked cells never merge)
+  const canMerge = (a: number, b: number) =>
+    a !== BLOCKED && b !== BLOCKED && (rules.merge(a, b) !== null || rules.merge(b, a) !== null);
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j < size; j++) {
+      if (j < size - 1 && canMerge(board[i][j], board[i][j + 1])) return false;
+      if (i < size - 1 && canMerge(board[i][j], board[i + 1][j])) return false;
+    }
+  }
+  return true;
+};
+
+// ------------------------------
+// Game State
+// ------------------------------
+
+/**
+ * Creates a new game: an empty board with the rule set's blocked cells
+ * (if any) and two random tiles.
+ */
+export const createGame = (rng: Rng, config: GameConfig = DEFAULT_CONFIG): GameState => {
+  const rules = getConfigRules(config);
+  const blocked = addBlockedCells(createEmptyBoard(config.size), rng, rules.blockedCells(config.size));
+  const first = addRandomTile(blocked, rng, rules);
+  const second = addRandomTile(first.board, rng, rules);
+  return {
+    board: second.board,
+    score: 0,
+    moves: 0,
+    target: config.target,
+    won: false,
+    over: isGameOver(second.board, rules),
+  };
+};
+
+/**
+ * Plays one move under the given rules. If the board does not change (or
+ * the game is already over) the original state is returned with
+ * `moved: false` and no events. Otherwise a random tile is spawned and the
+ * score, move count and won/over flags are updated.
+ */
+export const step = (
+  state: GameState,
+  direction: Direction,
+  rng: Rng,
+  rules: RuleSet = CLASSIC_RULES
+): StepResult => {
+  if (state.over) return { state, events: [], moved: false };
+
+  const { newBoard, totalScore, events } = move(state.board, direction, rules);
+  if (boardsEqual(state.board, newBoard)) {
+    return { state, events: [], moved: false };
+  }
+
+  const { board, tile } = addRandomTile(newBoard, rng, rules);
+  if (tile) events.push({ type: "spawned", at: tile.at, value: tile.value });
+
+  return {
+    state: {
+      board,
+      score: state.score + totalScore,
+      moves: state.moves + 1,
+      target: state.target,
+      won: state.won || getMaxTile(board) >= state.target,
+      over: isGameOver(board, rules),
+    },
+    events,
+    moved: true,
+  };
+};
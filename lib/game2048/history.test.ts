@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { canRedo, canUndo, createHistory, pushHistory, redo, undo, History } from "./history";
+import { GameState, TileEvent } from "./engine";
+
+/**
+ * Returns a game state that only differs from others by its move count.
+ */
+const stateAt = (moves: number): GameState => ({
+  board: [
+    [2, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ],
+  score: moves * 4,
+  moves,
+  target: 2048,
+  won: false,
+  over: false,
+});
+
+/**
+ * Returns the events of a move that spawned a tile of `value`.
+ */
+const spawnedAt = (value: number): TileEvent[] => [{ type: "spawned", at: { row: 1, col: 1 }, value }];
+
+/**
+ * Plays `count` moves on top of a history, each spawning a 2.
+ */
+const playMoves = (history: History, count: number): History => {
+  let next = history;
+  for (let i = 0; i < count; i++) {
+    const moves = next.present.state.moves + 1;
+    next = pushHistory(next, stateAt(moves), spawnedAt(2), moves * 10);
+  }
+  return next;
+};
+
+describe("pushHistory", () => {
+  it("keeps the spawned tile and RNG state of a move", () => {
+    const history = pushHistory(createHistory(stateAt(0), 0), stateAt(1), spawnedAt(4), 42);
+    expect(history.present).toEqual({ state: stateAt(1), spawned: { at: { row: 1, col: 1 }, value: 4 }, rngState: 42 });
+    expect(history.past).toHaveLength(1);
+    expect(history.past[0].spawned).toBeNull();
+  });
+
+  it("drops the oldest snapshots past the limit", () => {
+    const history = playMoves(createHistory(stateAt(0), 0, { limit: 3 }), 5);
+    expect(history.past.map((snapshot) => snapshot.state.moves)).toEqual([2, 3, 4]);
+  });
+
+  it("discards the redoable moves", () => {
+    const history = playMoves(undo(undo(playMoves(createHistory(stateAt(0), 0), 3))), 1);
+    expect(canRedo(history)).toBe(false);
+    expect(history.present.state.moves).toBe(2);
+  });
+});
+
+describe("undo and redo", () => {
+  it("step back and forward through the moves", () => {
+    const played = playMoves(createHistory(stateAt(0), 0), 3);
+    const undone = undo(undo(played));
+    expect(undone.present.state.moves).toBe(1);
+    expect(undone.present.rngState).toBe(10);
+    expect(redo(redo(undone))).toEqual(played);
+  });
+
+  it("do nothing at either end of the history", () => {
+    const start = createHistory(stateAt(0), 0);
+    expect(canUndo(start)).toBe(false);
+    expect(undo(start)).toBe(start);
+    expect(redo(start)).toBe(start);
+  });
+
+  it("stop undoing once the undo limit is used up", () => {
+    const played = playMoves(createHistory(stateAt(0), 0, { maxUndos: 2 }), 4);
+    const undone = undo(undo(played));
+    expect(undone.undosLeft).toBe(0);
+    expect(canUndo(undone)).toBe(false);
+    expect(undo(undone)).toBe(undone);
+    // Redoing does not give undos back
+    expect(redo(undone).undosLeft).toBe(0);
+  });
+
+  it("never allow undos when the limit is zero", () => {
+    expect(canUndo(playMoves(createHistory(stateAt(0), 0, { maxUndos: 0 }), 2))).toBe(false);
+  });
+
+  it("allow any number of undos without a limit", () => {
+    let history = playMoves(createHistory(stateAt(0), 0), 10);
+    for (let i = 0; i < 10; i++) history = undo(history);
+    expect(history.present.state.moves).toBe(0);
+    expect(history.undosLeft).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+// ------------------------------
+// 2048 Move History (Undo / Redo)
+// ------------------------------
+// A bounded undo/redo stack of game snapshots. Like the engine, every
+// function returns a new History instead of mutating the one passed in.
+
+import { GameState, Position, TileEvent } from "./engine";
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/**
+ * Snapshot is one entry in the history.
+ * - state: The game state after the move (board, score, move count, flags).
+ * - spawned: The tile that appeared after the move, or null for the
+ *   starting position.
+ * - rngState: Seeded RNG state after the move, so undoing also rewinds the
+ *   tile spawns and the same seed plus the same moves gives the same game.
+ */
+export type Snapshot = {
+  state: GameState;
+  spawned: { at: Position; value: number } | null;
+  rngState: number;
+};
+
+/**
+ * History holds the snapshots around the current position.
+ * - past: Older snapshots, oldest first.
+ * - present: The snapshot currently shown.
+ * - future: Undone snapshots that can be redone, next one first.
+ * - limit: Maximum number of snapshots kept in `past`.
+ * - undosLeft: Remaining undos for this game, or null when unlimited.
+ */
+export type History = {
+  past: Snapshot[];
+  present: Snapshot;
+  future: Snapshot[];
+  limit: number;
+  undosLeft: number | null;
+};
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Default number of moves that can be undone
+export const HISTORY_LIMIT = 100;
+
+// ------------------------------
+// History Functions
+// ------------------------------
+
+/**
+ * Starts a new history at the given state and RNG state.
+ * Pass `maxUndos` to limit how many times the player may undo in this game.
+ */
+export const createHistory = (
+  state: GameState,
+  rngState: number,
+  options: { limit?: number; maxUndos?: number | null } = {}
+): History => ({
+  past: [],
+  present: { state, spawned: null, rngState },
+  future: [],
+  limit: options.limit ?? HISTORY_LIMIT,
+  undosLeft: options.maxUndos ?? null,
+});
+
+/**
+ * Records a new move. The spawned tile is taken from the step events.
+ * Any redoable snapshots are discarded, and the oldest snapshot is dropped
+ * once the history grows past its limit.
+ */
+export const pushHistory = (
+  history: History,
+  state: GameState,
+  events: TileEvent[],
+  rngState: number
+): History => {
+  const spawn = events.find((event) => event.type === "spawned");
+  const spawned = spawn && spawn.type === "spawned" ? { at: spawn.at, value: spawn.value } : null;
+  const past = [...history.past, history.present];
+  return {
+    ...history,
+    past: past.length > history.limit ? past.slice(past.length - history.limit) : past,
+    present: { state, spawned, rngState },
+    future: [],
+  };
+};
+
+/**
+ * Checks whether there is a move to undo and undos are still allowed.
+ */
+export const canUndo = (history: History): boolean =>
+  history.past.length > 0 && (history.undosLeft === null || history.undosLeft > 0);
+
+/**
+ * Checks whether there is an undone move to redo.
+ */
+export const canRedo = (history: History): boolean => history.future.length > 0;
+
+/**
+ * Steps back one move. Returns the history unchanged if undo is not possible.
+ */
+export const undo = (history: History): History => {
+  if (!canUndo(history)) return history;
+  const previous = history.past[history.past.length - 1];
+  return {
+    ...history,
+    past: history.past.slice(0, -1),
+    present: previous,
+    future: [history.present, ...history.future],
+    undosLeft: history.undosLeft === null ? null : history.undosLeft - 1,
+  };
+};
+
+/**
+ * Steps forward one undone move. Returns the history unchanged if there is
+ * nothing to redo.
+ */
+export const redo = (history: History): History => {
+  if (!canRedo(history)) return history;
+  const [next, ...future] = history.future;
+  return {
+    ...history,
+    past: [...history.past, history.present],
+    present: next,
+    future,
+  };
+};
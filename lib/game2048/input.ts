@@ -0,0 +1,228 @@
+// ------------------------------
+// 2048 Input Handling
+// ------------------------------
+// Turns keyboard keys, swipe gestures and gamepad input into move
+// directions. Every source feeds the same callback through one debouncer,
+// so holding a key or a stick does not flood the game with moves. Each
+// board listens to its own keys (and optionally its own gamepad), so two
+// boards can share a keyboard.
+
+import { RefObject, useEffect, useRef } from "react";
+import { Direction } from "./engine";
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/** Keys mapped to the direction they move the board (letters in lower case). */
+export type KeyMap = { [key: string]: Direction };
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+/** The arrow keys. */
+export const ARROW_KEYS: KeyMap = {
+  ArrowUp: "up",
+  ArrowDown: "down",
+  ArrowLeft: "left",
+  ArrowRight: "right",
+};
+
+/** WASD, the left-hand keys. */
+export const WASD_KEYS: KeyMap = {
+  w: "up",
+  s: "down",
+  a: "left",
+  d: "right",
+};
+
+/** Keys that move a single board: arrows, WASD and vim-style HJKL. */
+export const KEY_DIRECTIONS: KeyMap = {
+  ...ARROW_KEYS,
+  ...WASD_KEYS,
+  k: "up",
+  j: "down",
+  h: "left",
+  l: "right",
+};
+
+// Minimum time between two identical inputs, in milliseconds
+export const REPEAT_DELAY = 120;
+// A swipe must travel this many pixels...
+export const SWIPE_MIN_DISTANCE = 30;
+// ...or be at least this fast (pixels per millisecond) over a shorter distance
+export const SWIPE_MIN_VELOCITY = 0.3;
+// Shortest distance that still counts as a fast flick
+const SWIPE_FLICK_DISTANCE = 10;
+// Stick deflection needed before it counts as a direction
+export const STICK_DEADZONE = 0.5;
+
+// Standard gamepad mapping indices of the d-pad buttons
+const DPAD_BUTTONS: { index: number; direction: Direction }[] = [
+  { index: 12, direction: "up" },
+  { index: 13, direction: "down" },
+  { index: 14, direction: "left" },
+  { index: 15, direction: "right" },
+];
+
+// ------------------------------
+// Input Helpers
+// ------------------------------
+
+/**
+ * Returns the direction of a key press in a key map, or null for other keys.
+ * Letter keys work regardless of Caps Lock or Shift.
+ */
+export const getKeyDirection = (key: string, keys: KeyMap = KEY_DIRECTIONS): Direction | null =>
+  keys[key] ?? keys[key.toLowerCase()] ?? null;
+
+/**
+ * Returns the direction of a swipe that moved (dx, dy) pixels in `durationMs`,
+ * or null if it was too short and too slow to count.
+ */
+export const getSwipeDirection = (dx: number, dy: number, durationMs: number): Direction | null => {
+  const distance = Math.max(Math.abs(dx), Math.abs(dy));
+  const velocity = distance / Math.max(durationMs, 1);
+  const isSwipe =
+    distance >= SWIPE_MIN_DISTANCE ||
+    (distance >= SWIPE_FLICK_DISTANCE && velocity >= SWIPE_MIN_VELOCITY);
+  if (!isSwipe) return null;
+  if (Math.abs(dx) > Math.abs(dy)) return dx > 0 ? "right" : "left";
+  return dy > 0 ? "down" : "up";
+};
+
+/**
+ * Returns the direction a gamepad's d-pad or left stick is pointing, or null.
+ */
+export const getGamepadDirection = (gamepad: Gamepad): Direction | null => {
+  const pressed = DPAD_BUTTONS.find(({ index }) => gamepad.buttons[index]?.pressed);
+  if (pressed) return pressed.direction;
+
+  const [x = 0, y = 0] = gamepad.axes;
+  if (Math.max(Math.abs(x), Math.abs(y)) < STICK_DEADZONE) return null;
+  if (Math.abs(x) > Math.abs(y)) return x > 0 ? "right" : "left";
+  return y > 0 ? "down" : "up";
+};
+
+/**
+ * Creates a debouncer that rejects the same direction repeated within
+ * `delay` milliseconds. A different direction is always accepted.
+ */
+export const createDebouncer = (delay: number = REPEAT_DELAY) => {
+  let lastDirection: Direction | null = null;
+  let lastTime = -Infinity;
+  return (direction: Direction, now: number): boolean => {
+    if (direction === lastDirection && now - lastTime < delay) return false;
+    lastDirection = direction;
+    lastTime = now;
+    return true;
+  };
+};
+
+/**
+ * Checks whether a keyboard event comes from a form control, where arrow
+ * keys and letters belong to the control rather than the game.
+ */
+export const isFormField = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.tagName === "INPUT" || target.tagName === "SELECT" || target.tagName === "TEXTAREA");
+
+// ------------------------------
+// useDirectionInput Hook
+// ------------------------------
+
+/**
+ * Calls `onDirection` for every keyboard, swipe or gamepad move.
+ * - swipeTarget: Element that listens for swipe gestures (usually the canvas).
+ * - enabled: Set to false to ignore all input.
+ * - keys: Keys this board listens to (defaults to KEY_DIRECTIONS); should be
+ *   a constant so the listeners are not re-attached.
+ * - gamepadIndex: Only follow the gamepad with this index (every pad when omitted).
+ */
+export const useDirectionInput = (
+  onDirection: (direction: Direction) => void,
+  options: {
+    swipeTarget?: RefObject<HTMLElement | null>;
+    enabled?: boolean;
+    keys?: KeyMap;
+    gamepadIndex?: number;
+  } = {}
+) => {
+  const { swipeTarget, enabled = true, keys = KEY_DIRECTIONS, gamepadIndex } = options;
+  // Latest callback, so listeners are not re-attached on every render
+  const onDirectionRef = useRef(onDirection);
+  // Shared debouncer for all input sources
+  const debounceRef = useRef(createDebouncer());
+
+  useEffect(() => {
+    onDirectionRef.current = onDirection;
+  }, [onDirection]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const dispatch = (direction: Direction) => {
+      if (debounceRef.current(direction, performance.now())) {
+        onDirectionRef.current(direction);
+      }
+    };
+
+    // Keyboard: this board's keys
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isFormField(e.target)) return;
+      const direction = getKeyDirection(e.key, keys);
+      if (direction) {
+        e.preventDefault();
+        dispatch(direction);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+
+    // Swipes on the target element
+    const element = swipeTarget?.current;
+    let swipeStart: { x: number; y: number; time: number } | null = null;
+    const handlePointerDown = (e: PointerEvent) => {
+      swipeStart = { x: e.clientX, y: e.clientY, time: performance.now() };
+    };
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!swipeStart) return;
+      const direction = getSwipeDirection(
+        e.clientX - swipeStart.x,
+        e.clientY - swipeStart.y,
+        performance.now() - swipeStart.time
+      );
+      swipeStart = null;
+      if (direction) dispatch(direction);
+    };
+    const handlePointerCancel = () => {
+      swipeStart = null;
+    };
+    element?.addEventListener("pointerdown", handlePointerDown);
+    element?.addEventListener("pointerup", handlePointerUp);
+    element?.addEventListener("pointercancel", handlePointerCancel);
+
+    // Gamepads: poll every frame and fire when a pad starts pointing somewhere new
+    let frameId = 0;
+    const held = new Map<number, Direction | null>();
+    const pollGamepads = () => {
+      const pads = typeof navigator.getGamepads === "function" ? navigator.getGamepads() : [];
+      for (const pad of pads) {
+        if (!pad || (gamepadIndex !== undefined && pad.index !== gamepadIndex)) continue;
+        const direction = getGamepadDirection(pad);
+        if (direction && held.get(pad.index) !== direction) dispatch(direction);
+        held.set(pad.index, direction);
+      }
+      frameId = requestAnimationFrame(pollGamepads);
+    };
+    frameId = requestAnimationFrame(pollGamepads);
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      element?.removeEventListener("pointerdown", handlePointerDown);
+      element?.removeEventListener("pointerup", handlePointerUp);
+      element?.removeEventListener("pointercancel", handlePointerCancel);
+      cancelAnimationFrame(frameId);
+    };
+  }, [enabled, swipeTarget, keys, gamepadIndex]);
+};
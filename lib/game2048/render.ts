@@ -0,0 +1,153 @@
+// ------------------------------
+// 2048 Canvas Rendering
+// ------------------------------
+// Drawing helpers shared by the game, the replay player and anything else
+// that shows a 2048 board on a canvas.
+
+import { Board, GameState } from "./engine";
+import { BLOCKED, CLASSIC_RULES, RuleSet } from "./rules";
+
+// Canvas size (width and height); tiles are scaled to fit the grid size
+export const CANVAS_SIZE = 400;
+// Height of the score band above the board in snapshots
+const SNAPSHOT_BAND = 56;
+// Snapshot size: the board plus the score band
+export const SNAPSHOT_WIDTH = CANVAS_SIZE;
+export const SNAPSHOT_HEIGHT = CANVAS_SIZE + SNAPSHOT_BAND;
+
+// Classic tile colors; other rule sets reuse them by tile rank
+const TILE_COLORS: { [key: number]: { background: string; text: string } } = {
+  2: { background: "#eee4da", text: "#776e65" },
+  4: { background: "#ede0c8", text: "#776e65" },
+  8: { background: "#f2b179", text: "#ffffff" },
+  16: { background: "#f59563", text: "#ffffff" },
+  32: { background: "#f67c5f", text: "#ffffff" },
+  64: { background: "#f65e3b", text: "#ffffff" },
+  128: { background: "#edcf72", text: "#ffffff" },
+  256: { background: "#edcc61", text: "#ffffff" },
+  512: { background: "#edc850", text: "#ffffff" },
+  1024: { background: "#edc53f", text: "#ffffff" },
+  2048: { background: "#edc22e", text: "#ffffff" },
+};
+
+/**
+ * Returns the background and text colors for a given tile value under the
+ * given rules. Empty (value 0) and blocked cells have colors of their own;
+ * other tiles take the classic color of the same rank (so a Fibonacci 3,
+ * the third tile, looks like a classic 8).
+ */
+export const getTileColors = (value: number, rules: RuleSet = CLASSIC_RULES) => {
+  // Color for empty cells:
+  if (value === 0) {
+    return { background: "#cdc1b4", text: "#776e65" };
+  }
+  if (value === BLOCKED) {
+    return { background: "#5c534b", text: "#5c534b" };
+  }
+  const override = rules.tileColors?.[value];
+  if (override) return override;
+  return TILE_COLORS[2 ** rules.tileRank(value)] || { background: "#3c3a32", text: "#ffffff" };
+};
+
+/**
+ * Returns a font size for a tile value that keeps long numbers inside the tile.
+ */
+export const getTileFontSize = (value: number, tileSize: number): number => {
+  const digits = String(value).length;
+  if (digits <= 2) return tileSize * 0.4;
+  if (digits === 3) return tileSize * 0.34;
+  if (digits === 4) return tileSize * 0.28;
+  return tileSize * 0.22;
+};
+
+/**
+ * Draws a single tile (background, border and number) in the cell whose
+ * top-left corner is at (x, y). `scale` shrinks or grows the tile around the
+ * cell center (used by the spawn and merge animations).
+ */
+export const drawTile = (
+  ctx: CanvasRenderingContext2D,
+  value: number,
+  x: number,
+  y: number,
+  cellSize: number,
+  scale: number = 1,
+  rules: RuleSet = CLASSIC_RULES
+) => {
+  if (scale <= 0) return;
+  const { background, text } = getTileColors(value, rules);
+  const tileSize = cellSize * scale;
+  x += (cellSize - tileSize) / 2;
+  y += (cellSize - tileSize) / 2;
+  const padding = tileSize * 0.05;
+
+  // Draw tile background with padding
+  ctx.fillStyle = background;
+  ctx.fillRect(x + padding, y + padding, tileSize - padding * 2, tileSize - padding * 2);
+
+  // Draw a thick border around the tile
+  ctx.lineWidth = Math.max(2, tileSize * 0.04);
+  ctx.strokeStyle = "#444444";
+  ctx.strokeRect(x + padding, y + padding, tileSize - padding * 2, tileSize - padding * 2);
+
+  // If the tile is a number, draw it in the center
+  if (value !== 0 && value !== BLOCKED) {
+    ctx.fillStyle = text;
+    ctx.font = `bold ${getTileFontSize(value, tileSize)}px Arial`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(String(value), x + tileSize / 2, y + tileSize / 2);
+  }
+};
+
+/**
+ * Draws the whole board, scaling the tiles to fill a square canvas of
+ * `canvasSize` pixels.
+ */
+export const drawBoard = (
+  ctx: CanvasRenderingContext2D,
+  board: Board,
+  canvasSize: number = CANVAS_SIZE,
+  rules: RuleSet = CLASSIC_RULES
+) => {
+  // Clear the entire canvas
+  ctx.clearRect(0, 0, canvasSize, canvasSize);
+
+  const gridSize = board.length;
+  const tileSize = canvasSize / gridSize;
+
+  // Loop through the grid and draw each tile
+  for (let i = 0; i < gridSize; i++) {
+    for (let j = 0; j < gridSize; j++) {
+      drawTile(ctx, board[i][j], j * tileSize, i * tileSize, tileSize, 1, rules);
+    }
+  }
+};
+
+/**
+ * Draws a snapshot of a game for screenshots and GIFs: a band with the
+ * score and move count above the board, on an opaque background.
+ * The snapshot is SNAPSHOT_WIDTH x SNAPSHOT_HEIGHT pixels.
+ */
+export const drawSnapshot = (ctx: CanvasRenderingContext2D, state: GameState, rules: RuleSet = CLASSIC_RULES) => {
+  ctx.fillStyle = "#312626";
+  ctx.fillRect(0, 0, SNAPSHOT_WIDTH, SNAPSHOT_BAND);
+  ctx.fillStyle = "#ffffff";
+  ctx.font = "bold 24px Arial";
+  ctx.textBaseline = "middle";
+  ctx.textAlign = "left";
+  ctx.fillText(`Score: ${state.score}`, 16, SNAPSHOT_BAND / 2);
+  ctx.textAlign = "right";
+  ctx.fillText(`Moves: ${state.moves}`, SNAPSHOT_WIDTH - 16, SNAPSHOT_BAND / 2);
+
+  // The board is drawn tile by tile: drawBoard clears its canvas first
+  ctx.fillStyle = "#bbada0";
+  ctx.fillRect(0, SNAPSHOT_BAND, CANVAS_SIZE, CANVAS_SIZE);
+  const gridSize = state.board.length;
+  const tileSize = CANVAS_SIZE / gridSize;
+  for (let i = 0; i < gridSize; i++) {
+    for (let j = 0; j < gridSize; j++) {
+      drawTile(ctx, state.board[i][j], j * tileSize, SNAPSHOT_BAND + i * tileSize, tileSize, 1, rules);
+    }
+  }
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+  createReplay,
+  decodeMoves,
+  encodeMoves,
+  parseReplay,
+  serializeReplay,
+  simulateReplay,
+  validateReplay,
+  Replay,
+  ReplayError,
+  REPLAY_VERSION,
+} from "./replay";
+import { createGame, step, Direction, GameConfig } from "./engine";
+import { createRng } from "../random";
+
+const SEED = "replay-test";
+const CONFIG: GameConfig = { size: 4, target: 2048 };
+
+/**
+ * Plays 30 moves from SEED, cycling through the directions and skipping
+ * the ones that do not change the board. Returns the moves and the score.
+ */
+const playGame = (): { directions: Direction[]; score: number } => {
+  const rng = createRng(SEED);
+  let state = createGame(rng.next, CONFIG);
+  const directions: Direction[] = [];
+  const cycle: Direction[] = ["left", "down", "right", "up"];
+  for (let i = 0; directions.length < 30 && i < 1000; i++) {
+    const direction = cycle[i % cycle.length];
+    const result = step(state, direction, rng.next);
+    if (!result.moved) continue;
+    state = result.state;
+    directions.push(direction);
+  }
+  return { directions, score: state.score };
+};
+
+/**
+ * Returns a replay of the game played by playGame.
+ */
+const buildReplay = (): Replay => {
+  const { directions, score } = playGame();
+  return createReplay({
+    seed: SEED,
+    config: CONFIG,
+    directions,
+    finalScore: score,
+    startedAt: new Date("2025-03-01T12:00:00.000Z"),
+    endedAt: new Date("2025-03-01T12:05:00.000Z"),
+  });
+};
+
+describe("encodeMoves", () => {
+  it("reads back the directions it wrote", () => {
+    const directions: Direction[] = ["up", "down", "left", "right", "left"];
+    expect(encodeMoves(directions)).toBe("udlrl");
+    expect(decodeMoves("udlrl")).toEqual(directions);
+  });
+
+  it("rejects unknown move letters", () => {
+    expect(() => decodeMoves("ulx")).toThrow('Move 3 has unknown code "x"');
+  });
+});
+
+describe("validateReplay", () => {
+  it("reads back a serialized replay", () => {
+    const replay = buildReplay();
+    expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+    expect(replay).toMatchObject({ version: REPLAY_VERSION, rules: "classic" });
+    expect(replay).not.toHaveProperty("assisted");
+  });
+
+  it("upgrades version 1 replays to classic games", () => {
+    const { rules, version, ...current } = buildReplay();
+    expect(rules).toBe("classic");
+    expect(version).toBe(REPLAY_VERSION);
+    const upgraded = validateReplay({ ...current, version: 1 });
+    expect(upgraded).toEqual({ ...current, version: REPLAY_VERSION, rules: "classic" });
+    expect(simulateReplay(upgraded)).toHaveLength(31);
+  });
+
+  it("rejects replays from a newer version", () => {
+    expect(() => validateReplay({ ...buildReplay(), version: REPLAY_VERSION + 1 })).toThrow(
+      `Replay version ${REPLAY_VERSION + 1} is newer than this app supports`
+    );
+  });
+
+  it("lists every problem found", () => {
+    try {
+      validateReplay({ ...buildReplay(), game: "flappyBird", size: 12, moves: "uxl", assisted: "yes" });
+      expect.fail("the replay was accepted");
+    } catch (error) {
+      expect(error).toBeInstanceOf(ReplayError);
+      expect((error as ReplayError).issues).toHaveLength(4);
+    }
+  });
+
+  it("rejects files that are not JSON objects", () => {
+    expect(() => parseReplay("not json")).toThrow("File is not valid JSON.");
+    expect(() => parseReplay("[]")).toThrow("Replay must be a JSON object.");
+  });
+});
+
+describe("simulateReplay", () => {
+  it("rebuilds every position of the game", () => {
+    const replay = buildReplay();
+    const states = simulateReplay(replay);
+    expect(states).toHaveLength(replay.moves.length + 1);
+    expect(states[0].moves).toBe(0);
+    expect(states[states.length - 1].score).toBe(replay.finalScore);
+  });
+
+  it("rejects a replay whose final score does not match", () => {
+    const replay = buildReplay();
+    expect(() => simulateReplay({ ...replay, finalScore: replay.finalScore + 4 })).toThrow(ReplayError);
+  });
+
+  it("rejects a move that does not change the board", () => {
+    const replay = buildReplay();
+    // Sliding the same way over and over soon stops changing the board
+    expect(() => simulateReplay({ ...replay, moves: "l".repeat(20) })).toThrow("does not change the board");
+  });
+});
@@ -0,0 +1,260 @@
+// ------------------------------
+// 2048 Replays
+// ------------------------------
+// A replay is a compact, versioned JSON record of one game: the seed, the
+// board settings and the list of moves. Because tile spawns come from the
+// seeded RNG, re-running the moves from the seed rebuilds every position.
+
+import {
+  createGame,
+  getConfigRules,
+  isValidSize,
+  isValidTarget,
+  step,
+  Direction,
+  GameConfig,
+  GameState,
+} from "./engine";
+import { getRuleSet, isRuleSetId, validateSpawn, RuleSetError, RuleSetId, SpawnEntry } from "./rules";
+import { createRng } from "../random";
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/**
+ * Replay is the stored form of a game.
+ * - version: Schema version, bumped whenever the format changes.
+ * - game: Always "2048"; guards against loading another game's file.
+ * - seed: Seed of the tile spawn RNG.
+ * - size / target: Board size and winning tile.
+ * - rules / spawn: Rule set, and the custom spawn distribution if one was
+ *   used (added in version 2; version 1 replays are classic games).
+ * - moves: One letter per move ("u", "d", "l", "r").
+ * - finalScore: Score after the last move.
+ * - startedAt / endedAt: ISO 8601 timestamps.
+ * - assisted: True if undo, hints or autoplay were used (such games are
+ *   not ranked on the leaderboard).
+ */
+export type Replay = {
+  version: typeof REPLAY_VERSION;
+  game: "2048";
+  seed: string;
+  size: number;
+  target: number;
+  rules: RuleSetId;
+  spawn?: SpawnEntry[];
+  moves: string;
+  finalScore: number;
+  startedAt: string;
+  endedAt: string;
+  assisted?: boolean;
+};
+
+/**
+ * ReplayError is thrown when a replay cannot be read or does not match the
+ * game it claims to record. `issues` lists every problem found.
+ */
+export class ReplayError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(issues.join(" "));
+    this.name = "ReplayError";
+    this.issues = issues;
+  }
+}
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Current replay schema version
+export const REPLAY_VERSION = 2;
+
+// Letter used for each direction in the compact move list
+const MOVE_CODES: { [key in Direction]: string } = {
+  up: "u",
+  down: "d",
+  left: "l",
+  right: "r",
+};
+
+// ------------------------------
+// Encoding
+// ------------------------------
+
+/**
+ * Encodes a list of directions as a compact string, e.g. "uulrd".
+ */
+export const encodeMoves = (directions: Direction[]): string =>
+  directions.map((direction) => MOVE_CODES[direction]).join("");
+
+/**
+ * Decodes a compact move string back into directions.
+ * Throws a ReplayError naming the first unknown letter.
+ */
+export const decodeMoves = (moves: string): Direction[] =>
+  Array.from(moves).map((code, i) => {
+    const direction = (Object.keys(MOVE_CODES) as Direction[]).find(
+      (key) => MOVE_CODES[key] === code
+    );
+    if (!direction) {
+      throw new ReplayError([`Move ${i + 1} has unknown code "${code}" (expected u, d, l or r).`]);
+    }
+    return direction;
+  });
+
+/**
+ * Builds a replay for a game played from `seed` with the given settings.
+ */
+export const createReplay = (params: {
+  seed: string;
+  config: GameConfig;
+  directions: Direction[];
+  finalScore: number;
+  startedAt: Date;
+  endedAt: Date;
+  assisted?: boolean;
+}): Replay => ({
+  version: REPLAY_VERSION,
+  game: "2048",
+  seed: params.seed,
+  size: params.config.size,
+  target: params.config.target,
+  rules: params.config.rules ?? "classic",
+  ...(params.config.spawn ? { spawn: params.config.spawn } : {}),
+  moves: encodeMoves(params.directions),
+  finalScore: params.finalScore,
+  startedAt: params.startedAt.toISOString(),
+  endedAt: params.endedAt.toISOString(),
+  ...(params.assisted ? { assisted: true } : {}),
+});
+
+/**
+ * Serializes a replay to JSON for saving as a file.
+ */
+export const serializeReplay = (replay: Replay): string => JSON.stringify(replay);
+
+// ------------------------------
+// Validation
+// ------------------------------
+
+/**
+ * Checks that unknown data (for example parsed JSON) is a valid replay.
+ * Version 1 replays are upgraded to classic games of the current version.
+ * Throws a ReplayError listing every problem found.
+ */
+export const validateReplay = (data: unknown): Replay => {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new ReplayError(["Replay must be a JSON object."]);
+  }
+  const record: { [key: string]: unknown } =
+    (data as { version?: unknown }).version === 1
+      ? { ...data, version: REPLAY_VERSION, rules: "classic" }
+      : { ...data };
+  const issues: string[] = [];
+
+  if (typeof record.version !== "number") {
+    issues.push('Missing "version" number.');
+  } else if (record.version > REPLAY_VERSION) {
+    issues.push(
+      `Replay version ${record.version} is newer than this app supports (${REPLAY_VERSION}).`
+    );
+  } else if (record.version !== REPLAY_VERSION) {
+    issues.push(`Unsupported replay version ${record.version}.`);
+  }
+  if (record.game !== "2048") {
+    issues.push(`"game" must be "2048", got ${JSON.stringify(record.game)}.`);
+  }
+  if (typeof record.seed !== "string" || record.seed.length === 0) {
+    issues.push('"seed" must be a non-empty string.');
+  }
+  if (typeof record.size !== "number" || !isValidSize(record.size)) {
+    issues.push('"size" must be a whole number from 3 to 8.');
+  }
+  if (!isRuleSetId(record.rules)) {
+    issues.push(`"rules" must name a rule set, got ${JSON.stringify(record.rules)}.`);
+  }
+  const rules = getRuleSet(isRuleSetId(record.rules) ? record.rules : undefined);
+  if (typeof record.target !== "number" || !isValidTarget(record.target, rules)) {
+    issues.push(`"target" must be a ${rules.label} tile of at least 8.`);
+  }
+  if (record.spawn !== undefined) {
+    try {
+      validateSpawn(record.spawn, rules);
+    } catch (error) {
+      if (!(error instanceof RuleSetError)) throw error;
+      issues.push(...error.issues.map((issue) => `"spawn": ${issue}`));
+    }
+  }
+  if (typeof record.moves !== "string" || !/^[udlr]*$/.test(record.moves)) {
+    issues.push('"moves" must be a string of the letters u, d, l and r.');
+  }
+  if (typeof record.finalScore !== "number" || !Number.isInteger(record.finalScore) || record.finalScore < 0) {
+    issues.push('"finalScore" must be a non-negative whole number.');
+  }
+  for (const key of ["startedAt", "endedAt"]) {
+    const value = record[key];
+    if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+      issues.push(`"${key}" must be an ISO date string.`);
+    }
+  }
+  if (record.assisted !== undefined && typeof record.assisted !== "boolean") {
+    issues.push('"assisted" must be true or false.');
+  }
+
+  if (issues.length > 0) throw new ReplayError(issues);
+  return record as Replay;
+};
+
+/**
+ * Parses and validates replay JSON text (for example an imported file).
+ */
+export const parseReplay = (text: string): Replay => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ReplayError(["File is not valid JSON."]);
+  }
+  return validateReplay(data);
+};
+
+// ------------------------------
+// Playback
+// ------------------------------
+
+/**
+ * Re-runs a replay from its seed and returns every position, starting with
+ * the initial board (so `states[i]` is the game after `i` moves).
+ * Throws a ReplayError if a move does not change the board or the final
+ * score does not match the recorded one.
+ */
+export const simulateReplay = (replay: Replay): GameState[] => {
+  const rng = createRng(replay.seed);
+  const config: GameConfig = {
+    size: replay.size,
+    target: replay.target,
+    rules: replay.rules,
+    spawn: replay.spawn,
+  };
+  const rules = getConfigRules(config);
+  const states: GameState[] = [createGame(rng.next, config)];
+
+  decodeMoves(replay.moves).forEach((direction, i) => {
+    const { state, moved } = step(states[states.length - 1], direction, rng.next, rules);
+    if (!moved) {
+      throw new ReplayError([`Move ${i + 1} (${direction}) does not change the board.`]);
+    }
+    states.push(state);
+  });
+
+  const finalScore = states[states.length - 1].score;
+  if (finalScore !== replay.finalScore) {
+    throw new ReplayError([
+      `Recorded final score ${replay.finalScore} does not match the replayed score ${finalScore}.`,
+    ]);
+  }
+  return states;
+};
@@ -0,0 +1,255 @@
+// ------------------------------
+// 2048 Rule Sets
+// ------------------------------
+// A rule set decides which tiles combine and into what, which tiles spawn
+// and how often, whether blocked cells are placed at the start, and how
+// tiles are colored. The engine takes the rule set as a parameter, so a
+// variant is just another entry in RULE_SETS.
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/** Identifiers of the rule sets. */
+export type RuleSetId = "classic" | "fibonacci" | "threes" | "obstacles";
+
+/**
+ * SpawnEntry is one tile that can spawn, with its relative weight.
+ */
+export type SpawnEntry = {
+  value: number;
+  weight: number;
+};
+
+/**
+ * RuleSet describes a variant of the game.
+ * - merge: Value of the tile formed when tiles `a` and `b` slide together,
+ *   or null if they do not combine.
+ * - isTile: Whether a value can appear as a tile (used to check targets and
+ *   custom spawns).
+ * - spawn: Tiles that appear after each move, with their weights.
+ * - blockedCells: Number of immovable blocked cells placed at the start on
+ *   a board of the given size.
+ * - targets: Winning tiles offered in the settings; `defaultTarget` is the
+ *   one a new game starts with.
+ * - tileRank: Position of a tile in the merge sequence (1 for the smallest
+ *   tile); tiles of the same rank share a color.
+ * - tileColors: Colors that replace the ranked ones for specific values.
+ * - doubling: True when tiles are powers of two that merge into their
+ *   double, as in classic 2048 (the solver and the tile achievements rely
+ *   on it).
+ */
+export type RuleSet = {
+  id: RuleSetId;
+  label: string;
+  description: string;
+  merge: (a: number, b: number) => number | null;
+  isTile: (value: number) => boolean;
+  spawn: SpawnEntry[];
+  blockedCells: (size: number) => number;
+  targets: number[];
+  defaultTarget: number;
+  tileRank: (value: number) => number;
+  tileColors?: { [value: number]: { background: string; text: string } };
+  doubling: boolean;
+};
+
+/**
+ * RuleSetError is thrown when a custom spawn distribution cannot be used.
+ * `issues` lists every problem found.
+ */
+export class RuleSetError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(issues.join(" "));
+    this.name = "RuleSetError";
+    this.issues = issues;
+  }
+}
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Value of a blocked cell on the board; nothing moves into or through it
+export const BLOCKED = -1;
+
+// Fibonacci tiles, from 1 up past the largest supported target
+const FIBONACCI = [1, 2];
+while (FIBONACCI[FIBONACCI.length - 1] < 200000) {
+  FIBONACCI.push(FIBONACCI[FIBONACCI.length - 1] + FIBONACCI[FIBONACCI.length - 2]);
+}
+
+/**
+ * Checks whether a value is a power of two of at least `min`.
+ */
+const isPowerOfTwoFrom = (value: number, min: number): boolean =>
+  Number.isInteger(value) && value >= min && (value & (value - 1)) === 0;
+
+// Rules shared by the variants that keep classic merging
+const DOUBLING = {
+  merge: (a: number, b: number) => (a === b ? a * 2 : null),
+  isTile: (value: number) => isPowerOfTwoFrom(value, 2),
+  spawn: [
+    { value: 2, weight: 9 },
+    { value: 4, weight: 1 },
+  ],
+  targets: [256, 512, 1024, 2048, 4096, 8192, 16384],
+  defaultTarget: 2048,
+  tileRank: (value: number) => Math.log2(value),
+  doubling: true,
+};
+
+// Every rule set, in the order shown in the mode picker
+export const RULE_SETS: { [id in RuleSetId]: RuleSet } = {
+  classic: {
+    ...DOUBLING,
+    id: "classic",
+    label: "Classic",
+    description: "Equal tiles merge into their double.",
+    blockedCells: () => 0,
+  },
+  fibonacci: {
+    id: "fibonacci",
+    label: "Fibonacci",
+    description: "Neighbouring Fibonacci numbers merge: 1+1=2, 1+2=3, 2+3=5, 3+5=8…",
+    merge: (a, b) => {
+      if (a === 1 && b === 1) return 2;
+      const i = FIBONACCI.indexOf(a);
+      const j = FIBONACCI.indexOf(b);
+      return i >= 0 && j >= 0 && Math.abs(i - j) === 1 ? a + b : null;
+    },
+    isTile: (value) => FIBONACCI.includes(value),
+    spawn: [
+      { value: 1, weight: 9 },
+      { value: 2, weight: 1 },
+    ],
+    blockedCells: () => 0,
+    targets: [144, 233, 377, 610, 987, 1597, 2584, 4181, 6765],
+    defaultTarget: 2584,
+    tileRank: (value) => FIBONACCI.indexOf(value) + 1,
+    doubling: false,
+  },
+  threes: {
+    id: "threes",
+    label: "Threes",
+    description: "1 and 2 combine into 3; from 3 up, equal tiles merge into their double.",
+    merge: (a, b) => {
+      if (a + b === 3 && a !== b) return 3;
+      return a === b && a >= 3 ? a * 2 : null;
+    },
+    isTile: (value) => value === 1 || value === 2 || (value % 3 === 0 && isPowerOfTwoFrom(value / 3, 1)),
+    spawn: [
+      { value: 1, weight: 2 },
+      { value: 2, weight: 2 },
+      { value: 3, weight: 1 },
+    ],
+    blockedCells: () => 0,
+    targets: [96, 192, 384, 768, 1536, 3072, 6144],
+    defaultTarget: 3072,
+    tileRank: (value) => (value < 3 ? 1 : Math.log2(value / 3) + 1),
+    tileColors: {
+      1: { background: "#66bfff", text: "#ffffff" },
+      2: { background: "#ff6680", text: "#ffffff" },
+    },
+    doubling: false,
+  },
+  obstacles: {
+    ...DOUBLING,
+    id: "obstacles",
+    label: "Obstacles",
+    description: "Classic rules, but immovable blocked cells are placed at the start.",
+    blockedCells: (size) => Math.max(1, Math.floor((size * size) / 8)),
+  },
+};
+
+// Rule set ids in picker order
+export const RULE_SET_IDS = Object.keys(RULE_SETS) as RuleSetId[];
+
+export const CLASSIC_RULES = RULE_SETS.classic;
+
+// ------------------------------
+// Lookup
+// ------------------------------
+
+/**
+ * Returns true if `value` names a rule set.
+ */
+export const isRuleSetId = (value: unknown): value is RuleSetId =>
+  typeof value === "string" && value in RULE_SETS;
+
+/**
+ * Returns a rule set, with its spawn distribution replaced by `spawn` when
+ * one is given. Unknown or missing ids fall back to the classic rules.
+ */
+export const getRuleSet = (id?: string, spawn?: SpawnEntry[]): RuleSet => {
+  const rules = isRuleSetId(id) ? RULE_SETS[id] : CLASSIC_RULES;
+  return spawn ? { ...rules, spawn } : rules;
+};
+
+// ------------------------------
+// Spawn Distributions
+// ------------------------------
+
+/**
+ * Picks a spawn value from a random number in [0, 1), so every spawn uses
+ * exactly one draw from the RNG.
+ */
+export const pickSpawn = (spawn: SpawnEntry[], random: number): number => {
+  const total = spawn.reduce((sum, entry) => sum + entry.weight, 0);
+  let cumulative = 0;
+  for (const entry of spawn) {
+    cumulative += entry.weight / total;
+    if (random < cumulative) return entry.value;
+  }
+  return spawn[spawn.length - 1].value;
+};
+
+/**
+ * Formats a spawn distribution as text, e.g. "2:9, 4:1".
+ */
+export const formatSpawn = (spawn: SpawnEntry[]): string =>
+  spawn.map((entry) => `${entry.value}:${entry.weight}`).join(", ");
+
+/**
+ * Checks a spawn distribution against a rule set: every value must be a
+ * tile of the rule set and every weight a positive number.
+ * Throws a RuleSetError listing every problem found.
+ */
+export const validateSpawn = (spawn: unknown, rules: RuleSet): SpawnEntry[] => {
+  if (!Array.isArray(spawn) || spawn.length === 0) {
+    throw new RuleSetError(["The spawn distribution needs at least one tile."]);
+  }
+  const issues: string[] = [];
+  spawn.forEach((entry, i) => {
+    const { value, weight } = (entry ?? {}) as { [key: string]: unknown };
+    if (typeof value !== "number" || !rules.isTile(value)) {
+      issues.push(`Spawn ${i + 1}: ${String(value)} is not a ${rules.label} tile.`);
+    }
+    if (typeof weight !== "number" || !Number.isFinite(weight) || weight <= 0) {
+      issues.push(`Spawn ${i + 1}: the weight must be a positive number.`);
+    }
+  });
+  if (issues.length > 0) throw new RuleSetError(issues);
+  return spawn as SpawnEntry[];
+};
+
+/**
+ * Parses a spawn distribution typed as "value:weight" pairs, e.g.
+ * "2:8, 4:1, 8:1". Throws a RuleSetError if it is not valid for the rules.
+ */
+export const parseSpawn = (text: string, rules: RuleSet): SpawnEntry[] => {
+  const pairs = text.split(",").map((pair) => pair.trim()).filter((pair) => pair.length > 0);
+  const malformed = pairs.filter((pair) => !/^\d+\s*:\s*\d+(\.\d+)?$/.test(pair));
+  if (malformed.length > 0) {
+    throw new RuleSetError(malformed.map((pair) => `"${pair}" is not a value:weight pair.`));
+  }
+  return validateSpawn(
+    pairs.map((pair) => {
+      const [value, weight] = pair.split(":").map(Number);
+      return { value, weight };
+    }),
+    rules
+  );
+};
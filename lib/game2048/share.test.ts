@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { decodeBoard, encodeBoard, isShareableBoard, BoardCodeError } from "./share";
+import { MAX_GRID_SIZE } from "./engine";
+
+describe("decodeBoard", () => {
+  it("reads back an encoded position", () => {
+    const shared = {
+      board: [
+        [2, 4, 0],
+        [0, 8, 0],
+        [0, 0, 1024],
+      ],
+      score: 9000,
+      rngState: 123456,
+    };
+    expect(decodeBoard(encodeBoard(shared))).toEqual(shared);
+  });
+
+  it("rejects a score the tiles cannot have made", () => {
+    // A 4 and two 2s can only have scored the 4
+    expect(() => decodeBoard("3.110200000.5.1")).toThrow(BoardCodeError);
+    expect(decodeBoard("3.110200000.4.1").score).toBe(4);
+  });
+
+  it("rejects an overlong score", () => {
+    expect(() => decodeBoard(`3.110200000.${"z".repeat(400)}.1`)).toThrow(BoardCodeError);
+  });
+
+  it("reads back the biggest tiles at the size limit", () => {
+    const board = Array.from({ length: MAX_GRID_SIZE }, (_, row) =>
+      Array.from({ length: MAX_GRID_SIZE }, (_, col) => 2 ** (((row * MAX_GRID_SIZE + col) % 35) + 1))
+    );
+    board[0][0] = 0;
+    const shared = { board, score: 0, rngState: 0xffffffff };
+    expect(decodeBoard(encodeBoard(shared))).toEqual(shared);
+  });
+
+  it("rejects tiles bigger than the board can build", () => {
+    // A 3x3 board builds at most a 1024
+    expect(decodeBoard("3.a10000000.0.1").board[0][0]).toBe(1024);
+    expect(() => decodeBoard("3.b10000000.0.1")).toThrow(BoardCodeError);
+  });
+
+  it("rejects a board without tiles", () => {
+    expect(() => decodeBoard("3.000000000.0.1")).toThrow("The board has no tiles.");
+  });
+});
+
+describe("encodeBoard", () => {
+  it("refuses boards a code cannot hold", () => {
+    const empty = [
+      [0, 0, 0],
+      [0, 0, 0],
+      [0, 0, 0],
+    ];
+    const tooBig = [
+      [2048, 0, 0],
+      [0, 2, 0],
+      [0, 0, 0],
+    ];
+    expect(isShareableBoard(empty)).toBe(false);
+    expect(isShareableBoard(tooBig)).toBe(false);
+    expect(() => encodeBoard({ board: tooBig, score: 0, rngState: 1 })).toThrow(BoardCodeError);
+  });
+});
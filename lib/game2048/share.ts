@@ -0,0 +1,186 @@
+// ------------------------------
+// 2048 Board Codes
+// ------------------------------
+// A board code is a short, URL-safe text form of a position: the board
+// size, every tile, the score and the state of the spawn RNG, so whoever
+// opens it sees the same board and the same tiles spawning. Codes travel in
+// the URL hash (/game2048#board=...) or are pasted into the game.
+//
+// Format: "<size>.<tiles>.<score>.<rng>", where every tile is one base-36
+// digit holding its power of two (0 for an empty cell, 1 for 2, b for
+// 2048...) and the score and RNG state are base-36 numbers. For example
+// "4.1100020000000000.4.1x2f9k" is a 4x4 board with two 2s and a 4.
+
+import { getMaxTile, isGameOver, isValidSize, Board, GameState, MAX_GRID_SIZE, MIN_GRID_SIZE } from "./engine";
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/**
+ * SharedBoard is a position read from a board code.
+ */
+export type SharedBoard = {
+  board: Board;
+  score: number;
+  rngState: number;
+};
+
+/**
+ * BoardCodeError is thrown when a board code cannot be read.
+ * `issues` lists every problem found.
+ */
+export class BoardCodeError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(issues.join(" "));
+    this.name = "BoardCodeError";
+    this.issues = issues;
+  }
+}
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Name of the URL hash parameter that holds a board code
+export const BOARD_HASH_KEY = "board";
+// Highest power of two one base-36 digit can hold (2^35)
+const MAX_DIGIT_EXPONENT = 35;
+// Largest RNG state (the RNG keeps 32 bits)
+const MAX_RNG_STATE = 0xffffffff;
+
+// ------------------------------
+// Encoding
+// ------------------------------
+
+/**
+ * Returns the highest power of two a tile can hold on a board of `size`:
+ * filling every cell can build at most a 2^(size * size + 1) tile (2^17
+ * on 4x4), and a tile code is a single base-36 digit.
+ */
+const getMaxExponent = (size: number): number => Math.min(size * size + 1, MAX_DIGIT_EXPONENT);
+
+/**
+ * Checks whether a board fits in a board code: it has at least one tile
+ * and every tile fits in one digit.
+ */
+export const isShareableBoard = (board: Board): boolean => {
+  const maxTile = 2 ** getMaxExponent(board.length);
+  return getMaxTile(board) > 0 && board.every((row) => row.every((value) => value <= maxTile));
+};
+
+/**
+ * Encodes a position as a board code. Throws a BoardCodeError for a board
+ * that does not fit in one (see isShareableBoard).
+ */
+export const encodeBoard = ({ board, score, rngState }: SharedBoard): string => {
+  if (!isShareableBoard(board)) {
+    const maxTile = 2 ** getMaxExponent(board.length);
+    throw new BoardCodeError([`Only boards with tiles from 2 to ${maxTile} can be shared.`]);
+  }
+  const tiles = board
+    .flat()
+    .map((value) => (value === 0 ? 0 : Math.log2(value)).toString(36))
+    .join("");
+  return [board.length, tiles, score.toString(36), rngState.toString(36)].join(".");
+};
+
+/**
+ * Reads a base-36 whole number, or returns NaN if the text is not one.
+ */
+const parseBase36 = (text: string): number => (/^[0-9a-z]+$/.test(text) ? parseInt(text, 36) : NaN);
+
+/**
+ * Returns the highest score a board can have been reached with: every tile
+ * built from 2s, each merge scoring the tile it makes (a 2^k tile scores
+ * (k - 1) * 2^k on the way).
+ */
+const getMaxScore = (values: number[]): number =>
+  values.reduce((total, value) => total + (value > 2 ? (Math.log2(value) - 1) * value : 0), 0);
+
+/**
+ * Decodes a board code. Throws a BoardCodeError listing every problem
+ * found: a bad size, tiles that are not powers of two, an empty board, a
+ * score the tiles cannot have made, or a malformed code.
+ */
+export const decodeBoard = (code: string): SharedBoard => {
+  const parts = code.trim().toLowerCase().split(".");
+  if (parts.length !== 4) {
+    throw new BoardCodeError(["A board code has four parts separated by dots: size, tiles, score and RNG state."]);
+  }
+  const [sizeText, tiles, scoreText, rngText] = parts;
+  const issues: string[] = [];
+
+  const size = Number(sizeText);
+  if (!/^\d+$/.test(sizeText) || !isValidSize(size)) {
+    issues.push(`Board size must be a whole number from ${MIN_GRID_SIZE} to ${MAX_GRID_SIZE}, got "${sizeText}".`);
+  } else if (tiles.length !== size * size) {
+    issues.push(`A ${size}x${size} board needs ${size * size} tiles, got ${tiles.length}.`);
+  }
+  const maxExponent = getMaxExponent(isValidSize(size) ? size : MAX_GRID_SIZE);
+  const badTiles = Array.from(tiles)
+    .map((digit, i) => ({ digit, position: i + 1, exponent: parseBase36(digit) }))
+    .filter(({ exponent }) => Number.isNaN(exponent) || exponent > maxExponent);
+  if (badTiles.length > 0) {
+    const listed = badTiles.map(({ digit, position }) => `${position} ("${digit}")`).join(", ");
+    issues.push(`Tiles must be powers of two from 2 to ${2 ** maxExponent}, but these are not: ${listed}.`);
+  } else if (/^0*$/.test(tiles)) {
+    // No move is possible on an empty board, and no tile would ever spawn
+    issues.push("The board has no tiles.");
+  }
+  const score = parseBase36(scoreText);
+  if (!Number.isSafeInteger(score)) issues.push(`Score "${scoreText}" is not a base-36 number.`);
+  const rngState = parseBase36(rngText);
+  if (Number.isNaN(rngState) || rngState > MAX_RNG_STATE) {
+    issues.push(`RNG state "${rngText}" is not a 32-bit base-36 number.`);
+  }
+  if (issues.length > 0) throw new BoardCodeError(issues);
+
+  const values = Array.from(tiles).map((digit) => {
+    const exponent = parseBase36(digit);
+    return exponent === 0 ? 0 : 2 ** exponent;
+  });
+  const maxScore = getMaxScore(values);
+  if (score > maxScore) {
+    throw new BoardCodeError([`Score ${score} is higher than these tiles allow (at most ${maxScore}).`]);
+  }
+  const board = Array.from({ length: size }, (_, row) => values.slice(row * size, (row + 1) * size));
+  return { board, score, rngState };
+};
+
+/**
+ * Returns the board code in a URL hash such as "#board=...", or null if
+ * the hash has none.
+ */
+export const getHashBoardCode = (hash: string): string | null =>
+  new URLSearchParams(hash.replace(/^#/, "")).get(BOARD_HASH_KEY);
+
+/**
+ * Returns the board code in pasted text: either a bare code or a link with
+ * a #board=... hash.
+ */
+export const extractBoardCode = (text: string): string => {
+  const hash = text.indexOf("#");
+  return hash >= 0 ? (getHashBoardCode(text.slice(hash)) ?? "") : text.trim();
+};
+
+/**
+ * Builds a link to /game2048 that opens a position.
+ */
+export const buildBoardLink = (origin: string, shared: SharedBoard): string =>
+  `${origin}/game2048#${BOARD_HASH_KEY}=${encodeBoard(shared)}`;
+
+/**
+ * Creates a game from a shared position, with the move count starting at
+ * zero. A position that already holds the target counts as won.
+ */
+export const createSharedGame = (shared: SharedBoard, target: number): GameState => ({
+  board: shared.board,
+  score: shared.score,
+  moves: 0,
+  target,
+  won: getMaxTile(shared.board) >= target,
+  over: isGameOver(shared.board),
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { evaluateBoard, findBestMove } from "./solver";
+import { move } from "./engine";
+
+describe("findBestMove", () => {
+  it("returns null when no move changes the board", () => {
+    expect(
+      findBestMove([
+        [2, 4, 2],
+        [4, 2, 4],
+        [2, 4, 2],
+      ])
+    ).toBeNull();
+  });
+
+  it("picks the only move that changes the board", () => {
+    const board = [
+      [2, 4, 8],
+      [4, 8, 16],
+      [8, 16, 0],
+    ];
+    const direction = findBestMove(board, 2);
+    expect(direction === "down" || direction === "right").toBe(true);
+  });
+
+  it("suggests a move that changes the board for any spawn distribution", () => {
+    const board = [
+      [2, 2, 0, 0],
+      [0, 4, 0, 0],
+      [0, 0, 8, 0],
+      [0, 0, 0, 0],
+    ];
+    for (const spawn of [undefined, [{ value: 2, weight: 1 }], [{ value: 8, weight: 3 }, { value: 16, weight: 1 }]]) {
+      const direction = findBestMove(board, 2, spawn);
+      expect(direction).not.toBeNull();
+      expect(move(board, direction!).events).not.toHaveLength(0);
+    }
+  });
+});
+
+describe("evaluateBoard", () => {
+  it("prefers ordered boards with free space", () => {
+    const ordered = [
+      [16, 8, 4],
+      [8, 4, 2],
+      [4, 2, 0],
+    ];
+    const scattered = [
+      [2, 16, 2],
+      [8, 2, 4],
+      [2, 8, 4],
+    ];
+    expect(evaluateBoard(ordered)).toBeGreaterThan(evaluateBoard(scattered));
+  });
+});
@@ -0,0 +1,176 @@
+// ------------------------------
+// 2048 Solver (Expectimax)
+// ------------------------------
+// Searches the game tree with the engine's move functions: the player picks
+// the best direction (max nodes) and the game spawns a tile from its spawn
+// distribution (a 2 or a 4 in classic games) in any empty cell (chance
+// nodes, weighted by their probabilities). Leaf positions are scored with
+// heuristics for monotonicity, smoothness and free space.
+
+import { move, Board, Direction, DIRECTIONS } from "./engine";
+import { getRuleSet, SpawnEntry } from "./rules";
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Default search depth, in player moves
+export const DEFAULT_DEPTH = 3;
+// Smallest and largest depth offered in the UI
+export const MIN_DEPTH = 1;
+export const MAX_DEPTH = 5;
+
+// Heuristic weights
+const EMPTY_WEIGHT = 2.7;
+const MONOTONICITY_WEIGHT = 1.0;
+const SMOOTHNESS_WEIGHT = 0.1;
+const MAX_TILE_WEIGHT = 1.0;
+// Score given to a position where no move is possible
+const LOSS_SCORE = -1e6;
+// Chance branches less likely than this are evaluated directly instead of searched
+const PROBABILITY_CUTOFF = 1e-4;
+// Tiles spawned when no distribution is given: the classic 2 (90%) or 4 (10%)
+const CLASSIC_SPAWN = getRuleSet("classic").spawn;
+
+// ------------------------------
+// Heuristics
+// ------------------------------
+
+/**
+ * Returns log2 of a tile value (0 for empty cells), so heuristics compare
+ * tiles by how many merges apart they are rather than by raw value.
+ */
+const rank = (value: number): number => (value === 0 ? 0 : Math.log2(value));
+
+/**
+ * Scores how steadily the rows and columns increase or decrease.
+ * 0 is perfectly monotonic; more negative is worse.
+ */
+const monotonicity = (board: Board): number => {
+  const size = board.length;
+  let total = 0;
+  for (let i = 0; i < size; i++) {
+    let rowUp = 0;
+    let rowDown = 0;
+    let colUp = 0;
+    let colDown = 0;
+    for (let k = 0; k < size - 1; k++) {
+      const rowDiff = rank(board[i][k + 1]) - rank(board[i][k]);
+      const colDiff = rank(board[k + 1][i]) - rank(board[k][i]);
+      if (rowDiff > 0) rowDown -= rowDiff;
+      else rowUp += rowDiff;
+      if (colDiff > 0) colDown -= colDiff;
+      else colUp += colDiff;
+    }
+    total += Math.max(rowUp, rowDown) + Math.max(colUp, colDown);
+  }
+  return total;
+};
+
+/**
+ * Scores how close neighbouring tiles are in value (close tiles are easier
+ * to merge). 0 is perfectly smooth; more negative is worse.
+ */
+const smoothness = (board: Board): number => {
+  const size = board.length;
+  let total = 0;
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j < size; j++) {
+      if (board[i][j] === 0) continue;
+      const value = rank(board[i][j]);
+      if (j < size - 1 && board[i][j + 1] !== 0) total -= Math.abs(value - rank(board[i][j + 1]));
+      if (i < size - 1 && board[i + 1][j] !== 0) total -= Math.abs(value - rank(board[i + 1][j]));
+    }
+  }
+  return total;
+};
+
+/**
+ * Combines the heuristics into a single score for a position. Higher is better.
+ */
+export const evaluateBoard = (board: Board): number => {
+  let empty = 0;
+  let maxRank = 0;
+  for (const row of board) {
+    for (const value of row) {
+      if (value === 0) empty++;
+      else maxRank = Math.max(maxRank, rank(value));
+    }
+  }
+  return (
+    EMPTY_WEIGHT * Math.log(empty + 1) +
+    MONOTONICITY_WEIGHT * monotonicity(board) +
+    SMOOTHNESS_WEIGHT * smoothness(board) +
+    MAX_TILE_WEIGHT * maxRank
+  );
+};
+
+// ------------------------------
+// Search
+// ------------------------------
+
+/** A tile that can spawn and the probability that it does. */
+type SpawnChance = [value: number, chance: number];
+
+/**
+ * Max node: the player picks the direction with the best expected score.
+ */
+const maxNode = (board: Board, depth: number, probability: number, spawns: SpawnChance[]): number => {
+  let best = LOSS_SCORE;
+  for (const direction of DIRECTIONS) {
+    const { newBoard, events } = move(board, direction);
+    if (events.length === 0) continue;
+    best = Math.max(best, chanceNode(newBoard, depth - 1, probability, spawns));
+  }
+  return best;
+};
+
+/**
+ * Chance node: averages over every possible tile spawn.
+ */
+const chanceNode = (board: Board, depth: number, probability: number, spawns: SpawnChance[]): number => {
+  if (depth <= 0 || probability < PROBABILITY_CUTOFF) return evaluateBoard(board);
+
+  const empty: [number, number][] = [];
+  board.forEach((row, i) =>
+    row.forEach((value, j) => {
+      if (value === 0) empty.push([i, j]);
+    })
+  );
+  if (empty.length === 0) return maxNode(board, depth, probability, spawns);
+
+  let total = 0;
+  for (const [i, j] of empty) {
+    for (const [value, chance] of spawns) {
+      const next = board.map((row) => [...row]);
+      next[i][j] = value;
+      total += chance * maxNode(next, depth, (probability * chance) / empty.length, spawns);
+    }
+  }
+  return total / empty.length;
+};
+
+/**
+ * Returns the direction with the best expected outcome `depth` moves ahead
+ * when tiles spawn from `spawn`, or null when no move changes the board.
+ */
+export const findBestMove = (
+  board: Board,
+  depth: number = DEFAULT_DEPTH,
+  spawn: SpawnEntry[] = CLASSIC_SPAWN
+): Direction | null => {
+  const total = spawn.reduce((sum, entry) => sum + entry.weight, 0);
+  const spawns = spawn.map((entry): SpawnChance => [entry.value, entry.weight / total]);
+  let bestDirection: Direction | null = null;
+  let bestScore = -Infinity;
+  for (const direction of DIRECTIONS) {
+    const { newBoard, events } = move(board, direction);
+    if (events.length === 0) continue;
+    const score = chanceNode(newBoard, depth - 1, 1, spawns);
+    if (score > bestScore) {
+      bestScore = score;
+      bestDirection = direction;
+    }
+  }
+  return bestDirection;
+};
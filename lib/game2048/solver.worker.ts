@@ -0,0 +1,14 @@
+// ------------------------------
+// 2048 Solver Web Worker
+// ------------------------------
+// Runs the expectimax search off the main thread so the canvas stays
+// responsive while the solver thinks.
+
+import { findBestMove } from "./solver";
+import { SolverRequest, SolverResponse } from "./solverClient";
+
+self.onmessage = (e: MessageEvent<SolverRequest>) => {
+  const { id, board, depth, spawn } = e.data;
+  const response: SolverResponse = { id, direction: findBestMove(board, depth, spawn) };
+  self.postMessage(response);
+};
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createSolverClient, SolverRequest } from "./solverClient";
+import { getRuleSet } from "./rules";
+
+const SPAWN = getRuleSet("classic").spawn;
+const BOARD = [
+  [2, 2, 0],
+  [0, 0, 0],
+  [0, 0, 0],
+];
+
+/**
+ * Stand-in for a Web Worker that keeps the requests it receives, so tests
+ * can answer them or fail the worker.
+ */
+class FakeWorker {
+  static started: FakeWorker[] = [];
+  requests: SolverRequest[] = [];
+  terminated = false;
+  onmessage: ((e: { data: unknown }) => void) | null = null;
+  onerror: ((e: { preventDefault: () => void }) => void) | null = null;
+  onmessageerror: (() => void) | null = null;
+
+  constructor() {
+    FakeWorker.started.push(this);
+  }
+
+  postMessage(request: SolverRequest) {
+    this.requests.push(request);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+beforeEach(() => {
+  FakeWorker.started = [];
+  vi.stubGlobal("Worker", FakeWorker);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("createSolverClient", () => {
+  it("starts the worker on the first suggestion and matches answers by id", async () => {
+    const client = createSolverClient();
+    expect(FakeWorker.started).toHaveLength(0);
+    const first = client.suggest(BOARD, 2, SPAWN);
+    const second = client.suggest(BOARD, 3, SPAWN);
+    const [worker] = FakeWorker.started;
+    expect(worker.requests.map((request) => request.depth)).toEqual([2, 3]);
+    expect(worker.requests[0].spawn).toEqual(SPAWN);
+    worker.onmessage?.({ data: { id: worker.requests[1].id, direction: "up" } });
+    worker.onmessage?.({ data: { id: worker.requests[0].id, direction: "left" } });
+    await expect(first).resolves.toBe("left");
+    await expect(second).resolves.toBe("up");
+    expect(FakeWorker.started).toHaveLength(1);
+  });
+
+  it("answers pending suggestions with null and restarts after a worker error", async () => {
+    const client = createSolverClient();
+    const pending = [client.suggest(BOARD, 2, SPAWN), client.suggest(BOARD, 2, SPAWN)];
+    const [failed] = FakeWorker.started;
+    const preventDefault = vi.fn();
+    failed.onerror?.({ preventDefault });
+    await expect(Promise.all(pending)).resolves.toEqual([null, null]);
+    expect(failed.terminated).toBe(true);
+    expect(preventDefault).toHaveBeenCalled();
+
+    const retry = client.suggest(BOARD, 2, SPAWN);
+    expect(FakeWorker.started).toHaveLength(2);
+    const restarted = FakeWorker.started[1];
+    restarted.onmessage?.({ data: { id: restarted.requests[0].id, direction: "right" } });
+    await expect(retry).resolves.toBe("right");
+  });
+
+  it("treats an unreadable message like a worker error", async () => {
+    const client = createSolverClient();
+    const pending = client.suggest(BOARD, 2, SPAWN);
+    FakeWorker.started[0].onmessageerror?.();
+    await expect(pending).resolves.toBeNull();
+    expect(FakeWorker.started[0].terminated).toBe(true);
+  });
+
+  it("answers with null once disposed", async () => {
+    const client = createSolverClient();
+    const pending = client.suggest(BOARD, 2, SPAWN);
+    client.dispose();
+    await expect(pending).resolves.toBeNull();
+    await expect(client.suggest(BOARD, 2, SPAWN)).resolves.toBeNull();
+    expect(FakeWorker.started).toHaveLength(1);
+  });
+
+  it("searches on the main thread without workers", async () => {
+    vi.stubGlobal("Worker", undefined);
+    const client = createSolverClient();
+    await expect(client.suggest(BOARD, 1, SPAWN)).resolves.not.toBeNull();
+  });
+});
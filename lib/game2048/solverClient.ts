@@ -0,0 +1,91 @@
+// ------------------------------
+// 2048 Solver Client
+// ------------------------------
+// Main-thread side of the solver worker. Each request gets an id so
+// answers to stale boards can be matched up and ignored by the caller.
+
+import { Board, Direction } from "./engine";
+import { SpawnEntry } from "./rules";
+import { findBestMove } from "./solver";
+
+/** Message sent to the solver worker. */
+export type SolverRequest = { id: number; board: Board; depth: number; spawn: SpawnEntry[] };
+
+/** Message sent back by the solver worker. */
+export type SolverResponse = { id: number; direction: Direction | null };
+
+/**
+ * SolverClient asks the worker for the best move.
+ * - suggest: Resolves with the suggested direction for a game spawning tiles
+ *   from `spawn` (null if no move is possible
+ *   or the worker failed).
+ * - dispose: Stops the worker; pending suggestions resolve to null.
+ */
+export type SolverClient = {
+  suggest: (board: Board, depth: number, spawn: SpawnEntry[]) => Promise<Direction | null>;
+  dispose: () => void;
+};
+
+/**
+ * Creates a solver client, which starts its worker on the first suggestion.
+ * Where workers are unavailable the search runs on the main thread instead.
+ */
+export const createSolverClient = (): SolverClient => {
+  if (typeof Worker === "undefined") {
+    return {
+      suggest: async (board, depth, spawn) => findBestMove(board, depth, spawn),
+      dispose: () => {},
+    };
+  }
+
+  const pending = new Map<number, (direction: Direction | null) => void>();
+  let worker: Worker | null = null;
+  let disposed = false;
+  let nextId = 0;
+
+  /**
+   * Stops the worker and resolves every pending suggestion with null. The
+   * next suggestion starts a fresh worker unless the client was disposed.
+   */
+  const reset = () => {
+    worker?.terminate();
+    worker = null;
+    pending.forEach((resolve) => resolve(null));
+    pending.clear();
+  };
+
+  /**
+   * Returns the running worker, starting one if there is none. A worker
+   * that fails to load, throws or sends an unreadable message is reset.
+   */
+  const getWorker = (): Worker => {
+    if (worker) return worker;
+    const started = new Worker(new URL("./solver.worker.ts", import.meta.url));
+    started.onmessage = (e: MessageEvent<SolverResponse>) => {
+      pending.get(e.data.id)?.(e.data.direction);
+      pending.delete(e.data.id);
+    };
+    started.onerror = (e) => {
+      e.preventDefault();
+      reset();
+    };
+    started.onmessageerror = reset;
+    worker = started;
+    return started;
+  };
+
+  return {
+    suggest: (board, depth, spawn) =>
+      new Promise((resolve) => {
+        if (disposed) return resolve(null);
+        const id = nextId++;
+        pending.set(id, resolve);
+        const request: SolverRequest = { id, board, depth, spawn };
+        getWorker().postMessage(request);
+      }),
+    dispose: () => {
+      disposed = true;
+      reset();
+    },
+  };
+};
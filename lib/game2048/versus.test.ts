@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { createVersusPlayers, dropGarbage, getVersusResult, playVersusMove, MAX_GARBAGE, VersusPlayer } from "./versus";
+import { BLOCKED } from "./rules";
+import { Board } from "./engine";
+
+const CONFIG = { size: 3, target: 2048 };
+
+/**
+ * Returns player one of a fresh match, with `board` in place of its
+ * starting board.
+ */
+const playerWith = (board: Board): VersusPlayer => {
+  const [player] = createVersusPlayers("versus-test", CONFIG);
+  return { ...player, state: { ...player.state, board } };
+};
+
+/**
+ * Counts the garbage cells on a board.
+ */
+const countBlocked = (board: Board): number => board.flat().filter((value) => value === BLOCKED).length;
+
+describe("createVersusPlayers", () => {
+  it("gives both players the same board", () => {
+    const [one, two] = createVersusPlayers("versus-test", CONFIG);
+    expect(one.state).toEqual(two.state);
+    expect(one.rngState).toBe(two.rngState);
+    expect(one.garbageRngState).not.toBe(two.garbageRngState);
+  });
+});
+
+describe("dropGarbage", () => {
+  const empty = [
+    [2, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+
+  it("never puts more than MAX_GARBAGE cells on a board", () => {
+    const player = dropGarbage(playerWith(empty), MAX_GARBAGE + 2);
+    expect(countBlocked(player.state.board)).toBe(MAX_GARBAGE);
+    expect(dropGarbage(player, 1)).toBe(player);
+  });
+
+  it("only fills empty cells", () => {
+    const player = dropGarbage(playerWith(empty), 2);
+    expect(player.state.board[0][0]).toBe(2);
+    expect(countBlocked(player.state.board)).toBe(2);
+  });
+
+  it("leaves a board with merges left playable", () => {
+    const board = [
+      [2, 2, 4],
+      [4, 8, 16],
+      [8, 16, 0],
+    ];
+    expect(dropGarbage(playerWith(board), 1).state.over).toBe(false);
+  });
+
+  it("marks a board without moves left as stuck", () => {
+    const board = [
+      [2, 4, 2],
+      [4, 2, 4],
+      [2, 4, 0],
+    ];
+    const player = dropGarbage(playerWith(board), 1);
+    expect(player.state.board[2][2]).toBe(BLOCKED);
+    expect(player.state.over).toBe(true);
+  });
+});
+
+describe("playVersusMove", () => {
+  const board = [
+    [128, 128, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+
+  it("sends garbage for big merges when the rule is on", () => {
+    const [, opponent] = createVersusPlayers("versus-test", CONFIG);
+    const players = [playerWith(board), opponent] as const;
+    const withGarbage = playVersusMove([...players], 0, "left", true);
+    expect(withGarbage[0].state.board[0][0]).toBe(256);
+    expect(countBlocked(withGarbage[1].state.board)).toBe(1);
+    const without = playVersusMove([...players], 0, "left", false);
+    expect(without[1]).toBe(opponent);
+  });
+});
+
+describe("getVersusResult", () => {
+  it("ranks by score, then by highest tile", () => {
+    const [one, two] = createVersusPlayers("versus-test", CONFIG);
+    const scored = (player: VersusPlayer, score: number, board: Board) => ({
+      ...player,
+      state: { ...player.state, score, board },
+    });
+    const low = [
+      [2, 0, 0],
+      [0, 0, 0],
+      [0, 0, 0],
+    ];
+    const high = [
+      [8, 0, 0],
+      [0, 0, 0],
+      [0, 0, 0],
+    ];
+    expect(getVersusResult([scored(one, 10, high), scored(two, 20, low)]).winner).toBe(1);
+    expect(getVersusResult([scored(one, 10, high), scored(two, 10, low)]).winner).toBe(0);
+    expect(getVersusResult([scored(one, 10, low), scored(two, 10, low)]).winner).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+// ------------------------------
+// 2048 Versus Matches
+// ------------------------------
+// Two players race on boards started from the same seed, so both see the
+// same opening and the same tiles for as long as they play the same moves.
+// With the garbage rule on, a big merge drops a blocked cell on the
+// opponent's board. The match ends when time runs out or both boards are
+// stuck; the higher score wins, with the highest tile as tie-breaker.
+
+import {
+  addBlockedCells,
+  createGame,
+  getMaxTile,
+  isGameOver,
+  step,
+  Direction,
+  GameConfig,
+  GameState,
+  TileEvent,
+} from "./engine";
+import { BLOCKED } from "./rules";
+import { createRng, rngFromState } from "../random";
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/**
+ * VersusPlayer is one player's side of a match.
+ * - rngState: State of the tile spawn RNG (seeded the same for both players).
+ * - garbageRngState: State of the RNG that places garbage on this board,
+ *   kept apart so garbage does not change which tiles spawn.
+ * - events: Tile events of the last move, for the animation (empty after
+ *   garbage lands).
+ */
+export type VersusPlayer = {
+  state: GameState;
+  rngState: number;
+  garbageRngState: number;
+  events: TileEvent[];
+};
+
+/** The two players of a match, player one first. */
+export type VersusPlayers = [VersusPlayer, VersusPlayer];
+
+/**
+ * VersusResult compares the players at the end of a match.
+ * - winner: Index of the winning player, or null for a draw.
+ */
+export type VersusResult = {
+  winner: 0 | 1 | null;
+  players: { score: number; maxTile: number }[];
+};
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Match lengths offered in the settings, in milliseconds
+export const VERSUS_DURATIONS = [60000, 120000, 180000, 300000];
+export const DEFAULT_VERSUS_DURATION = 180000;
+// A merge into a tile at least this big sends garbage to the opponent
+export const GARBAGE_TILE = 256;
+// Most garbage cells a board can hold at once
+export const MAX_GARBAGE = 3;
+
+// ------------------------------
+// Match Logic
+// ------------------------------
+
+/**
+ * Starts a match: both players get the same board from `seed`.
+ */
+export const createVersusPlayers = (seed: string, config: GameConfig): VersusPlayers => {
+  const createPlayer = (index: number): VersusPlayer => {
+    const rng = createRng(seed);
+    const state = createGame(rng.next, config);
+    return {
+      state,
+      rngState: rng.getState(),
+      garbageRngState: createRng(`${seed}-garbage-${index}`).getState(),
+      events: [],
+    };
+  };
+  return [createPlayer(0), createPlayer(1)];
+};
+
+/**
+ * Counts the merges of a move big enough to send garbage.
+ */
+export const countGarbage = (events: TileEvent[]): number =>
+  events.filter((event) => event.type === "merged" && event.value >= GARBAGE_TILE).length;
+
+/**
+ * Drops `count` garbage cells on empty cells of a player's board, up to
+ * MAX_GARBAGE in total. The board may end up stuck.
+ */
+export const dropGarbage = (player: VersusPlayer, count: number): VersusPlayer => {
+  const onBoard = player.state.board.flat().filter((value) => value === BLOCKED).length;
+  const drop = Math.min(count, MAX_GARBAGE - onBoard);
+  if (drop <= 0 || player.state.over) return player;
+  const rng = rngFromState(player.garbageRngState);
+  const board = addBlockedCells(player.state.board, rng.next, drop);
+  return {
+    ...player,
+    state: { ...player.state, board, over: isGameOver(board) },
+    garbageRngState: rng.getState(),
+    events: [],
+  };
+};
+
+/**
+ * Plays one player's move. With `garbage` on, big merges drop garbage on
+ * the opponent's board. Returns the players unchanged if the move does not
+ * change the board.
+ */
+export const playVersusMove = (
+  players: VersusPlayers,
+  index: 0 | 1,
+  direction: Direction,
+  garbage: boolean
+): VersusPlayers => {
+  const player = players[index];
+  const rng = rngFromState(player.rngState);
+  const { state, events, moved } = step(player.state, direction, rng.next);
+  if (!moved) return players;
+
+  const next: VersusPlayers = [...players];
+  next[index] = { ...player, state, rngState: rng.getState(), events };
+  const opponent = index === 0 ? 1 : 0;
+  if (garbage) next[opponent] = dropGarbage(players[opponent], countGarbage(events));
+  return next;
+};
+
+/**
+ * Compares the players: the higher score wins, then the higher tile.
+ */
+export const getVersusResult = (players: VersusPlayers): VersusResult => {
+  const [one, two] = players.map((player) => ({
+    score: player.state.score,
+    maxTile: getMaxTile(player.state.board),
+  }));
+  let winner: 0 | 1 | null = null;
+  if (one.score !== two.score) winner = one.score > two.score ? 0 : 1;
+  else if (one.maxTile !== two.maxTile) winner = one.maxTile > two.maxTile ? 0 : 1;
+  return { winner, players: [one, two] };
+};
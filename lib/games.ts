@@ -0,0 +1,114 @@
+// ------------------------------
+// Game Registry
+// ------------------------------
+// One entry per game: everything the home page and the shared GameShell
+// need to list, link and explain it. Adding a game means adding an entry
+// here and a route for it.
+
+import { GameId } from "./storage";
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/**
+ * GameMode is one way to play a game, with its own link.
+ */
+export type GameMode = {
+  id: string;
+  label: string;
+  href: string;
+};
+
+/**
+ * GameInfo describes a game.
+ * - route: Main page of the game.
+ * - thumbnail: Image under /public shown on the home page card.
+ * - tagline: Line shown under the title in the game's header.
+ * - modes: Ways to play; the first is the default.
+ * - rules: Shown in the rules panel, one item per line.
+ */
+export type GameInfo = {
+  id: GameId;
+  title: string;
+  route: string;
+  thumbnail: string;
+  description: string;
+  tagline: string;
+  modes: GameMode[];
+  rules: string[];
+};
+
+// ------------------------------
+// Registry
+// ------------------------------
+
+export const GAME_REGISTRY: { [id in GameId]: GameInfo } = {
+  "2048": {
+    id: "2048",
+    title: "Game 2048",
+    route: "/game2048",
+    thumbnail: "/thumbnails/2048.svg",
+    description: "Slide and merge numbered tiles to build the 2048 tile.",
+    tagline: "Made by Dinesha",
+    modes: [
+      { id: "classic", label: "Classic", href: "/game2048" },
+      { id: "fibonacci", label: "Fibonacci", href: "/game2048?mode=fibonacci" },
+      { id: "threes", label: "Threes", href: "/game2048?mode=threes" },
+      { id: "obstacles", label: "Obstacles", href: "/game2048?mode=obstacles" },
+      { id: "daily", label: "Daily", href: "/game2048?mode=daily" },
+      { id: "blitz", label: "Blitz", href: "/game2048?mode=blitz" },
+      { id: "moves", label: "Move Budget", href: "/game2048?mode=moves" },
+      { id: "puzzle", label: "Puzzles", href: "/game2048?mode=puzzle" },
+      { id: "versus", label: "Versus", href: "/game2048/versus" },
+      { id: "replay", label: "Replays", href: "/game2048/replay" },
+      { id: "leaderboard", label: "Leaderboard", href: "/leaderboard/2048" },
+    ],
+    rules: [
+      "Use the arrow keys, WASD or HJKL to move the tiles.",
+      "On a phone or tablet, swipe on the board; a gamepad d-pad or stick works too.",
+      "Press Ctrl+Z to undo a move and Ctrl+Y to redo it.",
+      "Stuck? Press Hint for a suggested move, or let Autoplay play for you.",
+      "Tiles with the same number merge when they touch.",
+      "A new tile appears after each move.",
+      "Pick a board from 3x3 to 8x8 and the tile you want to reach.",
+      "Copy Board puts a link to the current position on the clipboard; open it, or paste it under Load board in the settings, to play on from there.",
+      "Reach the target tile (2048 by default) to win, then keep going for a higher score!",
+      "Variants: in Fibonacci, neighbouring Fibonacci numbers merge (1+2=3, 2+3=5…); in Threes, 1 and 2 combine into 3; Obstacles adds blocked cells nothing can pass.",
+      "Set your own spawn distribution in the settings, e.g. \"2:8, 4:1, 8:1\".",
+      "Save Screenshot downloads a picture of the board with your score; Export GIF turns the game into an animation, one frame per move.",
+      "Daily mode: everyone plays the same board each day; only your first game counts toward your streak.",
+      "Blitz: score as much as you can in 3 minutes. Move Budget: reach the target tile before your moves run out. Puzzles: reach the goal from a hand-made board.",
+      "Versus mode: two players share a keyboard (WASD against the arrow keys) and race the clock from the same board. With garbage on, merging a 256 tile or bigger blocks a cell on the other board.",
+      "When the game ends, submit your score to the leaderboard for your board size, target and rules. Games played with undo, hints or autoplay are not ranked.",
+    ],
+  },
+  flappyBird: {
+    id: "flappyBird",
+    title: "Flappy Bird",
+    route: "/gameFlappyBird",
+    thumbnail: "/thumbnails/flappyBird.svg",
+    description: "Flap through the gaps between the pipes, race your best run or train an AI.",
+    tagline: "Made by Dinesha for the LiL Bro TJW",
+    modes: [
+      { id: "play", label: "Play", href: "/gameFlappyBird" },
+      { id: "daily", label: "Daily", href: "/gameFlappyBird?mode=daily" },
+      { id: "train", label: "Train AI", href: "/gameFlappyBird?mode=train" },
+      { id: "leaderboard", label: "Leaderboard", href: "/leaderboard/flappyBird" },
+    ],
+    rules: [
+      "Click the canvas to flap.",
+      "Fly between the pipes: every pair you pass scores a point.",
+      "Hitting a pipe or the ground ends the run.",
+      "The pipes speed up, close in and start moving as you go; pick Easy, Normal or Hard.",
+      "Your best run on each difficulty comes back as a ghost to race. Ghosts can be exported and shared.",
+      "After a crash, Save Screenshot downloads a picture of it; Export GIF animates the last 20 seconds of your run (or of the ghost).",
+      "Daily mode: everyone flies the same pipes each day; only your first run counts toward your streak.",
+      "After a run, submit your score to the leaderboard for its difficulty.",
+      "In Train AI mode, a population of birds learns to fly by evolution.",
+    ],
+  },
+};
+
+/** Every game, in the order shown on the home page. */
+export const GAMES: GameInfo[] = [GAME_REGISTRY["2048"], GAME_REGISTRY.flappyBird];
@@ -0,0 +1,274 @@
+// ------------------------------
+// Animated GIF Encoder
+// ------------------------------
+// A small GIF89a encoder that runs entirely in the browser (or anywhere
+// else: it only works on pixel arrays). Every frame gets its own 256-color
+// palette, picked from the frame's most common colors, and is compressed
+// with LZW as the format requires. Frames are full-size and replace the
+// previous one, which keeps the encoder simple; game frames change almost
+// everywhere anyway.
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/**
+ * Options for createGifEncoder.
+ * - loop: Times the animation repeats; 0 (the default) repeats forever.
+ */
+export type GifOptions = {
+  loop?: number;
+};
+
+/**
+ * GifEncoder builds a GIF one frame at a time.
+ * - addFrame: Adds a frame of RGBA pixels (as returned by getImageData),
+ *   shown for `delayMs` milliseconds.
+ * - finish: Ends the GIF and returns its bytes.
+ */
+export type GifEncoder = {
+  addFrame: (pixels: Uint8ClampedArray, delayMs: number) => void;
+  finish: () => Uint8Array;
+};
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Colors in every frame's palette (the most a GIF palette can hold)
+const PALETTE_SIZE = 256;
+// Bits per color channel kept when counting colors (5 gives 32768 buckets)
+const COLOR_BITS = 5;
+// Bits per pixel of the LZW data (one palette index per pixel)
+const MIN_CODE_SIZE = 8;
+// Largest code LZW may use (codes are at most 12 bits)
+const MAX_CODE = 4095;
+// Shortest frame delay browsers respect, in hundredths of a second
+const MIN_DELAY = 2;
+
+// ------------------------------
+// Color Quantization
+// ------------------------------
+
+/**
+ * Returns the color bucket of a pixel: its channels cut down to COLOR_BITS
+ * bits each and packed into one number.
+ */
+const colorBucket = (r: number, g: number, b: number): number => {
+  const shift = 8 - COLOR_BITS;
+  return ((r >> shift) << (COLOR_BITS * 2)) | ((g >> shift) << COLOR_BITS) | (b >> shift);
+};
+
+/**
+ * Picks a palette for a frame and maps every pixel to it. The palette holds
+ * the average colors of the most common color buckets; pixels of other
+ * buckets get the nearest palette color. Returns the palette as RGB
+ * triplets (padded to PALETTE_SIZE colors) and one palette index per pixel.
+ */
+const quantize = (pixels: Uint8ClampedArray): { palette: Uint8Array; indices: Uint8Array } => {
+  const bucketCount = 1 << (COLOR_BITS * 3);
+  const counts = new Uint32Array(bucketCount);
+  const sums = new Float64Array(bucketCount * 3);
+  const pixelCount = pixels.length / 4;
+  const buckets = new Uint16Array(pixelCount);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const r = pixels[i * 4];
+    const g = pixels[i * 4 + 1];
+    const b = pixels[i * 4 + 2];
+    const bucket = colorBucket(r, g, b);
+    buckets[i] = bucket;
+    counts[bucket]++;
+    sums[bucket * 3] += r;
+    sums[bucket * 3 + 1] += g;
+    sums[bucket * 3 + 2] += b;
+  }
+
+  // The most common buckets become the palette
+  const used: number[] = [];
+  counts.forEach((count, bucket) => {
+    if (count > 0) used.push(bucket);
+  });
+  used.sort((a, b) => counts[b] - counts[a]);
+  const chosen = used.slice(0, PALETTE_SIZE);
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  const lookup = new Int16Array(bucketCount).fill(-1);
+  chosen.forEach((bucket, index) => {
+    for (let channel = 0; channel < 3; channel++) {
+      palette[index * 3 + channel] = Math.round(sums[bucket * 3 + channel] / counts[bucket]);
+    }
+    lookup[bucket] = index;
+  });
+
+  // Every other bucket is mapped to its nearest palette color once
+  const nearest = (bucket: number): number => {
+    const r = sums[bucket * 3] / counts[bucket];
+    const g = sums[bucket * 3 + 1] / counts[bucket];
+    const b = sums[bucket * 3 + 2] / counts[bucket];
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let index = 0; index < chosen.length; index++) {
+      const dr = palette[index * 3] - r;
+      const dg = palette[index * 3 + 1] - g;
+      const db = palette[index * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  };
+
+  const indices = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    const bucket = buckets[i];
+    if (lookup[bucket] < 0) lookup[bucket] = nearest(bucket);
+    indices[i] = lookup[bucket];
+  }
+  return { palette, indices };
+};
+
+// ------------------------------
+// LZW Compression
+// ------------------------------
+
+/**
+ * Compresses palette indices with the variable-length LZW the GIF format
+ * uses, starting at MIN_CODE_SIZE + 1 bits per code. Returns the raw code
+ * stream (not yet split into sub-blocks).
+ */
+const compress = (indices: Uint8Array): number[] => {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = endCode + 1;
+  // Maps a known sequence plus one more index (prefix code * 256 + index) to its code
+  const codes = new Map<number, number>();
+
+  const write = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      output.push(buffer & 0xff);
+      buffer >>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  write(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = prefix * 256 + index;
+    const code = codes.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    write(prefix);
+    if (nextCode <= MAX_CODE) {
+      codes.set(key, nextCode++);
+      if (nextCode > 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      // The code table is full: start over with a fresh one
+      write(clearCode);
+      codes.clear();
+      codeSize = MIN_CODE_SIZE + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = index;
+  }
+  write(prefix);
+  write(endCode);
+  if (bufferBits > 0) output.push(buffer & 0xff);
+  return output;
+};
+
+// ------------------------------
+// Encoder
+// ------------------------------
+
+/**
+ * Appends a 16-bit little-endian number.
+ */
+const pushWord = (bytes: number[], value: number) => {
+  bytes.push(value & 0xff, (value >> 8) & 0xff);
+};
+
+/**
+ * Appends text as ASCII bytes.
+ */
+const pushText = (bytes: number[], text: string) => {
+  for (let i = 0; i < text.length; i++) bytes.push(text.charCodeAt(i));
+};
+
+/**
+ * Starts a GIF of `width` x `height` pixels. Frames added to it must have
+ * exactly that size.
+ */
+export const createGifEncoder = (width: number, height: number, options: GifOptions = {}): GifEncoder => {
+  const chunks: Uint8Array[] = [];
+
+  // Header and logical screen (no global palette: each frame has its own)
+  const header: number[] = [];
+  pushText(header, "GIF89a");
+  pushWord(header, width);
+  pushWord(header, height);
+  header.push(0, 0, 0);
+  // NETSCAPE2.0 extension: how many times the animation loops
+  header.push(0x21, 0xff, 11);
+  pushText(header, "NETSCAPE2.0");
+  header.push(3, 1);
+  pushWord(header, options.loop ?? 0);
+  header.push(0);
+  chunks.push(Uint8Array.from(header));
+
+  const addFrame = (pixels: Uint8ClampedArray, delayMs: number) => {
+    if (pixels.length !== width * height * 4) {
+      throw new Error(`Frame has ${pixels.length / 4} pixels, expected ${width * height}.`);
+    }
+    const { palette, indices } = quantize(pixels);
+    const bytes: number[] = [];
+
+    // Graphic control: the frame replaces the previous one after `delayMs`
+    bytes.push(0x21, 0xf9, 4, 0x04);
+    pushWord(bytes, Math.max(MIN_DELAY, Math.round(delayMs / 10)));
+    bytes.push(0, 0);
+
+    // Image descriptor with a local palette of PALETTE_SIZE colors
+    bytes.push(0x2c);
+    pushWord(bytes, 0);
+    pushWord(bytes, 0);
+    pushWord(bytes, width);
+    pushWord(bytes, height);
+    bytes.push(0x80 | (Math.log2(PALETTE_SIZE) - 1));
+    palette.forEach((value) => bytes.push(value));
+
+    // Image data: the LZW stream in sub-blocks of at most 255 bytes
+    bytes.push(MIN_CODE_SIZE);
+    const data = compress(indices);
+    for (let start = 0; start < data.length; start += 255) {
+      const block = data.slice(start, start + 255);
+      bytes.push(block.length, ...block);
+    }
+    bytes.push(0);
+    chunks.push(Uint8Array.from(bytes));
+  };
+
+  const finish = (): Uint8Array => {
+    chunks.push(Uint8Array.from([0x3b]));
+    const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    chunks.forEach((chunk) => {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return result;
+  };
+
+  return { addFrame, finish };
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { verifySubmission, LeaderboardError } from "./leaderboard";
+import { createGame, step, Direction, DEFAULT_CONFIG } from "./game2048/engine";
+import { createReplay, decodeMoves, Replay } from "./game2048/replay";
+import { createRng } from "./random";
+
+/**
+ * Plays a seeded 2048 game to the end by trying the directions in a fixed
+ * order, and returns its replay.
+ */
+const playToEnd = (): Replay => {
+  const seed = "leaderboard-test";
+  const rng = createRng(seed);
+  let state = createGame(rng.next, DEFAULT_CONFIG);
+  const directions: Direction[] = [];
+  while (!state.over) {
+    for (const direction of ["down", "left", "right", "up"] as const) {
+      const result = step(state, direction, rng.next);
+      if (result.moved) {
+        state = result.state;
+        directions.push(direction);
+        break;
+      }
+    }
+  }
+  return createReplay({
+    seed,
+    config: DEFAULT_CONFIG,
+    directions,
+    finalScore: state.score,
+    startedAt: new Date(0),
+    endedAt: new Date(0),
+  });
+};
+
+/**
+ * Returns the issues a submission is rejected with (none if it is accepted).
+ */
+const rejection = (replay: Replay): string[] => {
+  try {
+    verifySubmission({ game: "2048", nickname: "Tester", replay });
+    return [];
+  } catch (error) {
+    if (!(error instanceof LeaderboardError)) throw error;
+    return error.issues;
+  }
+};
+
+describe("verifySubmission", () => {
+  const replay = playToEnd();
+
+  it("accepts a finished 2048 game", () => {
+    const verified = verifySubmission({ game: "2048", nickname: "Tester", replay });
+    expect(verified).toEqual({ game: "2048", nickname: "Tester", mode: "4x4-2048", score: replay.finalScore });
+  });
+
+  it("rejects a 2048 game that is not over", () => {
+    const moves = replay.moves.slice(0, 10);
+    const rng = createRng(replay.seed);
+    let state = createGame(rng.next, DEFAULT_CONFIG);
+    decodeMoves(moves).forEach((direction) => {
+      state = step(state, direction, rng.next).state;
+    });
+    expect(rejection({ ...replay, moves, finalScore: state.score })).toEqual([
+      "The game is not over after its last move.",
+    ]);
+  });
+
+  it("rejects games played with undo, hints or autoplay", () => {
+    expect(rejection({ ...replay, assisted: true })).toEqual([
+      "Games played with undo, hints or autoplay are not ranked.",
+    ]);
+  });
+});
@@ -0,0 +1,224 @@
+// ------------------------------
+// Leaderboard
+// ------------------------------
+// Types, validation and client helpers for the online leaderboard served by
+// /api/scores and /api/leaderboard/[game]. A score is never sent as a bare
+// number: 2048 scores come with their replay and Flappy Bird scores with
+// their ghost run, and the server re-simulates them before accepting them.
+
+import { configKey, getConfigRules, isGameOver } from "./game2048/engine";
+import { validateReplay, simulateReplay, Replay, ReplayError } from "./game2048/replay";
+import { validateGhost, simulateGhost, GhostRun, GhostError } from "./flappyBird/ghost";
+import { GameId } from "./storage";
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/**
+ * ScoreSubmission is the body of POST /api/scores: a nickname plus the
+ * record of the game that earned the score.
+ */
+export type ScoreSubmission =
+  | { game: "2048"; nickname: string; replay: Replay }
+  | { game: "flappyBird"; nickname: string; ghost: GhostRun };
+
+/**
+ * VerifiedScore is a submission the server has re-simulated.
+ * - mode: Leaderboard the score belongs to; the board settings for 2048
+ *   (e.g. "4x4-2048") and the difficulty for Flappy Bird.
+ */
+export type VerifiedScore = {
+  game: GameId;
+  mode: string;
+  nickname: string;
+  score: number;
+};
+
+/**
+ * ScoreEntry is an accepted score as stored and listed by the server.
+ * - submittedAt: ISO 8601 timestamp; earlier entries win ties.
+ */
+export type ScoreEntry = VerifiedScore & {
+  id: string;
+  submittedAt: string;
+};
+
+/**
+ * RankedEntry is a score with its 1-based position on its leaderboard.
+ */
+export type RankedEntry = ScoreEntry & { rank: number };
+
+/**
+ * LeaderboardPage is one page of a leaderboard, as returned by
+ * GET /api/leaderboard/[game].
+ * - mode: Mode listed, or null for every mode of the game combined.
+ * - modes: Every mode of the game that has scores.
+ * - total: Number of entries on the whole leaderboard.
+ */
+export type LeaderboardPage = {
+  game: GameId;
+  mode: string | null;
+  modes: string[];
+  page: number;
+  pageSize: number;
+  total: number;
+  entries: RankedEntry[];
+};
+
+/**
+ * LeaderboardError is thrown when a submission or a request is rejected.
+ * `issues` lists every problem found.
+ */
+export class LeaderboardError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(issues.join(" "));
+    this.name = "LeaderboardError";
+    this.issues = issues;
+  }
+}
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Games that have a leaderboard
+export const LEADERBOARD_GAMES: readonly GameId[] = ["2048", "flappyBird"];
+// Nickname rules: 1 to 24 letters, digits, spaces, "_" or "-"
+export const MAX_NICKNAME_LENGTH = 24;
+const NICKNAME_PATTERN = /^[\p{L}\p{N} _-]+$/u;
+// Entries per page by default and at most
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 50;
+// Longest 2048 game the server will re-simulate
+const MAX_REPLAY_MOVES = 100000;
+
+// ------------------------------
+// Validation
+// ------------------------------
+
+/**
+ * Returns true if `value` names a game with a leaderboard.
+ */
+export const isLeaderboardGame = (value: unknown): value is GameId =>
+  LEADERBOARD_GAMES.includes(value as GameId);
+
+/**
+ * Returns the trimmed nickname, or throws a LeaderboardError if it breaks
+ * the nickname rules.
+ */
+export const validateNickname = (value: unknown): string => {
+  const nickname = typeof value === "string" ? value.trim().replace(/\s+/g, " ") : "";
+  if (nickname.length === 0 || nickname.length > MAX_NICKNAME_LENGTH || !NICKNAME_PATTERN.test(nickname)) {
+    throw new LeaderboardError([
+      `Nickname must be 1 to ${MAX_NICKNAME_LENGTH} letters, digits, spaces, "_" or "-".`,
+    ]);
+  }
+  return nickname;
+};
+
+/**
+ * Checks a submission and re-simulates its game from the seed, so only
+ * scores that the recorded moves really reach are accepted.
+ * Throws a LeaderboardError listing every problem found.
+ */
+export const verifySubmission = (data: unknown): VerifiedScore => {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new LeaderboardError(["Submission must be a JSON object."]);
+  }
+  const record = data as { [key: string]: unknown };
+  const issues: string[] = [];
+  let nickname = "";
+  try {
+    nickname = validateNickname(record.nickname);
+  } catch (error) {
+    if (!(error instanceof LeaderboardError)) throw error;
+    issues.push(...error.issues);
+  }
+
+  let verified: { mode: string; score: number } | null = null;
+  try {
+    if (record.game === "2048") {
+      const replay = validateReplay(record.replay);
+      if (replay.moves.length > MAX_REPLAY_MOVES) {
+        throw new ReplayError([`Replays are limited to ${MAX_REPLAY_MOVES} moves.`]);
+      }
+      if (replay.assisted) {
+        throw new ReplayError(["Games played with undo, hints or autoplay are not ranked."]);
+      }
+      const states = simulateReplay(replay);
+      const final = states[states.length - 1];
+      if (!isGameOver(final.board, getConfigRules(replay))) {
+        throw new ReplayError(["The game is not over after its last move."]);
+      }
+      verified = { mode: configKey(replay), score: final.score };
+    } else if (record.game === "flappyBird") {
+      const run = validateGhost(record.ghost);
+      const final = simulateGhost(run);
+      if (final.score !== run.score) {
+        throw new GhostError([`Recorded score ${run.score} does not match the replayed score ${final.score}.`]);
+      }
+      if (!final.over) {
+        throw new GhostError(["The run does not end on its last step."]);
+      }
+      verified = { mode: run.difficulty, score: final.score };
+    } else {
+      issues.push(`"game" must be one of ${LEADERBOARD_GAMES.join(", ")}.`);
+    }
+  } catch (error) {
+    if (!(error instanceof ReplayError || error instanceof GhostError)) throw error;
+    issues.push(...error.issues);
+  }
+
+  if (issues.length > 0 || !verified) throw new LeaderboardError(issues);
+  return { game: record.game as GameId, nickname, ...verified };
+};
+
+// ------------------------------
+// Client Helpers
+// ------------------------------
+
+/**
+ * Reads a JSON response, turning error responses into a LeaderboardError
+ * with the issues the server reported.
+ */
+const readResponse = async <T>(response: Response): Promise<T> => {
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const issues = Array.isArray(body?.issues) ? body.issues : [`Request failed (${response.status}).`];
+    throw new LeaderboardError(issues);
+  }
+  return body as T;
+};
+
+/**
+ * Submits a score and returns the stored entry with its rank.
+ */
+export const submitScore = async (submission: ScoreSubmission): Promise<RankedEntry> => {
+  const response = await fetch("/api/scores", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(submission),
+  });
+  return readResponse<RankedEntry>(response);
+};
+
+/**
+ * Fetches one page of a game's leaderboard (every mode when `mode` is null).
+ */
+export const fetchLeaderboard = async (params: {
+  game: GameId;
+  mode: string | null;
+  page: number;
+  pageSize?: number;
+}): Promise<LeaderboardPage> => {
+  const query = new URLSearchParams({
+    page: String(params.page),
+    pageSize: String(params.pageSize ?? DEFAULT_PAGE_SIZE),
+  });
+  if (params.mode) query.set("mode", params.mode);
+  const response = await fetch(`/api/leaderboard/${params.game}?${query}`);
+  return readResponse<LeaderboardPage>(response);
+};
@@ -0,0 +1,86 @@
+// ------------------------------
+// Seeded Random Numbers
+// ------------------------------
+// A small seedable PRNG shared by both games. The same seed always yields
+// the same sequence, so tile spawns and pipe layouts can be reproduced.
+// The generator is Mulberry32: a single 32-bit state, fast and good enough
+// for games (not for anything security related).
+
+/** A random number source returning values in [0, 1), like Math.random. */
+export type Rng = () => number;
+
+/**
+ * SeededRng is a stateful generator whose state can be read back, so a game
+ * can save it (for undo, replays or shared positions) and resume from it.
+ * - next: Returns the next number in [0, 1) and advances the state.
+ * - getState: Returns the current 32-bit state.
+ */
+export type SeededRng = {
+  next: Rng;
+  getState: () => number;
+};
+
+// Characters used for generated seeds
+const SEED_ALPHABET = "abcdefghijklmnopqrstuvwxyz0123456789";
+// Length of generated seeds
+const SEED_LENGTH = 8;
+
+/**
+ * Hashes a seed string into a 32-bit unsigned integer (FNV-1a followed by
+ * a final avalanche step so similar seeds give unrelated states).
+ */
+export const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  return hash >>> 0;
+};
+
+/**
+ * Advances a Mulberry32 state once.
+ * Returns the generated number in [0, 1) and the next state.
+ */
+export const nextRandom = (state: number): { value: number; state: number } => {
+  const nextState = (state + 0x6d2b79f5) >>> 0;
+  let t = nextState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return { value: ((t ^ (t >>> 14)) >>> 0) / 4294967296, state: nextState };
+};
+
+/**
+ * Creates a generator that continues from a saved 32-bit state.
+ */
+export const rngFromState = (initialState: number): SeededRng => {
+  let state = initialState >>> 0;
+  return {
+    next: () => {
+      const result = nextRandom(state);
+      state = result.state;
+      return result.value;
+    },
+    getState: () => state,
+  };
+};
+
+/**
+ * Creates a generator from a seed string.
+ */
+export const createRng = (seed: string): SeededRng => rngFromState(hashSeed(seed));
+
+/**
+ * Generates a short random seed such as "k3f9x0qa" for games started
+ * without one.
+ */
+export const randomSeed = (): string => {
+  let seed = "";
+  for (let i = 0; i < SEED_LENGTH; i++) {
+    seed += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+  }
+  return seed;
+};
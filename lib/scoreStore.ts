@@ -0,0 +1,145 @@
+// ------------------------------
+// Score Store
+// ------------------------------
+// Server-only storage for the leaderboard: every accepted score is kept in
+// one JSON file (data/scores.json, or the path in SCORES_FILE). Writes are
+// queued one after another and go through a temporary file, so concurrent
+// submissions never lose each other and a crash never leaves half a file.
+
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { LeaderboardPage, RankedEntry, ScoreEntry, VerifiedScore } from "./leaderboard";
+import { GameId } from "./storage";
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/**
+ * ScoreFile is the stored object.
+ * - version: Schema version of the file.
+ */
+type ScoreFile = {
+  version: typeof SCORE_FILE_VERSION;
+  scores: ScoreEntry[];
+};
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+const SCORE_FILE_VERSION = 1;
+// Location of the file; override with the SCORES_FILE environment variable
+const SCORES_FILE = process.env.SCORES_FILE ?? path.join(process.cwd(), "data", "scores.json");
+// Entries kept per game and mode; lower scores are dropped beyond this
+const MAX_ENTRIES_PER_MODE = 1000;
+
+// ------------------------------
+// File Access
+// ------------------------------
+
+// Tail of the write queue; each write waits for the previous one
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Reads the score file. A missing file is an empty leaderboard; an
+ * unreadable one is an error, so it is never silently overwritten.
+ */
+const readScores = async (): Promise<ScoreEntry[]> => {
+  let text: string;
+  try {
+    text = await fs.readFile(SCORES_FILE, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  const data = JSON.parse(text) as ScoreFile;
+  if (data.version !== SCORE_FILE_VERSION || !Array.isArray(data.scores)) {
+    throw new Error(`${SCORES_FILE} is not a version ${SCORE_FILE_VERSION} score file.`);
+  }
+  return data.scores;
+};
+
+/**
+ * Replaces the score file with `scores`.
+ */
+const writeScores = async (scores: ScoreEntry[]) => {
+  const data: ScoreFile = { version: SCORE_FILE_VERSION, scores };
+  const temporary = `${SCORES_FILE}.${process.pid}.tmp`;
+  await fs.mkdir(path.dirname(SCORES_FILE), { recursive: true });
+  await fs.writeFile(temporary, JSON.stringify(data));
+  await fs.rename(temporary, SCORES_FILE);
+};
+
+/**
+ * Runs `task` after every queued read-modify-write has finished.
+ */
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = queue.then(task);
+  queue = result.catch(() => {});
+  return result;
+};
+
+// ------------------------------
+// Ranking
+// ------------------------------
+
+/**
+ * Orders entries best first: higher score, then earlier submission.
+ */
+const compareEntries = (a: ScoreEntry, b: ScoreEntry): number =>
+  b.score - a.score || a.submittedAt.localeCompare(b.submittedAt);
+
+/**
+ * Returns the entries of a game (and mode, unless null), best first.
+ */
+const rankEntries = (scores: ScoreEntry[], game: GameId, mode: string | null): ScoreEntry[] =>
+  scores
+    .filter((entry) => entry.game === game && (mode === null || entry.mode === mode))
+    .sort(compareEntries);
+
+// ------------------------------
+// Public API
+// ------------------------------
+
+/**
+ * Stores a verified score and returns it with its rank on its mode's
+ * leaderboard.
+ */
+export const addScore = (score: VerifiedScore): Promise<RankedEntry> =>
+  enqueue(async () => {
+    const entry: ScoreEntry = { ...score, id: randomUUID(), submittedAt: new Date().toISOString() };
+    const scores = await readScores();
+    const ranked = rankEntries([...scores, entry], score.game, score.mode);
+    const others = scores.filter((other) => other.game !== score.game || other.mode !== score.mode);
+    await writeScores([...others, ...ranked.slice(0, MAX_ENTRIES_PER_MODE)]);
+    return { ...entry, rank: ranked.indexOf(entry) + 1 };
+  });
+
+/**
+ * Returns one page of a game's leaderboard; `page` starts at 1.
+ */
+export const getLeaderboard = async (params: {
+  game: GameId;
+  mode: string | null;
+  page: number;
+  pageSize: number;
+}): Promise<LeaderboardPage> => {
+  const { game, mode, page, pageSize } = params;
+  const scores = await readScores();
+  const ranked = rankEntries(scores, game, mode);
+  const start = (page - 1) * pageSize;
+  const modes = Array.from(
+    new Set(scores.filter((entry) => entry.game === game).map((entry) => entry.mode))
+  ).sort();
+  return {
+    game,
+    mode,
+    modes,
+    page,
+    pageSize,
+    total: ranked.length,
+    entries: ranked.slice(start, start + pageSize).map((entry, i) => ({ ...entry, rank: start + i + 1 })),
+  };
+};
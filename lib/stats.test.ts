@@ -0,0 +1,124 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  addRecord,
+  findUnlocked,
+  loadStats,
+  recordStatsEvent,
+  subscribeAchievements,
+  GameRecord,
+  StatsEvent,
+  StoredStats,
+  MAX_RECORDS,
+} from "./stats";
+
+const EMPTY: StoredStats = { totals: {}, records: [], achievements: {} };
+
+const record: GameRecord = {
+  game: "2048",
+  mode: "4x4-2048",
+  score: 25000,
+  maxTile: 2048,
+  moves: 1000,
+  durationMs: 600000,
+  endedAt: "2025-03-01T12:00:00.000Z",
+};
+
+describe("addRecord", () => {
+  it("adds up totals and keeps the record", () => {
+    const stats = addRecord(addRecord(EMPTY, record), { ...record, maxTile: 512 });
+    expect(stats.totals["2048"]).toEqual({ games: 2, timeMs: 1200000, pipes: 0, highestTile: 2048 });
+    expect(stats.records).toHaveLength(2);
+  });
+
+  it("counts a game lost again after an undo once", () => {
+    const startedAt = "2025-03-01T11:50:00.000Z";
+    const first = addRecord(EMPTY, { ...record, startedAt });
+    const again = addRecord(first, { ...record, startedAt, score: 25100, moves: 1001 });
+    expect(again).toBe(first);
+    expect(again.totals["2048"]?.games).toBe(1);
+    const next = addRecord(again, { ...record, startedAt: "2025-03-01T12:05:00.000Z" });
+    expect(next.totals["2048"]?.games).toBe(2);
+  });
+
+  it("keeps only the most recent records", () => {
+    let stats = EMPTY;
+    for (let i = 0; i < MAX_RECORDS + 5; i++) stats = addRecord(stats, { ...record, score: i });
+    expect(stats.records).toHaveLength(MAX_RECORDS);
+    expect(stats.records[0].score).toBe(5);
+    expect(stats.totals["2048"]?.games).toBe(MAX_RECORDS + 5);
+  });
+});
+
+describe("findUnlocked", () => {
+  it("unlocks the achievements a finished game earns", () => {
+    const event = { type: "gameOver" as const, record };
+    const ids = findUnlocked(event, addRecord(EMPTY, record)).map((achievement) => achievement.id);
+    expect(ids).toEqual(["2048-score-20000"]);
+  });
+
+  it("unlocks nothing for games left out of achievements", () => {
+    const event = { type: "gameOver" as const, record, achievements: false };
+    expect(findUnlocked(event, addRecord(EMPTY, record))).toEqual([]);
+  });
+
+  it("skips achievements that are already unlocked", () => {
+    const stats = { ...addRecord(EMPTY, record), achievements: { "2048-score-20000": record.endedAt } };
+    expect(findUnlocked({ type: "gameOver", record }, stats)).toEqual([]);
+  });
+});
+
+describe("recordStatsEvent", () => {
+  const items = new Map<string, string>();
+  const storage = {
+    getItem: vi.fn((key: string) => items.get(key) ?? null),
+    setItem: vi.fn((key: string, value: string) => {
+      items.set(key, value);
+    }),
+  };
+
+  beforeAll(() => {
+    vi.stubGlobal("window", { localStorage: storage });
+    return () => vi.unstubAllGlobals();
+  });
+
+  /**
+   * Returns a 2048 move event with `tile` as the highest tile.
+   */
+  const moveEvent = (tile: number): StatsEvent => ({
+    type: "move",
+    game: "2048",
+    rules: "classic",
+    board: [
+      [tile, 0, 0],
+      [0, 2, 0],
+      [0, 0, 0],
+    ],
+    score: 100,
+    directions: ["left", "down"],
+  });
+
+  it("reads the save once for moves that unlock nothing", () => {
+    recordStatsEvent(moveEvent(8));
+    const reads = storage.getItem.mock.calls.length;
+    for (let i = 0; i < 20; i++) recordStatsEvent(moveEvent(64));
+    expect(storage.getItem.mock.calls.length).toBe(reads);
+    expect(storage.setItem).not.toHaveBeenCalled();
+  });
+
+  it("stores and announces an achievement a move unlocks, once", () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeAchievements(listener);
+    recordStatsEvent(moveEvent(512));
+    recordStatsEvent(moveEvent(512));
+    unsubscribe();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].map((achievement: { id: string }) => achievement.id)).toEqual(["2048-tile-512"]);
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    expect(Object.keys(loadStats().achievements)).toEqual(["2048-tile-512"]);
+  });
+
+  it("stores every finished game", () => {
+    recordStatsEvent({ type: "gameOver", record });
+    expect(loadStats().totals["2048"]?.games).toBe(1);
+  });
+});
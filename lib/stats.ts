@@ -0,0 +1,339 @@
+// ------------------------------
+// Statistics and Achievements
+// ------------------------------
+// The games report what happens while they are played as stats events:
+// 2048 moves, Flappy Bird pipes and the end of every game. Finished games
+// are added to the saved statistics, and after every event the locked
+// achievements of that game are checked. Moves and pipes are checked
+// against a copy of the statistics kept in memory, so the save is only
+// read and written when one of them unlocks something. Listeners (the
+// achievement toasts) hear about every achievement as soon as it unlocks.
+
+import { getMaxTile, Board, Direction } from "./game2048/engine";
+import { getRuleSet, RuleSetId } from "./game2048/rules";
+import { loadSave, updateSave, GameId } from "./storage";
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/**
+ * GameRecord describes one finished game.
+ * - mode: Board settings for 2048 (e.g. "4x4-2048"), difficulty for Flappy Bird.
+ * - maxTile / moves: Highest tile and number of moves (2048 only).
+ * - pipes: Pipes passed (Flappy Bird only).
+ * - durationMs: Time the game took.
+ * - startedAt / endedAt: ISO 8601 timestamps. A game that ends again (after
+ *   undoing its last move) keeps its start time and is only counted once.
+ */
+export type GameRecord = {
+  game: GameId;
+  mode: string;
+  score: number;
+  maxTile?: number;
+  moves?: number;
+  pipes?: number;
+  durationMs: number;
+  startedAt?: string;
+  endedAt: string;
+};
+
+/**
+ * GameTotals are running totals of one game over every finished game.
+ */
+export type GameTotals = {
+  games: number;
+  timeMs: number;
+  pipes: number;
+  highestTile: number;
+};
+
+/**
+ * StoredStats is the saved statistics.
+ * - totals: Running totals per game.
+ * - records: The most recent finished games (see MAX_RECORDS), oldest first.
+ * - achievements: Unlock time (ISO 8601) of every unlocked achievement, by id.
+ */
+export type StoredStats = {
+  totals: { [game in GameId]?: GameTotals };
+  records: GameRecord[];
+  achievements: { [id: string]: string };
+};
+
+/**
+ * StatsEvent is something that happened in a game.
+ * - move: A 2048 move under `rules`; `directions` lists every live move of
+ *   the game.
+ * - pipe: A pipe was passed in Flappy Bird; `score` is the new score.
+ * - gameOver: A game ended. With `achievements` false it still counts in
+ *   the statistics but unlocks nothing (games that hand out big tiles).
+ */
+export type StatsEvent =
+  | { type: "move"; game: "2048"; rules: RuleSetId; board: Board; score: number; directions: Direction[] }
+  | { type: "pipe"; game: "flappyBird"; score: number }
+  | { type: "gameOver"; record: GameRecord; achievements?: boolean };
+
+/**
+ * Achievement is a goal to unlock. `check` receives the event that just
+ * happened and the statistics including it.
+ */
+export type Achievement = {
+  id: string;
+  game: GameId;
+  title: string;
+  description: string;
+  check: (event: StatsEvent, stats: StoredStats) => boolean;
+};
+
+/**
+ * StatsSummary is what the stats page shows for a game.
+ * - averageScore / medianScore / distribution: Over the recent records.
+ */
+export type StatsSummary = {
+  games: number;
+  timeMs: number;
+  pipes: number;
+  highestTile: number;
+  bestScore: number;
+  averageScore: number;
+  medianScore: number;
+  recentScores: number[];
+};
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// Finished games kept for averages, medians and charts
+export const MAX_RECORDS = 500;
+
+const EMPTY_TOTALS: GameTotals = { games: 0, timeMs: 0, pipes: 0, highestTile: 0 };
+
+/**
+ * Returns the game an event belongs to.
+ */
+const eventGame = (event: StatsEvent): GameId =>
+  event.type === "gameOver" ? event.record.game : event.game;
+
+/**
+ * Returns the highest tile on the board of a 2048 move event (0 otherwise,
+ * and for rule sets whose tiles are not doubled, where 2048 means something
+ * else).
+ */
+const eventTile = (event: StatsEvent): number =>
+  event.type === "move" && getRuleSet(event.rules).doubling ? getMaxTile(event.board) : 0;
+
+/**
+ * Returns the score of an event.
+ */
+const eventScore = (event: StatsEvent): number =>
+  event.type === "gameOver" ? event.record.score : event.score;
+
+// Every achievement, in the order shown on the stats page
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: "2048-tile-512",
+    game: "2048",
+    title: "Halfway There",
+    description: "Reach the 512 tile.",
+    check: (event) => eventTile(event) >= 512,
+  },
+  {
+    id: "2048-tile-2048",
+    game: "2048",
+    title: "2048!",
+    description: "Reach the 2048 tile.",
+    check: (event) => eventTile(event) >= 2048,
+  },
+  {
+    id: "2048-no-up-1024",
+    game: "2048",
+    title: "Never Look Up",
+    description: "Reach 1024 without moving up.",
+    check: (event) =>
+      event.type === "move" && eventTile(event) >= 1024 && !event.directions.includes("up"),
+  },
+  {
+    id: "2048-score-20000",
+    game: "2048",
+    title: "High Roller",
+    description: "Score 20,000 points in one game.",
+    check: (event) => eventScore(event) >= 20000,
+  },
+  {
+    id: "2048-games-25",
+    game: "2048",
+    title: "Regular",
+    description: "Finish 25 games of 2048.",
+    check: (_, stats) => (stats.totals["2048"]?.games ?? 0) >= 25,
+  },
+  {
+    id: "flappy-pipes-10",
+    game: "flappyBird",
+    title: "Taking Off",
+    description: "Pass 10 pipes in one run.",
+    check: (event) => event.type !== "move" && eventScore(event) >= 10,
+  },
+  {
+    id: "flappy-pipes-50",
+    game: "flappyBird",
+    title: "Frequent Flyer",
+    description: "Pass 50 pipes in one run.",
+    check: (event) => event.type !== "move" && eventScore(event) >= 50,
+  },
+  {
+    id: "flappy-total-500",
+    game: "flappyBird",
+    title: "Long Haul",
+    description: "Pass 500 pipes in total.",
+    check: (_, stats) => (stats.totals.flappyBird?.pipes ?? 0) >= 500,
+  },
+  {
+    id: "flappy-games-50",
+    game: "flappyBird",
+    title: "Try, Try Again",
+    description: "Finish 50 Flappy Bird runs.",
+    check: (_, stats) => (stats.totals.flappyBird?.games ?? 0) >= 50,
+  },
+];
+
+// ------------------------------
+// Recording
+// ------------------------------
+
+/**
+ * Adds a finished game to the statistics. A game already recorded (same
+ * game and start time) leaves them unchanged.
+ */
+export const addRecord = (stats: StoredStats, record: GameRecord): StoredStats => {
+  const recorded =
+    record.startedAt !== undefined &&
+    stats.records.some((other) => other.game === record.game && other.startedAt === record.startedAt);
+  if (recorded) return stats;
+  const totals = stats.totals[record.game] ?? EMPTY_TOTALS;
+  return {
+    ...stats,
+    totals: {
+      ...stats.totals,
+      [record.game]: {
+        games: totals.games + 1,
+        timeMs: totals.timeMs + record.durationMs,
+        pipes: totals.pipes + (record.pipes ?? 0),
+        highestTile: Math.max(totals.highestTile, record.maxTile ?? 0),
+      },
+    },
+    records: [...stats.records, record].slice(-MAX_RECORDS),
+  };
+};
+
+/**
+ * Returns the achievements an event unlocks, given the statistics
+ * including it.
+ */
+export const findUnlocked = (event: StatsEvent, stats: StoredStats): Achievement[] => {
+  if (event.type === "gameOver" && event.achievements === false) return [];
+  return ACHIEVEMENTS.filter(
+    (achievement) =>
+      achievement.game === eventGame(event) &&
+      !stats.achievements[achievement.id] &&
+      achievement.check(event, stats)
+  );
+};
+
+// Listeners told about newly unlocked achievements
+const listeners = new Set<(achievements: Achievement[]) => void>();
+// The saved statistics as last read or written here (null until needed)
+let cachedStats: StoredStats | null = null;
+
+/**
+ * Registers a listener for newly unlocked achievements. Returns a function
+ * that removes it again.
+ */
+export const subscribeAchievements = (listener: (achievements: Achievement[]) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Records a stats event: stores finished games, unlocks the achievements
+ * the event earns and tells the listeners about them. Moves and pipes
+ * that unlock nothing leave the save alone.
+ */
+export const recordStatsEvent = (event: StatsEvent) => {
+  if (event.type !== "gameOver" && findUnlocked(event, cachedStats ?? loadStats()).length === 0) return;
+  let unlocked: Achievement[] = [];
+  updateSave((data) => {
+    const stats = event.type === "gameOver" ? addRecord(data.stats, event.record) : data.stats;
+    unlocked = findUnlocked(event, stats);
+    cachedStats = stats;
+    if (stats === data.stats && unlocked.length === 0) return data;
+    const now = new Date().toISOString();
+    const achievements = { ...stats.achievements };
+    unlocked.forEach((achievement) => {
+      achievements[achievement.id] = now;
+    });
+    cachedStats = { ...stats, achievements };
+    return { ...data, stats: cachedStats };
+  });
+  if (unlocked.length > 0) listeners.forEach((listener) => listener(unlocked));
+};
+
+/**
+ * Returns the saved statistics.
+ */
+export const loadStats = (): StoredStats => {
+  cachedStats = loadSave().stats;
+  return cachedStats;
+};
+
+// ------------------------------
+// Summaries
+// ------------------------------
+
+/**
+ * Returns the median of a list of numbers (0 for an empty list).
+ */
+export const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Summarizes a game's statistics for the stats page.
+ */
+export const getStatsSummary = (stats: StoredStats, game: GameId): StatsSummary => {
+  const totals = stats.totals[game] ?? EMPTY_TOTALS;
+  const recentScores = stats.records.filter((record) => record.game === game).map((record) => record.score);
+  return {
+    ...totals,
+    bestScore: Math.max(0, ...recentScores),
+    averageScore:
+      recentScores.length > 0 ? recentScores.reduce((sum, score) => sum + score, 0) / recentScores.length : 0,
+    medianScore: median(recentScores),
+    recentScores,
+  };
+};
+
+/**
+ * Splits scores into `bucketCount` equal ranges from 0 to the highest
+ * score and counts the scores in each, for the distribution chart.
+ */
+export const getScoreHistogram = (
+  scores: number[],
+  bucketCount: number
+): { from: number; to: number; count: number }[] => {
+  const width = Math.max(1, Math.ceil((Math.max(0, ...scores) + 1) / bucketCount));
+  const buckets = Array.from({ length: bucketCount }, (_, i) => ({
+    from: i * width,
+    to: (i + 1) * width - 1,
+    count: 0,
+  }));
+  scores.forEach((score) => {
+    buckets[Math.min(Math.floor(score / width), bucketCount - 1)].count++;
+  });
+  return buckets;
+};
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getBestScore,
+  loadDailyResults,
+  loadDailyRun,
+  loadSave,
+  migrateSave,
+  recordBestScore,
+  recordDailyResult,
+  saveDailyRun,
+  updateSave,
+  SAVE_VERSION,
+  STORAGE_KEY,
+} from "./storage";
+
+/**
+ * Returns an in-memory stand-in for localStorage.
+ */
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    },
+  };
+};
+
+const EMPTY_STATS = { totals: {}, records: [], achievements: {} };
+
+beforeEach(() => {
+  vi.stubGlobal("window", { localStorage: createMemoryStorage() });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("migrateSave", () => {
+  it("upgrades an unversioned save and keeps its best scores", () => {
+    const save = migrateSave({ bestScores: { "2048": { "4x4-2048": 5000 } }, junk: true });
+    expect(save).toEqual({
+      version: SAVE_VERSION,
+      bestScores: { "2048": { "4x4-2048": 5000 } },
+      game2048: null,
+      ghosts: {},
+      audio: { muted: false, volume: 0.5 },
+      nickname: "",
+      daily: {},
+      dailyRun: null,
+      stats: EMPTY_STATS,
+    });
+  });
+
+  it("drops ghosts recorded before the pipe movement changed", () => {
+    const ghost = { version: 1, seed: "old", difficulty: "normal" };
+    const save = migrateSave({
+      version: 6,
+      bestScores: {},
+      game2048: null,
+      ghosts: { normal: ghost },
+      audio: { muted: true, volume: 0.2 },
+      nickname: "Ada",
+      daily: { flappyBird: { "2025-03-01": { score: 4, playedAt: "2025-03-01T10:00:00.000Z" } } },
+      stats: EMPTY_STATS,
+    });
+    expect(save?.ghosts).toEqual({});
+    expect(save?.dailyRun).toBeNull();
+    expect(save).toMatchObject({ version: SAVE_VERSION, nickname: "Ada", audio: { muted: true, volume: 0.2 } });
+    expect(save?.daily.flappyBird?.["2025-03-01"].score).toBe(4);
+  });
+
+  it("runs every migration in order", () => {
+    for (let version = 0; version < SAVE_VERSION; version++) {
+      expect(migrateSave({ version, bestScores: {} })?.version).toBe(SAVE_VERSION);
+    }
+  });
+
+  it("keeps a current save as it is", () => {
+    const save = migrateSave({ version: SAVE_VERSION, nickname: "Ada" });
+    expect(save?.nickname).toBe("Ada");
+  });
+
+  it("refuses saves from a newer version or that are not objects", () => {
+    expect(migrateSave({ version: SAVE_VERSION + 1 })).toBeNull();
+    expect(migrateSave([])).toBeNull();
+    expect(migrateSave("save")).toBeNull();
+    expect(migrateSave(null)).toBeNull();
+  });
+});
+
+describe("loadSave", () => {
+  it("falls back to an empty save when the stored one cannot be read", () => {
+    window.localStorage.setItem(STORAGE_KEY, "{not json");
+    expect(loadSave()).toMatchObject({ version: SAVE_VERSION, bestScores: {}, game2048: null });
+  });
+
+  it("does not write a save the update leaves unchanged", () => {
+    updateSave((data) => data);
+    expect(window.localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+});
+
+describe("recordBestScore", () => {
+  it("only keeps higher scores", () => {
+    recordBestScore("2048", "4x4-2048", 300);
+    recordBestScore("2048", "4x4-2048", 200);
+    expect(getBestScore("2048", "4x4-2048")).toBe(300);
+    expect(getBestScore("2048", "5x5-2048")).toBe(0);
+  });
+});
+
+describe("daily challenge", () => {
+  it("keeps the daily run in progress until it is cleared", () => {
+    expect(loadDailyRun()).toBeNull();
+    saveDailyRun({ date: "2025-03-01", score: 7 });
+    expect(loadDailyRun()).toEqual({ date: "2025-03-01", score: 7 });
+    saveDailyRun(null);
+    expect(loadDailyRun()).toBeNull();
+  });
+
+  it("only counts the first attempt of a day", () => {
+    expect(recordDailyResult("flappyBird", "2025-03-01", { score: 3, playedAt: "2025-03-01T10:00:00.000Z" })).toBe(true);
+    expect(recordDailyResult("flappyBird", "2025-03-01", { score: 9, playedAt: "2025-03-01T11:00:00.000Z" })).toBe(false);
+    expect(loadDailyResults("flappyBird")["2025-03-01"].score).toBe(3);
+  });
+});
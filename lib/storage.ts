@@ -0,0 +1,373 @@
+// ------------------------------
+// Persistent Storage
+// ------------------------------
+// Saves best scores, the in-progress 2048 game, the best Flappy Bird ghost
+// runs, the audio settings, the leaderboard nickname, the daily challenge
+// results, the Flappy Bird daily run in progress and the statistics in
+// localStorage under a single versioned key. Older saves are upgraded by
+// running the migrations in order. Every function is safe to call during
+// server rendering: without `window` nothing is read or written and the
+// defaults are returned.
+
+import { Direction, GameConfig } from "./game2048/engine";
+import { History } from "./game2048/history";
+import { DifficultyId } from "./flappyBird/difficulty";
+import { GhostRun } from "./flappyBird/ghost";
+import { DailyResult, DailyResults } from "./daily";
+import { StoredStats } from "./stats";
+
+// ------------------------------
+// Type Definitions
+// ------------------------------
+
+/** Identifiers of the games that keep saved data. */
+export type GameId = "2048" | "flappyBird";
+
+/**
+ * SavedGame2048 is everything needed to resume an unfinished 2048 game.
+ * - assisted: True once undo, a hint or autoplay was used (missing in
+ *   games saved before it was tracked).
+ * - daily: Date of the daily challenge the game is an attempt at (missing
+ *   for other games).
+ */
+export type SavedGame2048 = {
+  seed: string;
+  config: GameConfig;
+  maxUndos: number | null;
+  history: History;
+  directions: Direction[];
+  startedAt: string;
+  winRecord: { moves: number; timeMs: number } | null;
+  keepPlaying: boolean;
+  assisted?: boolean;
+  daily?: string;
+};
+
+/**
+ * DailyRun marks a Flappy Bird daily challenge run in progress: its date
+ * and the score it has reached so far.
+ */
+export type DailyRun = {
+  date: string;
+  score: number;
+};
+
+/**
+ * AudioSettings are the player's sound preferences (volume from 0 to 1).
+ */
+export type AudioSettings = {
+  muted: boolean;
+  volume: number;
+};
+
+/**
+ * SaveData is the whole stored object.
+ * - version: Schema version of this save.
+ * - bestScores: Best score per game, then per mode (e.g. "4x4-2048").
+ * - game2048: The unfinished 2048 game, if any.
+ * - ghosts: Best Flappy Bird run per difficulty, replayed as a ghost.
+ * - audio: Mute and volume settings shared by both games.
+ * - nickname: Name last used on the leaderboard ("" if none yet).
+ * - daily: Scored daily challenge attempts per game, keyed by date.
+ * - dailyRun: The Flappy Bird daily run in progress, if any. A run the page
+ *   closed on is scored from it on the next load.
+ * - stats: Finished games and unlocked achievements (see lib/stats.ts).
+ */
+export type SaveData = {
+  version: typeof SAVE_VERSION;
+  bestScores: { [game in GameId]?: { [mode: string]: number } };
+  game2048: SavedGame2048 | null;
+  ghosts: { [difficulty in DifficultyId]?: GhostRun };
+  audio: AudioSettings;
+  nickname: string;
+  daily: { [game in GameId]?: DailyResults };
+  dailyRun: DailyRun | null;
+  stats: StoredStats;
+};
+
+// ------------------------------
+// Constants
+// ------------------------------
+
+// localStorage key holding the save
+export const STORAGE_KEY = "my-2048-app:save";
+// Current schema version
+export const SAVE_VERSION = 8;
+// Audio settings before the player changes them
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { muted: false, volume: 0.5 };
+
+/**
+ * Migrations upgrade a save from the version they are keyed by to the next
+ * one. Saves without a version number are treated as version 0.
+ */
+const MIGRATIONS: { [fromVersion: number]: (data: { [key: string]: unknown }) => { [key: string]: unknown } } = {
+  // 0 -> 1: introduce the version field; keep any best scores that exist
+  0: (data) => ({
+    version: 1,
+    bestScores: typeof data.bestScores === "object" && data.bestScores !== null ? data.bestScores : {},
+    game2048: null,
+  }),
+  // 1 -> 2: add the Flappy Bird ghost runs
+  1: (data) => ({ ...data, version: 2, ghosts: {} }),
+  // 2 -> 3: add the audio settings
+  2: (data) => ({ ...data, version: 3, audio: DEFAULT_AUDIO_SETTINGS }),
+  // 3 -> 4: add the leaderboard nickname
+  3: (data) => ({ ...data, version: 4, nickname: "" }),
+  // 4 -> 5: add the daily challenge results
+  4: (data) => ({ ...data, version: 5, daily: {} }),
+  // 5 -> 6: add the statistics and achievements
+  5: (data) => ({ ...data, version: 6, stats: { totals: {}, records: [], achievements: {} } }),
+  // 6 -> 7: drop the ghosts, whose moving pipes no longer replay the same (ghost version 2)
+  6: (data) => ({ ...data, version: 7, ghosts: {} }),
+  // 7 -> 8: add the Flappy Bird daily run in progress
+  7: (data) => ({ ...data, version: 8, dailyRun: null }),
+};
+
+/**
+ * Returns a fresh, empty save.
+ */
+const createEmptySave = (): SaveData => ({
+  version: SAVE_VERSION,
+  bestScores: {},
+  game2048: null,
+  ghosts: {},
+  audio: DEFAULT_AUDIO_SETTINGS,
+  nickname: "",
+  daily: {},
+  dailyRun: null,
+  stats: { totals: {}, records: [], achievements: {} },
+});
+
+// ------------------------------
+// Low-level Access
+// ------------------------------
+
+/**
+ * Returns localStorage, or null during server rendering or when storage is
+ * blocked (for example in some private browsing modes).
+ */
+const getStorage = (): Storage | null => {
+  if (typeof window === "undefined") return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Upgrades raw stored data to the current version.
+ * Returns null if the data is unusable or comes from a newer app version.
+ */
+export const migrateSave = (raw: unknown): SaveData | null => {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return null;
+  let data = raw as { [key: string]: unknown };
+  let version = typeof data.version === "number" ? data.version : 0;
+  if (version > SAVE_VERSION) return null;
+  while (version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    data = migrate(data);
+    version = data.version as number;
+  }
+  return { ...createEmptySave(), ...data } as SaveData;
+};
+
+/**
+ * Reads the save, migrating it if needed. Falls back to an empty save when
+ * nothing is stored or the stored data cannot be read.
+ */
+export const loadSave = (): SaveData => {
+  const storage = getStorage();
+  if (!storage) return createEmptySave();
+  try {
+    const text = storage.getItem(STORAGE_KEY);
+    if (!text) return createEmptySave();
+    return migrateSave(JSON.parse(text)) ?? createEmptySave();
+  } catch {
+    return createEmptySave();
+  }
+};
+
+/**
+ * Writes the save. Errors (such as a full quota) are ignored: losing a save
+ * should never break the game.
+ */
+export const writeSave = (data: SaveData) => {
+  const storage = getStorage();
+  if (!storage) return;
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch {
+    // Ignore quota and access errors
+  }
+};
+
+/**
+ * Reads the save, applies `update` and writes the result back. An update
+ * that returns the save it was given changes nothing and is not written.
+ */
+export const updateSave = (update: (data: SaveData) => SaveData) => {
+  const data = loadSave();
+  const updated = update(data);
+  if (updated !== data) writeSave(updated);
+};
+
+// ------------------------------
+// Best Scores
+// ------------------------------
+
+/**
+ * Returns all best scores of a game, keyed by mode.
+ */
+export const getBestScores = (game: GameId): { [mode: string]: number } =>
+  loadSave().bestScores[game] ?? {};
+
+/**
+ * Returns the best score of a game in one mode (0 if none yet).
+ */
+export const getBestScore = (game: GameId, mode: string): number =>
+  getBestScores(game)[mode] ?? 0;
+
+/**
+ * Stores a score if it beats the saved best for that game and mode.
+ */
+export const recordBestScore = (game: GameId, mode: string, score: number) => {
+  updateSave((data) => {
+    const scores = data.bestScores[game] ?? {};
+    if ((scores[mode] ?? 0) >= score) return data;
+    return { ...data, bestScores: { ...data.bestScores, [game]: { ...scores, [mode]: score } } };
+  });
+};
+
+// ------------------------------
+// In-progress 2048 Game
+// ------------------------------
+
+/**
+ * Returns the saved unfinished 2048 game, or null if there is none or it
+ * does not look like a valid save.
+ */
+export const loadGame2048 = (): SavedGame2048 | null => {
+  const saved = loadSave().game2048;
+  if (
+    !saved ||
+    typeof saved.seed !== "string" ||
+    !saved.history?.present?.state?.board ||
+    !Array.isArray(saved.directions)
+  ) {
+    return null;
+  }
+  return saved;
+};
+
+/**
+ * Saves the unfinished 2048 game (pass null to clear it).
+ */
+export const saveGame2048 = (game: SavedGame2048 | null) => {
+  updateSave((data) => ({ ...data, game2048: game }));
+};
+
+// ------------------------------
+// Flappy Bird Ghosts
+// ------------------------------
+
+/**
+ * Returns the best saved run for a difficulty, or null if there is none.
+ */
+export const loadGhost = (difficulty: DifficultyId): GhostRun | null =>
+  loadSave().ghosts[difficulty] ?? null;
+
+/**
+ * Stores a run as its difficulty's ghost if it scores higher than the saved
+ * one (ties go to the longer run). Returns true if it was stored.
+ */
+export const recordGhost = (run: GhostRun): boolean => {
+  let stored = false;
+  updateSave((data) => {
+    const current = data.ghosts[run.difficulty];
+    if (current && (current.score > run.score || (current.score === run.score && current.steps >= run.steps))) {
+      return data;
+    }
+    stored = true;
+    return { ...data, ghosts: { ...data.ghosts, [run.difficulty]: run } };
+  });
+  return stored;
+};
+
+// ------------------------------
+// Audio Settings
+// ------------------------------
+
+/**
+ * Returns the saved audio settings.
+ */
+export const loadAudioSettings = (): AudioSettings => {
+  const { audio } = loadSave();
+  return {
+    muted: audio?.muted === true,
+    volume: typeof audio?.volume === "number" ? Math.min(Math.max(audio.volume, 0), 1) : DEFAULT_AUDIO_SETTINGS.volume,
+  };
+};
+
+/**
+ * Saves the audio settings.
+ */
+export const saveAudioSettings = (audio: AudioSettings) => {
+  updateSave((data) => ({ ...data, audio }));
+};
+
+// ------------------------------
+// Leaderboard Nickname
+// ------------------------------
+
+/**
+ * Returns the nickname last used on the leaderboard ("" if none yet).
+ */
+export const loadNickname = (): string => {
+  const { nickname } = loadSave();
+  return typeof nickname === "string" ? nickname : "";
+};
+
+/**
+ * Saves the nickname to use on the leaderboard.
+ */
+export const saveNickname = (nickname: string) => {
+  updateSave((data) => ({ ...data, nickname }));
+};
+
+// ------------------------------
+// Daily Challenge Results
+// ------------------------------
+
+/**
+ * Returns a game's daily challenge results, keyed by date.
+ */
+export const loadDailyResults = (game: GameId): DailyResults => loadSave().daily[game] ?? {};
+
+/**
+ * Stores the result of a day's challenge unless that day already has one
+ * (only the first attempt counts). Returns true if it was stored.
+ */
+export const recordDailyResult = (game: GameId, date: string, result: DailyResult): boolean => {
+  let stored = false;
+  updateSave((data) => {
+    const results = data.daily[game] ?? {};
+    if (results[date]) return data;
+    stored = true;
+    return { ...data, daily: { ...data.daily, [game]: { ...results, [date]: result } } };
+  });
+  return stored;
+};
+
+/**
+ * Returns the Flappy Bird daily run in progress, if any.
+ */
+export const loadDailyRun = (): DailyRun | null => loadSave().dailyRun;
+
+/**
+ * Saves the Flappy Bird daily run in progress, or clears it with null.
+ */
+export const saveDailyRun = (dailyRun: DailyRun | null) => {
+  updateSave((data) => ({ ...data, dailyRun }));
+};
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { isLeaderboardGame, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "../../../../../lib/leaderboard";
+import { getLeaderboard } from "../../../../../lib/scoreStore";
+
+/**
+ * Route parameters for /api/leaderboard/[game].
+ */
+type LeaderboardRouteContext = {
+  params: Promise<{ game: string }>;
+};
+
+/**
+ * Reads a whole-number query parameter from `min` to `max`, or returns
+ * null if it is present but out of range.
+ */
+const readInteger = (value: string | null, fallback: number, min: number, max: number): number | null => {
+  if (value === null) return fallback;
+  const number = Number(value);
+  return Number.isInteger(number) && number >= min && number <= max ? number : null;
+};
+
+/**
+ * GET /api/leaderboard/[game]?mode=&page=&pageSize= lists one page of a
+ * game's leaderboard, best first. Without `mode` every mode is combined.
+ */
+export const GET = async (request: Request, { params }: LeaderboardRouteContext) => {
+  const { game } = await params;
+  if (!isLeaderboardGame(game)) {
+    return NextResponse.json({ issues: [`Unknown game "${game}".`] }, { status: 404 });
+  }
+
+  const query = new URL(request.url).searchParams;
+  const page = readInteger(query.get("page"), 1, 1, Number.MAX_SAFE_INTEGER);
+  const pageSize = readInteger(query.get("pageSize"), DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE);
+  const issues = [
+    ...(page === null ? ['"page" must be a whole number of at least 1.'] : []),
+    ...(pageSize === null ? [`"pageSize" must be a whole number from 1 to ${MAX_PAGE_SIZE}.`] : []),
+  ];
+  if (page === null || pageSize === null) {
+    return NextResponse.json({ issues }, { status: 400 });
+  }
+
+  return NextResponse.json(await getLeaderboard({ game, mode: query.get("mode") || null, page, pageSize }));
+};
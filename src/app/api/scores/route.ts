@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { verifySubmission, LeaderboardError } from "../../../../lib/leaderboard";
+import { addScore } from "../../../../lib/scoreStore";
+
+/**
+ * POST /api/scores submits a score (see ScoreSubmission). The game is
+ * re-simulated before the score is stored; rejected submissions get a 400
+ * response listing the problems found.
+ */
+export const POST = async (request: Request) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ issues: ["Body is not valid JSON."] }, { status: 400 });
+  }
+
+  try {
+    const entry = await addScore(verifySubmission(body));
+    return NextResponse.json(entry, { status: 201 });
+  } catch (error) {
+    if (error instanceof LeaderboardError) {
+      return NextResponse.json({ issues: error.issues }, { status: 400 });
+    }
+    throw error;
+  }
+};
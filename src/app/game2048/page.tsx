@@ -1,41 +1,48 @@
 "use client";
 
-import React from "react";
-import Game2048 from "../../../components/Game2048";
+import React, { use } from "react";
+import dynamic from "next/dynamic";
+import { isRuleSetId } from "../../../lib/game2048/rules";
+import { isChallengeId } from "../../../lib/game2048/challenges";
 
-function Game2048Page() {
-  return (
-    <div className="min-h-screen flex flex-col items-center justify-center bg-gradient-to-br from-blue-200 to-purple-300 p-4">
-      {/* Header */}
-      <header className="mb-8 text-center">
-        <h1
-        style={{
-          textShadow: "4px 4px 2px rgba(0, 0, 0, 0.6)", // Black shadow
-        }} 
-        className="text-6xl italic font-black text-[#312626] drop-shadow-lg">Game 2048</h1>
-        <h3 className="text-xl text-gray-700 mt-2">
-          Made by Dinesha 
-        </h3>
-      </header>
+// The game picks random seeds when it starts, so it is rendered on the client only
+const Game2048 = dynamic(() => import("../../../components/Game2048"), { ssr: false });
+
+/**
+ * Route query for /game2048, e.g. /game2048?size=6&target=4096&seed=abc,
+ * /game2048?mode=daily, a rule variant such as /game2048?mode=fibonacci or
+ * a challenge such as /game2048?mode=puzzle&puzzle=staircase.
+ */
+type Game2048PageProps = {
+  searchParams: Promise<{
+    size?: string;
+    target?: string;
+    seed?: string;
+    mode?: string;
+    budget?: string;
+    puzzle?: string;
+  }>;
+};
 
-      {/* Game container */}
-      <div className="w-full max-w-md bg-white rounded-lg shadow-lg overflow-hidden">
-        <Game2048 />
-      </div>
+function Game2048Page({ searchParams }: Game2048PageProps) {
+  const { size, target, seed, mode, budget, puzzle } = use(searchParams);
+  const daily = mode === "daily";
+  const rules = isRuleSetId(mode) ? mode : "classic";
+  const challenge = isChallengeId(mode) ? mode : undefined;
 
-      {/* Game Rules */}
-      <div className="mt-6 p-6 border-4 border-black rounded-lg bg-yellow-100 max-lg: shadow-xl">
-        <h2 className="text-2xl font-bold mb-2 text-center text-gray-800">
-          Game Rules
-        </h2>
-        <ul className="list-disc list-inside text-gray-700 border-4 border-black border-solid p-6 rounded-lg bg-white space-y-1">
-          <li>Use the arrow keys to move the tiles.</li>
-          <li>Tiles with the same number merge when they touch.</li>
-          <li>A new tile appears after each move.</li>
-          <li>Reach 2048 to win—but no win overlay; keep playing!</li>
-        </ul>
-      </div>
-    </div>
+  // Keyed by mode so switching to or from the daily challenge, a variant or a challenge starts fresh
+  return (
+    <Game2048
+      key={daily ? "daily" : (challenge ?? rules)}
+      rules={rules}
+      challenge={challenge}
+      budget={budget}
+      puzzle={puzzle}
+      size={Number(size)}
+      target={Number(target)}
+      seed={seed}
+      daily={daily}
+    />
   );
 }
 
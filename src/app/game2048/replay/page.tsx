@@ -0,0 +1,23 @@
+"use client";
+
+import React from "react";
+import Replay2048 from "../../../../components/Replay2048";
+import GameShell from "../../../../components/GameShell";
+
+function Replay2048Page() {
+  return (
+    <GameShell
+      gameId="2048"
+      mode="replay"
+      title="2048 Replays"
+      tagline="Watch a saved game move by move"
+      showRules={false}
+    >
+      <div className="w-full max-w-md bg-white">
+        <Replay2048 />
+      </div>
+    </GameShell>
+  );
+}
+
+export default Replay2048Page;
@@ -0,0 +1,13 @@
+"use client";
+
+import React from "react";
+import dynamic from "next/dynamic";
+
+// Matches pick random seeds when they start, so the game is rendered on the client only
+const Versus2048 = dynamic(() => import("../../../../components/Versus2048"), { ssr: false });
+
+function Versus2048Page() {
+  return <Versus2048 />;
+}
+
+export default Versus2048Page;
@@ -1,16 +1,27 @@
 "use client";
 
-import React from "react";
-import FlappyBird from "../../../components/GameFlappyBird";
+import React, { use } from "react";
+import dynamic from "next/dynamic";
 
-function GameFlappyBirdPage() {
-  return (
-    <div className="min-h-screen flex flex-col items-center justify-center">
-        <h1>Game 2048</h1>
-        <h3>Made by Dinesha for the LiL Bro TJW</h3>
-      <FlappyBird />
-    </div>
-  );
+// The game picks random seeds when it starts, so it is rendered on the client only
+const FlappyBird = dynamic(() => import("../../../components/GameFlappyBird"), { ssr: false });
+const FlappyTrainer = dynamic(() => import("../../../components/FlappyTrainer"), { ssr: false });
+
+/**
+ * Route query for /gameFlappyBird, e.g. /gameFlappyBird?seed=abc,
+ * /gameFlappyBird?mode=train or /gameFlappyBird?mode=daily.
+ */
+type GameFlappyBirdPageProps = {
+  searchParams: Promise<{ seed?: string; mode?: string }>;
+};
+
+function GameFlappyBirdPage({ searchParams }: GameFlappyBirdPageProps) {
+  const { seed, mode } = use(searchParams);
+
+  if (mode === "train") return <FlappyTrainer />;
+  const daily = mode === "daily";
+  // Keyed by mode so switching to or from the daily challenge starts fresh
+  return <FlappyBird key={daily ? "daily" : "play"} seed={seed} daily={daily} />;
 }
 
 export default GameFlappyBirdPage;
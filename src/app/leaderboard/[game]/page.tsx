@@ -0,0 +1,36 @@
+"use client";
+
+import React, { use } from "react";
+import { notFound } from "next/navigation";
+import Leaderboard from "../../../../components/Leaderboard";
+import GameShell from "../../../../components/GameShell";
+import { GAME_REGISTRY } from "../../../../lib/games";
+import { isLeaderboardGame } from "../../../../lib/leaderboard";
+
+/**
+ * Route parameters for /leaderboard/[game], e.g. /leaderboard/2048.
+ */
+type LeaderboardPageProps = {
+  params: Promise<{ game: string }>;
+};
+
+function LeaderboardPage({ params }: LeaderboardPageProps) {
+  const { game } = use(params);
+  if (!isLeaderboardGame(game)) notFound();
+
+  return (
+    <GameShell
+      gameId={game}
+      mode="leaderboard"
+      title={`${GAME_REGISTRY[game].title} Leaderboard`}
+      tagline="Every score is checked by replaying the game"
+      showRules={false}
+    >
+      <div className="w-full max-w-xl bg-white">
+        <Leaderboard game={game} />
+      </div>
+    </GameShell>
+  );
+}
+
+export default LeaderboardPage;
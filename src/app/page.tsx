@@ -1,49 +1,64 @@
 'use client';
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import type { NextPage } from "next";
+import Image from "next/image";
 import Link from "next/link";
+import { GAMES } from "../../lib/games";
+import { getBestScores, GameId } from "../../lib/storage";
 
 const Home: NextPage = () => {
-  const [showPopup, setShowPopup] = useState(false);
+  // Best score of each game over all its modes; read after mounting because
+  // localStorage is not available while rendering on the server
+  const [bestScores, setBestScores] = useState<{ [game in GameId]?: number }>({});
 
-  return (
-    <div className="min-h-screen flex flex-col items-center justify-center">
-      <h1 className="text-4xl font-bold mb-8">Choose Your Game</h1>
-
-      <div className="flex space-x-4">
-        {/* Flappy Bird Button - Opens Popup */}
-        <button
-          onClick={() => setShowPopup(true)}
-          className="px-4 py-2 bg-blue-500 text-white rounded"
-        >
-          Flappy Bird Coming SOOON
-        </button>
-
-        {/* 2048 Game Button */}
-        <Link href="/game2048">
-          <button className="px-4 py-2 bg-green-500 text-white rounded">
-            2048 Game
-          </button>
-        </Link>
-      </div>
+  useEffect(() => {
+    setBestScores(
+      Object.fromEntries(
+        GAMES.map((game) => [game.id, Math.max(0, ...Object.values(getBestScores(game.id)))])
+      )
+    );
+  }, []);
 
-      {/* Popup Modal */}
-      {showPopup && (
-        <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50">
-          <div className="bg-white p-6 rounded-lg shadow-lg text-center">
-            <h2 className="text-xl font-bold mb-2">Flappy Bird is Coming Soon! 🐦</h2>
-            <p>Stay tuned for updates. Exciting things are on the way!</p>
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-gradient-to-br from-blue-200 to-purple-300 p-4">
+      <h1
+      style={{
+        textShadow: "4px 4px 2px rgba(0, 0, 0, 0.6)", // Black shadow
+      }}
+      className="text-5xl italic font-black text-[#312626] mb-2">Choose Your Game</h1>
+      <Link href="/stats" className="text-sm font-bold text-gray-700 underline mb-6">
+        Stats &amp; Achievements
+      </Link>
 
-            {/* Close Button */}
-            <button
-              onClick={() => setShowPopup(false)}
-              className="mt-4 px-4 py-2 bg-red-500 text-white rounded"
-            >
-              Close
-            </button>
+      {/* Game cards, one per registry entry */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+        {GAMES.map((game) => (
+          <div
+            key={game.id}
+            className="flex flex-col items-center w-64 border-4 border-black rounded-lg bg-white shadow-xl p-4"
+          >
+            <Link href={game.route} className="flex flex-col items-center">
+              <Image src={game.thumbnail} alt="" width={160} height={160} unoptimized />
+              <h2 className="text-2xl font-bold text-[#312626] mt-2">{game.title}</h2>
+            </Link>
+            <p className="text-sm text-gray-700 text-center mt-1">{game.description}</p>
+            <p className="font-bold text-gray-800 mt-2">Best: {bestScores[game.id] ?? 0}</p>
+            {/* Mode links */}
+            <div className="flex flex-wrap justify-center mt-2">
+              {game.modes.map((mode) => (
+                <Link
+                  key={mode.id}
+                  href={mode.href}
+                  style={{ backgroundColor: "#312626" }} // Explicit color setting
+                  className="text-white border-solid border-black border-4 rounded-lg px-3 shadow-md transition duration-200 font-bold hover:bg-orange-500 m-1"
+                >
+                  {mode.label}
+                </Link>
+              ))}
+            </div>
           </div>
-        </div>
-      )}
+        ))}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,26 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import StatsDashboard from "../../../components/StatsDashboard";
+
+function StatsPage() {
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-gradient-to-br from-blue-200 to-purple-300 p-4">
+      <header className="mb-6 text-center">
+        <Link href="/" className="text-sm font-bold text-gray-700 underline">
+          All games
+        </Link>
+        <h1
+        style={{
+          textShadow: "4px 4px 2px rgba(0, 0, 0, 0.6)", // Black shadow
+        }}
+        className="text-6xl italic font-black text-[#312626] drop-shadow-lg">Stats</h1>
+        <h3 className="text-xl text-gray-700 mt-2">Every finished game, and the achievements you have earned</h3>
+      </header>
+      <StatsDashboard />
+    </div>
+  );
+}
+
+export default StatsPage;